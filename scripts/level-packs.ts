@@ -0,0 +1,43 @@
+// Node-side access to the level pack manifest for the Node scripts
+
+import { readFileSync } from 'fs';
+import { LevelPackInfo } from '@/types/GameTypes';
+import { LevelPackManager } from '@/managers/LevelPackManager';
+
+const LEVELS_DIR = 'public/assets/levels';
+
+export function readPacks(): LevelPackInfo[] {
+  return JSON.parse(readFileSync(`${LEVELS_DIR}/packs.json`, 'utf8')).packs;
+}
+
+export function readLevel(packId: string, levelKey: string): string[] {
+  const pack = readPacks().find(p => p.id === packId);
+  if (!pack) {
+    throw new Error(`Level pack "${packId}" is not listed in packs.json`);
+  }
+
+  const packData = JSON.parse(readFileSync(`${LEVELS_DIR}/${pack.file}`, 'utf8'));
+  const levelData: string[] | undefined = packData.levels?.[levelKey];
+  if (!levelData) {
+    throw new Error(`Level "${levelKey}" not found in pack "${packId}"`);
+  }
+  return levelData;
+}
+
+/**
+ * Every level in a pack, in order from level 1, keyed by level key
+ */
+export function readPackLevels(packId: string): Map<string, string[]> {
+  const pack = readPacks().find(p => p.id === packId);
+  if (!pack) {
+    throw new Error(`Level pack "${packId}" is not listed in packs.json`);
+  }
+
+  const packData = JSON.parse(readFileSync(`${LEVELS_DIR}/${pack.file}`, 'utf8'));
+  const levels = new Map<string, string[]>();
+  for (let levelNumber = 1; levelNumber <= pack.levelCount; levelNumber++) {
+    const levelKey = LevelPackManager.formatLevelKey(pack.levelKeyPattern, levelNumber);
+    levels.set(levelKey, packData.levels?.[levelKey]);
+  }
+  return levels;
+}
@@ -0,0 +1,90 @@
+// Static lint report for level packs
+// Usage: npm run validate:levels -- [pack-id] [--verbose]
+// Exits non-zero when any level has errors, except the known ones listed below.
+
+import { LevelValidator } from '@/utils/LevelValidator';
+import { readPacks, readPackLevels } from './level-packs';
+
+interface KnownFailure {
+  codes: string[];   // Error codes this level is allowed to report
+  reason: string;
+}
+
+// Authentic levels that fail under this build's rules. They are still
+// reported, but only a new error code or a new level fails the run.
+const KNOWN_FAILURES: Record<string, Record<string, KnownFailure>> = {
+  classic: {
+    'level-011': { codes: ['unreachable-exit'], reason: 'exit cell is open air above the top of the exit ladder' },
+    'level-025': { codes: ['unreachable-gold'], reason: 'gold at (20,1) sits on a ledge no ladder, rope or fall leads to' },
+    'level-067': { codes: ['unreachable-exit'], reason: 'exit cell is open air above the top of the exit ladder' },
+    'level-068': { codes: ['unreachable-gold'], reason: 'gold at (12,14) needs a chain of open holes, which the dig model does not follow' },
+    'level-098': { codes: ['unreachable-gold'], reason: 'gold at (6,2) is only reached from the top row, above the hidden exit ladder' },
+    'level-113': { codes: ['unreachable-exit'], reason: 'exit cell is open air above the top of the exit ladder' },
+    'level-130': { codes: ['unreachable-exit'], reason: 'exit cell is open air above the top of the exit ladder' },
+    'level-137': { codes: ['unreachable-exit'], reason: 'exit cell is open air above the top of the exit ladder' },
+    'level-139': { codes: ['unreachable-gold'], reason: 'gold at (25,1) sits on a walled-off ledge no move reaches' },
+    'level-148': { codes: ['unreachable-exit'], reason: 'exit cell is open air above the top of the exit ladder' }
+  }
+};
+
+function main(): void {
+  const args = process.argv.slice(2);
+  const verbose = args.includes('--verbose');
+  const packArg = args.find(arg => !arg.startsWith('--'));
+  const packIds = packArg ? [packArg] : readPacks().map(pack => pack.id);
+
+  let failedLevels = 0;
+  let knownLevels = 0;
+  let warningCount = 0;
+
+  packIds.forEach(packId => {
+    const levels = readPackLevels(packId);
+    let packFailures = 0;
+    const knownFailures = KNOWN_FAILURES[packId] ?? {};
+    console.log(`Pack "${packId}" (${levels.size} levels)`);
+
+    levels.forEach((levelData, levelKey) => {
+      if (!levelData) {
+        packFailures++;
+        console.log(`  FAIL  ${levelKey}: missing from pack file`);
+        return;
+      }
+
+      const result = LevelValidator.validate(levelData);
+      const { stats } = result;
+      const known = knownFailures[levelKey];
+      const errors = result.issues.filter(issue => issue.severity === 'error');
+      const isKnown = !result.valid && !!known && errors.every(issue => known.codes.includes(issue.code));
+      warningCount += result.issues.length - errors.length;
+      if (isKnown) {
+        knownLevels++;
+      } else if (!result.valid) {
+        packFailures++;
+      }
+
+      if (result.valid && known) {
+        console.log(`  note  ${levelKey}: passes now, drop it from KNOWN_FAILURES`);
+      }
+      if (result.valid && result.issues.length === 0 && !verbose) {
+        return;
+      }
+
+      const label = isKnown ? 'known' : result.valid ? 'ok   ' : 'FAIL ';
+      console.log(`  ${label} ${levelKey}: ${stats.width}x${stats.height}, ${stats.gold} gold, ${stats.guards} guards, exit column ${stats.exitColumn ?? '-'}`);
+      if (isKnown) {
+        console.log(`        (${known.reason})`);
+      }
+      result.issues.forEach(issue => {
+        console.log(`        ${issue.severity} [${issue.code}] ${issue.message}`);
+      });
+    });
+
+    console.log(`  ${levels.size - packFailures}/${levels.size} levels pass`);
+    failedLevels += packFailures;
+  });
+
+  console.log(`${failedLevels} level(s) with errors, ${knownLevels} known, ${warningCount} warning(s)`);
+  process.exitCode = failedLevels > 0 ? 1 : 0;
+}
+
+main();
@@ -0,0 +1,118 @@
+import { GuardState } from '@/types/GameTypes';
+import { NavigationGraph, NavNode } from '@/utils/NavigationGraph';
+import { GuardAgent, GuardBrain, GuardBrainContext, GuardBrainState, getCellCenter } from './GuardBrain';
+import { HeuristicBrain } from './HeuristicBrain';
+
+type AStarBrainState = {
+  path: NavNode[];
+  pathGoalKey: string;
+  pathGraphVersion: number;
+  replanTimer: number;
+  fallback: GuardBrainState;
+};
+
+/**
+ * AStarBrain - follows an A* route to the player's cell
+ * Routes are planned on the scene's NavigationGraph and replanned when the
+ * player changes cell, the graph changes (holes opening or closing) or the
+ * guard drifts off the route. Falls back to the heuristics when there is no
+ * graph or no route.
+ */
+export class AStarBrain implements GuardBrain {
+  readonly id = 'astar' as const;
+  private fallback: HeuristicBrain;
+  private path: NavNode[] = [];           // Remaining cells on the route to the player
+  private pathGoalKey: string = '';       // Player cell the route was planned to
+  private pathGraphVersion: number = -1;  // Graph version the route was planned on
+  private replanTimer: number = 0;
+  private replanInterval: number = 500;   // Replan at least every 500ms
+
+  constructor(context: GuardBrainContext) {
+    this.fallback = new HeuristicBrain(context);
+  }
+
+  update(guard: GuardAgent, delta: number): void {
+    this.replanTimer += delta;
+    if (!this.followPath(guard)) {
+      this.fallback.update(guard, delta);
+    }
+  }
+
+  getSteeringTarget(): { x: number, y: number } | null {
+    return this.path.length > 0 ? getCellCenter(this.path[0]) : null;
+  }
+
+  getPlannedPath(): NavNode[] {
+    return [...this.path];
+  }
+
+  reset(): void {
+    this.path = [];
+    this.pathGoalKey = '';
+    this.replanTimer = 0;
+    this.fallback.reset();
+  }
+
+  getState(): GuardBrainState {
+    const state: AStarBrainState = {
+      path: this.path.map(cell => ({ ...cell })),
+      pathGoalKey: this.pathGoalKey,
+      pathGraphVersion: this.pathGraphVersion,
+      replanTimer: this.replanTimer,
+      fallback: this.fallback.getState()
+    };
+    return state;
+  }
+
+  restoreState(state: GuardBrainState): void {
+    const saved = state as AStarBrainState;
+    this.path = (saved.path ?? []).map(cell => ({ ...cell }));
+    this.pathGoalKey = saved.pathGoalKey ?? '';
+    this.pathGraphVersion = saved.pathGraphVersion ?? -1;
+    this.replanTimer = saved.replanTimer ?? 0;
+    this.fallback.restoreState(saved.fallback ?? {});
+  }
+
+  /**
+   * Steer along the route
+   * @returns false when there is no graph or no route
+   */
+  private followPath(guard: GuardAgent): boolean {
+    const graph = guard.getNavigationGraph();
+    if (!graph) {
+      return false;
+    }
+
+    // Let a fall finish before steering again
+    if (guard.getState() === GuardState.FALLING && !guard.isBlocked('down')) {
+      return this.path.length > 0;
+    }
+
+    const current = guard.getGridPosition();
+    const goal = guard.getPlayerGridPosition();
+    const goalKey = NavigationGraph.nodeKey(goal.x, goal.y);
+
+    // Drop cells already reached
+    while (this.path.length > 0 && this.path[0].x === current.x && this.path[0].y === current.y) {
+      this.path.shift();
+    }
+
+    const next = this.path[0];
+    const offRoute = next && Math.abs(next.x - current.x) + Math.abs(next.y - current.y) !== 1;
+    if (goalKey !== this.pathGoalKey || offRoute ||
+        this.pathGraphVersion !== graph.getVersion() ||
+        this.replanTimer >= this.replanInterval) {
+      this.path = graph.findPath(current, goal) || [];
+      this.pathGoalKey = goalKey;
+      this.pathGraphVersion = graph.getVersion();
+      this.replanTimer = 0;
+    }
+
+    if (this.path.length === 0 && (current.x !== goal.x || current.y !== goal.y)) {
+      return false;
+    }
+
+    guard.steerToCell(this.path[0] || null);
+    return true;
+  }
+}
@@ -0,0 +1,271 @@
+import { GAME_CONFIG, TILE_TYPES } from '@/config/GameConfig';
+import { GuardState } from '@/types/GameTypes';
+import { NavNode } from '@/utils/NavigationGraph';
+import { GuardAgent, GuardBrain, GuardBrainContext, GuardBrainState, getCellCenter } from './GuardBrain';
+
+type ClassicMove = 'left' | 'right' | 'up' | 'down' | 'stop';
+
+type ClassicBrainState = {
+  nextCell: NavNode | null;
+  decidedAt: NavNode | null;
+  decisionTimer: number;
+};
+
+/**
+ * ClassicBrain - port of the Apple II guard algorithm
+ * Decides one cell at a time, like the original:
+ * 1. On the runner's row, walk straight at the runner if the floor between
+ *    them is unbroken (walls are not checked, so guards can get stuck).
+ * 2. Otherwise scan the floor the guard can walk along. At each column,
+ *    rate dropping down or climbing a ladder by the row it leads to:
+ *    the runner's row scores by distance, rows above score 100+, rows
+ *    below 200+. The lowest rating wins and the guard heads that way.
+ * Floors are read from the level layout, so dug holes still look like
+ * floor and guards walk straight into them.
+ */
+export class ClassicBrain implements GuardBrain {
+  readonly id = 'classic' as const;
+  private getBaseTileType: GuardBrainContext['getBaseTileType'];
+  private readonly maxX = GAME_CONFIG.levelWidth - 1;
+  private readonly maxY = GAME_CONFIG.levelHeight - 1;
+
+  private nextCell: NavNode | null = null;
+  private decidedAt: NavNode | null = null;  // Cell the last decision was made in
+  private decisionTimer: number = 0;
+  private decisionInterval: number = 500;
+
+  // Scan state, as in the original's zero-page variables
+  private bestRating: number = 255;
+  private bestMove: ClassicMove = 'stop';
+
+  constructor(context: GuardBrainContext) {
+    this.getBaseTileType = context.getBaseTileType;
+  }
+
+  update(guard: GuardAgent, delta: number): void {
+    this.decisionTimer += delta;
+
+    // Let a fall finish before deciding again
+    if (guard.getState() === GuardState.FALLING && !guard.isBlocked('down')) {
+      return;
+    }
+
+    const current = guard.getGridPosition();
+    const movedCell = !this.decidedAt || this.decidedAt.x !== current.x || this.decidedAt.y !== current.y;
+    if (movedCell || this.decisionTimer >= this.decisionInterval) {
+      this.nextCell = this.toCell(current, this.decide(current, guard.getPlayerGridPosition()));
+      this.decidedAt = current;
+      this.decisionTimer = 0;
+    }
+
+    guard.steerToCell(this.nextCell);
+  }
+
+  getSteeringTarget(): { x: number, y: number } | null {
+    return this.nextCell ? getCellCenter(this.nextCell) : null;
+  }
+
+  // Classic guards decide one cell at a time
+  getPlannedPath(): NavNode[] {
+    return this.nextCell ? [this.nextCell] : [];
+  }
+
+  reset(): void {
+    this.nextCell = null;
+    this.decidedAt = null;
+    this.decisionTimer = 0;
+  }
+
+  getState(): GuardBrainState {
+    const state: ClassicBrainState = {
+      nextCell: this.nextCell ? { ...this.nextCell } : null,
+      decidedAt: this.decidedAt ? { ...this.decidedAt } : null,
+      decisionTimer: this.decisionTimer
+    };
+    return state;
+  }
+
+  restoreState(state: GuardBrainState): void {
+    const saved = state as ClassicBrainState;
+    this.nextCell = saved.nextCell ? { ...saved.nextCell } : null;
+    this.decidedAt = saved.decidedAt ? { ...saved.decidedAt } : null;
+    this.decisionTimer = saved.decisionTimer ?? 0;
+  }
+
+  /**
+   * Pick the guard's next move toward the runner
+   */
+  decide(guard: NavNode, runner: NavNode): ClassicMove {
+    let x = guard.x;
+    const y = guard.y;
+
+    if (y === runner.y) {
+      while (x !== runner.x) {
+        const here = this.tileAt(x, y);
+        const below = y < this.maxY ? this.tileAt(x, y + 1) : TILE_TYPES.BRICK;
+        if (here === TILE_TYPES.LADDER || here === TILE_TYPES.ROPE || this.isFloor(below)) {
+          x += x < runner.x ? 1 : -1;
+        } else {
+          break; // Gap in the floor
+        }
+      }
+
+      if (x === runner.x) {
+        if (guard.x === runner.x) {
+          return 'stop';
+        }
+        return guard.x < runner.x ? 'right' : 'left';
+      }
+    }
+
+    return this.scanFloor(guard, runner);
+  }
+
+  private scanFloor(guard: NavNode, runner: NavNode): ClassicMove {
+    const startX = guard.x;
+    const y = guard.y;
+    this.bestRating = 255;
+    this.bestMove = 'stop';
+
+    const leftEnd = this.findFloorEnd(startX, y, -1);
+    const rightEnd = this.findFloorEnd(startX, y, 1);
+
+    // Straight down or up from where the guard stands
+    if (this.canScanDown(startX, y)) {
+      this.scanDown(startX, y, startX, runner, 'down');
+    }
+    if (this.tileAt(startX, y) === TILE_TYPES.LADDER) {
+      this.scanUp(startX, y, startX, runner, 'up');
+    }
+
+    // Columns to the left, far end first
+    for (let x = leftEnd; x < startX; x++) {
+      if (this.canScanDown(x, y)) {
+        this.scanDown(x, y, startX, runner, 'left');
+      }
+      if (this.tileAt(x, y) === TILE_TYPES.LADDER) {
+        this.scanUp(x, y, startX, runner, 'left');
+      }
+    }
+
+    // Columns to the right, far end first
+    for (let x = rightEnd; x > startX; x--) {
+      if (this.canScanDown(x, y)) {
+        this.scanDown(x, y, startX, runner, 'right');
+      }
+      if (this.tileAt(x, y) === TILE_TYPES.LADDER) {
+        this.scanUp(x, y, startX, runner, 'right');
+      }
+    }
+
+    return this.bestMove;
+  }
+
+  /**
+   * Last column the guard can walk to in one direction; the first column
+   * without floor is included, since the guard can walk off the edge there
+   */
+  private findFloorEnd(startX: number, y: number, direction: 1 | -1): number {
+    let x = startX;
+    while (direction < 0 ? x > 0 : x < this.maxX) {
+      const next = this.tileAt(x + direction, y);
+      if (next === TILE_TYPES.BRICK || next === TILE_TYPES.SOLID) {
+        break;
+      }
+
+      x += direction;
+      const supported = next === TILE_TYPES.LADDER || next === TILE_TYPES.ROPE ||
+                        y >= this.maxY || this.isFloor(this.tileAt(x, y + 1));
+      if (!supported) {
+        break;
+      }
+    }
+    return x;
+  }
+
+  private canScanDown(x: number, y: number): boolean {
+    if (y >= this.maxY) {
+      return false;
+    }
+    const below = this.tileAt(x, y + 1);
+    return below !== TILE_TYPES.BRICK && below !== TILE_TYPES.SOLID;
+  }
+
+  /**
+   * Follow a drop down the column, stopping at a floor or at the first
+   * branch off a ladder or rope at or below the runner's row
+   */
+  private scanDown(x: number, startY: number, startX: number, runner: NavNode, move: ClassicMove): void {
+    let y = startY;
+    while (this.canScanDown(x, y)) {
+      const here = this.tileAt(x, y);
+      if (here === TILE_TYPES.LADDER || here === TILE_TYPES.ROPE) {
+        if ((this.canLeaveTo(x - 1, y) || this.canLeaveTo(x + 1, y)) && y >= runner.y) {
+          break;
+        }
+      }
+      y++;
+    }
+    this.rate(x, y, startX, runner, move);
+  }
+
+  /**
+   * Follow a ladder up the column, stopping at its top or at the first
+   * branch at or above the runner's row
+   */
+  private scanUp(x: number, startY: number, startX: number, runner: NavNode, move: ClassicMove): void {
+    let y = startY;
+    while (y > 0 && this.tileAt(x, y) === TILE_TYPES.LADDER) {
+      y--;
+      if ((this.canLeaveTo(x - 1, y) || this.canLeaveTo(x + 1, y)) && y <= runner.y) {
+        break;
+      }
+    }
+    this.rate(x, y, startX, runner, move);
+  }
+
+  private rate(x: number, y: number, startX: number, runner: NavNode, move: ClassicMove): void {
+    let rating: number;
+    if (y === runner.y) {
+      rating = Math.abs(startX - x);
+    } else if (y > runner.y) {
+      rating = y - runner.y + 200; // Below the runner
+    } else {
+      rating = runner.y - y + 100; // Above the runner
+    }
+
+    if (rating < this.bestRating) {
+      this.bestRating = rating;
+      this.bestMove = move;
+    }
+  }
+
+  // A side cell the guard could step onto from a ladder or rope
+  private canLeaveTo(x: number, y: number): boolean {
+    if (x < 0 || x > this.maxX) {
+      return false;
+    }
+    return this.tileAt(x, y) === TILE_TYPES.ROPE || this.isFloor(this.tileAt(x, y + 1));
+  }
+
+  private isFloor(tileType: number): boolean {
+    return tileType === TILE_TYPES.BRICK || tileType === TILE_TYPES.SOLID || tileType === TILE_TYPES.LADDER;
+  }
+
+  private tileAt(x: number, y: number): number {
+    if (x < 0 || x > this.maxX || y < 0 || y > this.maxY) {
+      return TILE_TYPES.SOLID;
+    }
+    return this.getBaseTileType(x, y);
+  }
+
+  private toCell(current: NavNode, move: ClassicMove): NavNode | null {
+    switch (move) {
+      case 'left': return { x: current.x - 1, y: current.y };
+      case 'right': return { x: current.x + 1, y: current.y };
+      case 'up': return { x: current.x, y: current.y - 1 };
+      case 'down': return { x: current.x, y: current.y + 1 };
+      default: return null;
+    }
+  }
+}
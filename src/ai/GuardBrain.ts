@@ -0,0 +1,88 @@
+import { GAME_CONFIG } from '@/config/GameConfig';
+import { GuardState } from '@/types/GameTypes';
+import { NavigationGraph, NavNode } from '@/utils/NavigationGraph';
+import { SeededRandom } from '@/utils/SeededRandom';
+
+/**
+ * GuardBrain - pluggable guard decision-making
+ * A brain chooses how a guard moves; the Guard entity still owns physics,
+ * animation and the hole rules. Brains only run while the guard is free
+ * to move (not trapped, escaping or respawning). They see guards only
+ * through GuardAgent.
+ */
+
+export type GuardBrainId = 'heuristic' | 'astar' | 'classic';
+
+/**
+ * What a brain can see and steer on a guard
+ */
+export interface GuardAgent {
+  getPosition(): { x: number, y: number };
+  // Something stops the guard on that side ('down': standing on it)
+  isBlocked(side: 'left' | 'right' | 'down'): boolean;
+  getState(): GuardState;
+  steer(state: GuardState, direction?: 1 | -1): void;
+  steerToCell(next: NavNode | null): void;
+  canClimb(): boolean;
+  canUseRope(): boolean;
+  isLadderExitCoolingDown(): boolean;
+  getGridPosition(): NavNode;
+  getPlayerPosition(): { x: number, y: number };
+  getPlayerGridPosition(): NavNode;
+  getNavigationGraph(): NavigationGraph | null;
+}
+
+/**
+ * A brain's plans and timers as plain data, for level saves
+ */
+export type GuardBrainState = { [key: string]: unknown };
+
+/**
+ * Shared services handed to every brain
+ */
+export interface GuardBrainContext {
+  rng: SeededRandom;
+  // Tile type as laid out in the level: dug holes still read as their brick
+  getBaseTileType(gridX: number, gridY: number): number;
+}
+
+export interface GuardBrain {
+  readonly id: GuardBrainId;
+
+  /**
+   * Steer the guard for this frame
+   */
+  update(guard: GuardAgent, delta: number): void;
+
+  /**
+   * Point the guard's movement states steer toward, or null for the player
+   */
+  getSteeringTarget(): { x: number, y: number } | null;
+
+  /**
+   * Cells the brain means to move through, nearest first (for the debug overlay)
+   */
+  getPlannedPath(): NavNode[];
+
+  /**
+   * Forget plans and timers (level restart, respawn)
+   */
+  reset(): void;
+
+  /**
+   * Plans and timers as they are now
+   */
+  getState(): GuardBrainState;
+
+  /**
+   * Continue from a state returned by getState() of a brain with the same id
+   */
+  restoreState(state: GuardBrainState): void;
+}
+
+export function getCellCenter(cell: NavNode): { x: number, y: number } {
+  return {
+    x: cell.x * GAME_CONFIG.tileSize + GAME_CONFIG.halfTileSize,
+    y: cell.y * GAME_CONFIG.tileSize + GAME_CONFIG.halfTileSize
+  };
+}
@@ -0,0 +1,71 @@
+import { LevelPackInfo } from '@/types/GameTypes';
+import { AStarBrain } from './AStarBrain';
+import { ClassicBrain } from './ClassicBrain';
+import { GuardBrain, GuardBrainContext, GuardBrainId } from './GuardBrain';
+import { HeuristicBrain } from './HeuristicBrain';
+
+/**
+ * GuardBrainFactory - creates guard brains and resolves which one to use
+ * A pack can name its brain in packs.json ("guardBrain"); a player setting
+ * overrides the pack so strategies can be compared on the same levels.
+ */
+export class GuardBrainFactory {
+  static readonly BRAIN_IDS: readonly GuardBrainId[] = ['heuristic', 'astar', 'classic'];
+  static readonly DEFAULT_BRAIN_ID: GuardBrainId = 'heuristic';
+  private static readonly OVERRIDE_STORAGE_KEY = 'loderunner-guard-brain';
+
+  private static readonly LABELS: Record<GuardBrainId, string> = {
+    heuristic: 'HEURISTIC',
+    astar: 'A*',
+    classic: 'CLASSIC'
+  };
+
+  static create(id: GuardBrainId, context: GuardBrainContext): GuardBrain {
+    switch (id) {
+      case 'heuristic': return new HeuristicBrain(context);
+      case 'classic': return new ClassicBrain(context);
+      default: return new AStarBrain(context);
+    }
+  }
+
+  static isBrainId(value: unknown): value is GuardBrainId {
+    return typeof value === 'string' && (this.BRAIN_IDS as readonly string[]).includes(value);
+  }
+
+  static getLabel(id: GuardBrainId): string {
+    return this.LABELS[id];
+  }
+
+  /**
+   * Brain for guards in the given pack: player override, then the pack's choice
+   */
+  static resolve(scene: Phaser.Scene, pack: LevelPackInfo | null): GuardBrainId {
+    const override = this.getOverride(scene);
+    if (override) {
+      return override;
+    }
+    const packBrain = pack?.guardBrain;
+    return this.isBrainId(packBrain) ? packBrain : this.DEFAULT_BRAIN_ID;
+  }
+
+  /**
+   * Player's brain setting, or null to use each pack's own
+   */
+  static getOverride(scene: Phaser.Scene): GuardBrainId | null {
+    const value = scene.registry.get('guardBrain') ?? localStorage.getItem(this.OVERRIDE_STORAGE_KEY);
+    return this.isBrainId(value) ? value : null;
+  }
+
+  static setOverride(scene: Phaser.Scene, id: GuardBrainId | null): void {
+    scene.registry.set('guardBrain', id);
+    try {
+      if (id) {
+        localStorage.setItem(this.OVERRIDE_STORAGE_KEY, id);
+      } else {
+        localStorage.removeItem(this.OVERRIDE_STORAGE_KEY);
+      }
+    } catch {
+      // Storage unavailable (private mode) - setting still lasts for the session
+    }
+  }
+}
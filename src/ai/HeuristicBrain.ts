@@ -0,0 +1,206 @@
+import { GAME_CONFIG } from '@/config/GameConfig';
+import { GuardState } from '@/types/GameTypes';
+import { GuardLogger } from '@/utils/Logger';
+import { NavNode } from '@/utils/NavigationGraph';
+import { SeededRandom } from '@/utils/SeededRandom';
+import { GuardAgent, GuardBrain, GuardBrainContext, GuardBrainState } from './GuardBrain';
+
+/**
+ * HeuristicBrain - the original pixel-delta chase
+ * Every half second, picks a movement state from the player's offset:
+ * keep running while it makes progress, climb or hang when the player is
+ * on another level, and run toward the player to stumble on ladders.
+ */
+export class HeuristicBrain implements GuardBrain {
+  readonly id = 'heuristic' as const;
+  private rng: SeededRandom;
+  private decisionTimer: number = 0;
+  private decisionInterval: number = 500; // Make decision every 500ms
+  private logger = GuardLogger;
+
+  constructor(context: GuardBrainContext) {
+    this.rng = context.rng;
+  }
+
+  update(guard: GuardAgent, delta: number): void {
+    this.decisionTimer += delta;
+    if (this.decisionTimer >= this.decisionInterval) {
+      this.makeDecision(guard);
+      this.decisionTimer = 0;
+    }
+  }
+
+  getSteeringTarget(): null {
+    return null;
+  }
+
+  getPlannedPath(): NavNode[] {
+    return [];
+  }
+
+  reset(): void {
+    // Decide on the next update
+    this.decisionTimer = this.decisionInterval;
+  }
+
+  getState(): GuardBrainState {
+    return { decisionTimer: this.decisionTimer };
+  }
+
+  restoreState(state: GuardBrainState): void {
+    this.decisionTimer = Number(state.decisionTimer) || 0;
+  }
+
+  private makeDecision(guard: GuardAgent): void {
+    const state = guard.getState();
+    if (state === GuardState.IN_HOLE || state === GuardState.REBORN || state === GuardState.ESCAPING_HOLE) {
+      return; // Don't make decisions in these states
+    }
+    
+    const { x: playerX, y: playerY } = guard.getPlayerPosition();
+    const { x: guardX, y: guardY } = guard.getPosition();
+    
+    const deltaX = playerX - guardX;
+    const deltaY = playerY - guardY;
+    const blocked = {
+      left: guard.isBlocked('left'),
+      right: guard.isBlocked('right')
+    };
+    
+    // Priority 0: If climbing and player is roughly at same level, exit ladder to chase
+    if (state === GuardState.CLIMBING && Math.abs(deltaY) <= 25) {
+      // Player is at similar level - exit ladder to chase horizontally
+      if (Math.abs(deltaX) > 20) {
+        this.logger.debug(`Guard exiting ladder to chase player at same level`);
+        guard.steer(deltaX > 0 ? GuardState.RUNNING_RIGHT : GuardState.RUNNING_LEFT, deltaX > 0 ? 1 : -1);
+        return;
+      }
+    }
+
+    // Priority 1: If already running and making progress, KEEP RUNNING (don't get distracted by ladders)
+    if ((state === GuardState.RUNNING_LEFT || state === GuardState.RUNNING_RIGHT) && 
+        Math.abs(deltaX) > 20) {
+      // Continue current horizontal movement if not blocked
+      if (state === GuardState.RUNNING_LEFT && !blocked.left) {
+        return; // Keep running left
+      }
+      if (state === GuardState.RUNNING_RIGHT && !blocked.right) {
+        return; // Keep running right  
+      }
+    }
+    
+    // Priority 2: Vertical movement when player is on significantly different level
+    if (Math.abs(deltaY) > 45) { // Reduced from 60 to be more aggressive
+      // Player is on a very different level - prioritize vertical movement
+      if (guard.canClimb() && !guard.isLadderExitCoolingDown()) { // Check cooldown
+        this.logger.debug(`Guard climbing toward player: deltaY=${deltaY.toFixed(0)}, deltaX=${deltaX.toFixed(0)}`);
+        guard.steer(GuardState.CLIMBING);
+        return;
+      }
+      
+      if (guard.canUseRope()) {
+        this.logger.debug(`Guard using rope toward player: deltaY=${deltaY.toFixed(0)}, deltaX=${deltaX.toFixed(0)}`);
+        guard.steer(deltaX > 0 ? GuardState.BAR_RIGHT : GuardState.BAR_LEFT, deltaX > 0 ? 1 : -1);
+        return;
+      }
+      
+      // Player is on different level but no ladder/rope available - move to find one
+      this.logger.debug(`Player on different level (deltaY=${deltaY.toFixed(0)}) but guard not on ladder/rope - seeking`);
+      
+      // Actively seek ladders/ropes by moving horizontally
+      // If player is significantly to the left/right, move toward them to find connections
+      if (Math.abs(deltaX) > GAME_CONFIG.tileSize) { // More than one tile away horizontally
+        const seekDirection = deltaX > 0 ? GuardState.RUNNING_RIGHT : GuardState.RUNNING_LEFT;
+        const seekBlocked = deltaX > 0 ? blocked.right : blocked.left;
+        
+        if (!seekBlocked) {
+          this.logger.debug(`Guard seeking ladder - moving ${deltaX > 0 ? 'right' : 'left'} toward player`);
+          guard.steer(seekDirection, deltaX > 0 ? 1 : -1);
+          return;
+        } else {
+          this.logger.debug('Guard blocked while seeking ladder - trying alternate direction');
+        }
+      }
+      
+      // If can't move toward player, try moving in either direction to find ladders
+      if (!blocked.left && this.rng.chance(0.5)) {
+        this.logger.debug('Guard exploring left to find ladders');
+        guard.steer(GuardState.RUNNING_LEFT, -1);
+        return;
+      } else if (!blocked.right) {
+        this.logger.debug('Guard exploring right to find ladders');
+        guard.steer(GuardState.RUNNING_RIGHT, 1);
+        return;
+      }
+    }
+
+    // Priority 3: Horizontal movement towards player 
+    if (Math.abs(deltaX) > 20) {
+      const targetDirection = deltaX > 0 ? GuardState.RUNNING_RIGHT : GuardState.RUNNING_LEFT;
+      const isBlocked = deltaX > 0 ? blocked.right : blocked.left;
+      
+      if (!isBlocked) {
+        // Not blocked, run horizontally
+        guard.steer(targetDirection, deltaX > 0 ? 1 : -1);
+        return;
+      }
+      
+      // Blocked horizontally, now consider vertical movement as backup
+      if (Math.abs(deltaY) > 40) {
+        // Try to climb if on ladder (check cooldown)
+        if (guard.canClimb() && !guard.isLadderExitCoolingDown()) {
+          guard.steer(GuardState.CLIMBING);
+          return;
+        }
+        
+        // Try to use rope if available
+        if (guard.canUseRope()) {
+          guard.steer(deltaX > 0 ? GuardState.BAR_RIGHT : GuardState.BAR_LEFT, deltaX > 0 ? 1 : -1);
+          return;
+        }
+      }
+      
+      // Blocked horizontally - only reverse if we've been blocked for a while
+      // This prevents immediate ping-pong behavior
+      if (state === GuardState.RUNNING_LEFT || state === GuardState.RUNNING_RIGHT) {
+        const currentDirection = state === GuardState.RUNNING_RIGHT ? 1 : -1;
+        const desiredDirection = deltaX > 0 ? 1 : -1;
+        
+        // If we're moving toward player but blocked, keep trying for a bit
+        if (currentDirection === desiredDirection) {
+          return; // Don't reverse immediately
+        }
+      }
+      
+      // Can't move toward player, reverse direction
+      guard.steer(deltaX > 0 ? GuardState.RUNNING_LEFT : GuardState.RUNNING_RIGHT, deltaX > 0 ? -1 : 1);
+      return;
+    }
+    
+    // Priority 4: Player on different vertical level - seek ladders/ropes
+    if (Math.abs(deltaY) > 40) {
+      // If on ladder, climb toward player (check cooldown)
+      if (guard.canClimb() && !guard.isLadderExitCoolingDown()) {
+        guard.steer(GuardState.CLIMBING);
+        return;
+      }
+      
+      // If on rope, use it to move toward player
+      if (guard.canUseRope()) {
+        guard.steer(deltaX > 0 ? GuardState.BAR_RIGHT : GuardState.BAR_LEFT, deltaX > 0 ? 1 : -1);
+        return;
+      }
+      
+      // Not on ladder/rope but player is on different level - move horizontally to find one
+      if (Math.abs(deltaX) < 100) { // Within reasonable horizontal distance
+        // Move toward player's general direction
+        const targetDirection = deltaX > 0 ? GuardState.RUNNING_RIGHT : GuardState.RUNNING_LEFT;
+        guard.steer(targetDirection, deltaX > 0 ? 1 : -1);
+        return;
+      }
+    }
+    
+    // Default: idle
+    guard.steer(GuardState.IDLE);
+  }
+}
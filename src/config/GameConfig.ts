@@ -1,4 +1,8 @@
-import { GameConfig } from '@/types/GameTypes';
+import { GameConfig, GuardRespawnPolicy } from '@/types/GameTypes';
+import { version } from '../../package.json';
+
+// package.json version, recorded in bug reports
+export const BUILD_VERSION: string = version;
 
 export const GAME_CONFIG: GameConfig = {
   width: 896,  // levelWidth tiles * tileSize px
@@ -15,7 +19,13 @@ export const SCENE_KEYS = {
   MENU: 'menu',
   GAME: 'game',
   GAME_OVER: 'gameover',
-  PAUSE: 'pause'
+  PAUSE: 'pause',
+  EDITOR: 'editor',
+  LEVEL_SELECT: 'levelselect',
+  CONTROLS: 'controls',
+  SETTINGS: 'settings',
+  CRASH: 'crash',
+  LOG_CONSOLE: 'logconsole'
 } as const;
 
 export const ASSET_KEYS = {
@@ -40,7 +50,40 @@ export const TILE_TYPES = {
   LADDER: 3,     // (H)
   ROPE: 4,       // (-)
   SOLID: 5,      // Non-diggable (@)
-  EXIT_LADDER: 6 // Hidden exit ladder (S)
+  EXIT_LADDER: 6, // Hidden exit ladder (S)
+  TRAP: 7        // False brick (X) - looks like a brick, entities fall through
+} as const;
+
+// Limits enforced by the level validator and the editor
+export const LEVEL_LIMITS = {
+  MIN_GOLD: 1,
+  MAX_GOLD: 60,
+  MAX_GUARDS: 6
+} as const;
+
+// Gamepad buttons in the browser's standard mapping (Xbox labels)
+export const GAMEPAD_BUTTONS = {
+  A: 0,
+  B: 1,
+  X: 2,
+  Y: 3,
+  LB: 4,
+  RB: 5,
+  LT: 6,
+  RT: 7,
+  BACK: 8,
+  START: 9,
+  UP: 12,
+  DOWN: 13,
+  LEFT: 14,
+  RIGHT: 15
+} as const;
+
+export const GAMEPAD_CONFIG = {
+  STICK_DEADZONE: 0.35,            // Left stick travel ignored around the centre
+  DIG_LEFT: [GAMEPAD_BUTTONS.X, GAMEPAD_BUTTONS.LB, GAMEPAD_BUTTONS.LT],
+  DIG_RIGHT: [GAMEPAD_BUTTONS.B, GAMEPAD_BUTTONS.RB, GAMEPAD_BUTTONS.RT],
+  PAUSE: [GAMEPAD_BUTTONS.START]
 } as const;
 
 // Game mechanics constants - following GPT-5 suggestion to avoid magic numbers
@@ -49,6 +92,11 @@ export const GAME_MECHANICS = {
   HOLE_DURATION: 5000,             // n: Hole duration in milliseconds (t2 = t1 + n)
   GUARD_STUN_DURATION: 2000,       // m: Guard stun/faint time after falling into hole
   GUARD_RESPAWN_DELAY: 3000,       // h: Guard respawn delay after death in milliseconds
+  GUARD_RESPAWN_POLICY: 'top-row' as GuardRespawnPolicy, // 'spawn' returns guards to their start position
+  
+  // Guards carry gold they touch and drop it after a random delay
+  GUARD_GOLD_DROP_MIN: 2000,       // Shortest time a guard holds gold in milliseconds
+  GUARD_GOLD_DROP_MAX: 8000,       // Longest time a guard holds gold in milliseconds
   
   // Legacy constants (keeping for backward compatibility)
   HOLE_FILL_DELAY: 5000,           // 5 seconds for holes to fill (same as HOLE_DURATION)
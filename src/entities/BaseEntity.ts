@@ -146,6 +146,14 @@ export abstract class BaseEntity {
     this.logger.debug(`${this.entityType} moved to (${x}, ${y})`);
   }
 
+  /**
+   * Gameplay clock in milliseconds; GameScene leaves out time spent paused
+   */
+  protected getGameTime(): number {
+    const scene = this.scene as Phaser.Scene & { getGameTime?: () => number };
+    return scene.getGameTime ? scene.getGameTime() : this.scene.time.now;
+  }
+
   /**
    * Get spawn position
    */
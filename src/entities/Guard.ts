@@ -1,26 +1,42 @@
 import { BaseEntity, EntityConfig, EntityType, PhysicsConfig } from './BaseEntity';
 import { LogCategory } from '@/utils/Logger';
-import { GAME_MECHANICS, GAME_CONFIG } from '@/config/GameConfig';
+import { GAME_MECHANICS, GAME_CONFIG, TILE_TYPES } from '@/config/GameConfig';
 import { ClimbValidation } from '@/utils/ClimbValidation';
+import { GuardState } from '@/types/GameTypes';
+import { SeededRandom } from '@/utils/SeededRandom';
+import { NavigationGraph, NavNode } from '@/utils/NavigationGraph';
+import { GuardAgent, GuardBrain, GuardBrainState, getCellCenter } from '@/ai/GuardBrain';
+import { EventBus } from '@/systems/EventBus';
 
-export enum GuardState {
-  IDLE = 'idle',
-  RUNNING_LEFT = 'running_left', 
-  RUNNING_RIGHT = 'running_right',
-  CLIMBING = 'climbing',
-  BAR_LEFT = 'bar_left',
-  BAR_RIGHT = 'bar_right',
-  FALLING = 'falling',
-  IN_HOLE = 'in_hole',
-  STUNNED_IN_HOLE = 'stunned_in_hole', // New state for mandatory stun period
-  ESCAPING_HOLE = 'escaping_hole',
-  REBORN = 'reborn',
-  SHAKING = 'shaking'
+export { GuardState };
+
+// Everything GameScene level saves need to put a guard back mid-level
+export interface GuardSaveState {
+  guardId: string;
+  x: number;
+  y: number;
+  velocityX: number;
+  velocityY: number;
+  state: GuardState;
+  lastDirection: number;
+  currentHole: string | null;
+  fallTime: number;
+  stunEndTime: number;
+  isStunned: boolean;
+  carryingGold: boolean;
+  goldDropTimer: number;
+  goldDropCell: NavNode | null;
+  ladderExitCooldown: number;
+  lastLadderTileX: number;
+  lastEscapeAttempt: number;
+  respawnAt: number | null;  // Game time a guard killed in a hole reappears
+  brain: GuardBrainState;
 }
 
-export class Guard extends BaseEntity {
+export class Guard extends BaseEntity implements GuardAgent {
   protected state: GuardState = GuardState.IDLE;
   private targetPlayer: Phaser.GameObjects.Sprite;
+  private rng: SeededRandom;
   private lastDirection: number = 1; // 1 for right, -1 for left
   private speed: number = 80;
   
@@ -29,9 +45,17 @@ export class Guard extends BaseEntity {
   
   // Guard-specific properties (spawn position now handled by BaseEntity)
   
-  // AI decision timing
-  private decisionTimer: number = 0;
-  private decisionInterval: number = 500; // Make decision every 500ms
+  // AI decision-making (heuristic, A* or classic)
+  private brain: GuardBrain;
+  
+  // Gold carrying - guards pick up gold they touch and drop it later
+  private carryingGold: boolean = false;
+  private goldDropTimer: number = 0;
+  private goldDropCell: NavNode | null = null; // Not picked up again until the guard leaves it
+  private goldDropHandler: ((gridX: number, gridY: number) => boolean) | null = null;
+  
+  // Picks the cell the guard reappears in after dying (see GuardRespawn)
+  private respawnCellResolver: (() => NavNode) | null = null;
   
   // Timeline-based hole mechanics (following new rule system)
   private currentHole: string | null = null;
@@ -39,12 +63,14 @@ export class Guard extends BaseEntity {
   private stunEndTime: number = 0; // tg1 + m: When guard can start climbing
   private escapeTimer: Phaser.Time.TimerEvent | null = null; // Timer for escape completion
   private isStunned: boolean = false; // Whether guard is in mandatory stun period
+  private respawnAt: number | null = null; // Game time a killed guard reappears
   
   // Legacy timing (for backward compatibility during transition)
   private holeTimer: number = 0;
   
   // Pathfinding
-  private pathfindingCooldown: number = 0;
+  private navigationGraph: NavigationGraph | null = null;
+  private eventBus: EventBus | null = null;
   
   // Climbing state
   private onLadder: boolean = false;
@@ -56,7 +82,7 @@ export class Guard extends BaseEntity {
   private climbValidation: ClimbValidation | null = null;
   private lastEscapeAttempt: number = 0; // Timestamp of last escape attempt to prevent spam
   
-  constructor(scene: Phaser.Scene, x: number, y: number, targetPlayer: Phaser.GameObjects.Sprite) {
+  constructor(scene: Phaser.Scene, x: number, y: number, targetPlayer: Phaser.GameObjects.Sprite, guardIndex: number, rng: SeededRandom, brain: GuardBrain) {
     const config: EntityConfig = {
       scene,
       x,
@@ -69,10 +95,12 @@ export class Guard extends BaseEntity {
     
     super(config, EntityType.GUARD, LogCategory.GUARD_AI);
     
-    // Generate unique guard ID for timeline tracking
-    this.guardId = `guard_${x}_${y}_${Date.now()}_${Math.random().toString(36).substr(2, 5)}`;
+    // Stable guard ID for timeline tracking (index in the level's guard list)
+    this.guardId = `guard_${guardIndex}`;
     
     this.targetPlayer = targetPlayer;
+    this.rng = rng;
+    this.brain = brain;
     this.setState(GuardState.IDLE);
   }
   
@@ -93,9 +121,6 @@ export class Guard extends BaseEntity {
   }
   
   public update(time: number, delta: number): void {
-    this.decisionTimer += delta;
-    this.pathfindingCooldown -= delta;
-    
     // Update ladder exit cooldown and reset tracking when expired
     const previousCooldown = this.ladderExitCooldown;
     this.ladderExitCooldown = Math.max(0, this.ladderExitCooldown - delta);
@@ -154,11 +179,11 @@ export class Guard extends BaseEntity {
       this.holeTimer = 0;
     }
     
-    // Make AI decisions periodically
-    if (this.decisionTimer >= this.decisionInterval) {
-      this.makeAIDecision();
-      this.decisionTimer = 0;
-    }
+    // Drop carried gold once the delay has run out
+    this.updateCarriedGold(delta);
+    
+    // Let the brain choose how to move this frame
+    this.brain.update(this, delta);
     
     // Execute current behavior
     this.executeBehavior();
@@ -171,169 +196,91 @@ export class Guard extends BaseEntity {
     this.onRope = false;
   }
   
-  private makeAIDecision(): void {
-    if (this.state === GuardState.IN_HOLE || this.state === GuardState.REBORN || this.state === GuardState.ESCAPING_HOLE) {
-      return; // Don't make decisions in these states
-    }
-    
-    const playerX = this.targetPlayer.x;
-    const playerY = this.targetPlayer.y;
-    const guardX = this.sprite.x;
-    const guardY = this.sprite.y;
-    
-    const deltaX = playerX - guardX;
-    const deltaY = playerY - guardY;
-    const body = this.sprite.body as Phaser.Physics.Arcade.Body;
-    
-    // Priority 0: If climbing and player is roughly at same level, exit ladder to chase
-    if (this.state === GuardState.CLIMBING && Math.abs(deltaY) <= 25) {
-      // Player is at similar level - exit ladder to chase horizontally
-      if (Math.abs(deltaX) > 20) {
-        this.logger.debug(`Guard exiting ladder to chase player at same level`);
-        this.setState(deltaX > 0 ? GuardState.RUNNING_RIGHT : GuardState.RUNNING_LEFT);
-        this.lastDirection = deltaX > 0 ? 1 : -1;
-        return;
-      }
+  /**
+   * Set a movement state, optionally turning to face a direction
+   */
+  public steer(state: GuardState, direction?: 1 | -1): void {
+    this.setState(state);
+    if (direction) {
+      this.lastDirection = direction;
     }
+  }
 
-    // Priority 1: If already running and making progress, KEEP RUNNING (don't get distracted by ladders)
-    if ((this.state === GuardState.RUNNING_LEFT || this.state === GuardState.RUNNING_RIGHT) && 
-        Math.abs(deltaX) > 20) {
-      // Continue current horizontal movement if not blocked
-      if (this.state === GuardState.RUNNING_LEFT && !body.blocked.left) {
-        return; // Keep running left
-      }
-      if (this.state === GuardState.RUNNING_RIGHT && !body.blocked.right) {
-        return; // Keep running right  
-      }
-    }
-    
-    // Priority 2: Vertical movement when player is on significantly different level
-    if (Math.abs(deltaY) > 45) { // Reduced from 60 to be more aggressive
-      // Player is on a very different level - prioritize vertical movement
-      if (this.canClimb() && this.ladderExitCooldown <= 0) { // Check cooldown
-        this.logger.debug(`Guard climbing toward player: deltaY=${deltaY.toFixed(0)}, deltaX=${deltaX.toFixed(0)}`);
-        this.setState(GuardState.CLIMBING);
-        return;
-      }
-      
-      if (this.canUseRope()) {
-        this.logger.debug(`Guard using rope toward player: deltaY=${deltaY.toFixed(0)}, deltaX=${deltaX.toFixed(0)}`);
-        this.setState(deltaX > 0 ? GuardState.BAR_RIGHT : GuardState.BAR_LEFT);
-        this.lastDirection = deltaX > 0 ? 1 : -1;
-        return;
-      }
-      
-      // Player is on different level but no ladder/rope available - move to find one
-      this.logger.debug(`Player on different level (deltaY=${deltaY.toFixed(0)}) but guard not on ladder/rope - seeking`);
-      
-      // Actively seek ladders/ropes by moving horizontally
-      // If player is significantly to the left/right, move toward them to find connections
-      if (Math.abs(deltaX) > GAME_CONFIG.tileSize) { // More than one tile away horizontally
-        const seekDirection = deltaX > 0 ? GuardState.RUNNING_RIGHT : GuardState.RUNNING_LEFT;
-        const seekBlocked = deltaX > 0 ? body.blocked.right : body.blocked.left;
-        
-        if (!seekBlocked) {
-          this.logger.debug(`Guard seeking ladder - moving ${deltaX > 0 ? 'right' : 'left'} toward player`);
-          this.setState(seekDirection);
-          this.lastDirection = deltaX > 0 ? 1 : -1;
-          return;
-        } else {
-          this.logger.debug('Guard blocked while seeking ladder - trying alternate direction');
-        }
-      }
-      
-      // If can't move toward player, try moving in either direction to find ladders
-      if (!body.blocked.left && Math.random() > 0.5) {
-        this.logger.debug('Guard exploring left to find ladders');
-        this.setState(GuardState.RUNNING_LEFT);
-        this.lastDirection = -1;
-        return;
-      } else if (!body.blocked.right) {
-        this.logger.debug('Guard exploring right to find ladders');
-        this.setState(GuardState.RUNNING_RIGHT);
-        this.lastDirection = 1;
-        return;
-      }
+  /**
+   * Pick the state that moves the guard one cell toward the next waypoint
+   * (IDLE when there is none)
+   */
+  public steerToCell(next: NavNode | null): void {
+    if (!next || !this.navigationGraph) {
+      this.setState(GuardState.IDLE);
+      return;
     }
 
-    // Priority 3: Horizontal movement towards player 
-    if (Math.abs(deltaX) > 20) {
-      const targetDirection = deltaX > 0 ? GuardState.RUNNING_RIGHT : GuardState.RUNNING_LEFT;
-      const isBlocked = deltaX > 0 ? body.blocked.right : body.blocked.left;
-      
-      if (!isBlocked) {
-        // Not blocked, run horizontally
-        this.setState(targetDirection);
-        this.lastDirection = deltaX > 0 ? 1 : -1;
+    const current = this.getGridPosition();
+    const graph = this.navigationGraph;
+    const here = graph.getTileType(current.x, current.y);
+
+    if (next.x !== current.x) {
+      // Finish lining up with the row before stepping off a ladder
+      if (this.state === GuardState.CLIMBING && Math.abs(this.sprite.y - getCellCenter(current).y) > 4) {
         return;
       }
-      
-      // Blocked horizontally, now consider vertical movement as backup
-      if (Math.abs(deltaY) > 40) {
-        // Try to climb if on ladder (check cooldown)
-        if (this.canClimb() && this.ladderExitCooldown <= 0) {
-          this.setState(GuardState.CLIMBING);
-          return;
-        }
-        
-        // Try to use rope if available
-        if (this.canUseRope()) {
-          this.setState(deltaX > 0 ? GuardState.BAR_RIGHT : GuardState.BAR_LEFT);
-          this.lastDirection = deltaX > 0 ? 1 : -1;
-          return;
-        }
-      }
-      
-      // Blocked horizontally - only reverse if we've been blocked for a while
-      // This prevents immediate ping-pong behavior
-      if (this.state === GuardState.RUNNING_LEFT || this.state === GuardState.RUNNING_RIGHT) {
-        const currentDirection = this.state === GuardState.RUNNING_RIGHT ? 1 : -1;
-        const desiredDirection = deltaX > 0 ? 1 : -1;
-        
-        // If we're moving toward player but blocked, keep trying for a bit
-        if (currentDirection === desiredDirection) {
-          return; // Don't reverse immediately
-        }
+      this.lastDirection = next.x > current.x ? 1 : -1;
+      if (here === TILE_TYPES.ROPE) {
+        this.setState(this.lastDirection > 0 ? GuardState.BAR_RIGHT : GuardState.BAR_LEFT);
+      } else {
+        this.setState(this.lastDirection > 0 ? GuardState.RUNNING_RIGHT : GuardState.RUNNING_LEFT);
       }
-      
-      // Can't move toward player, reverse direction
-      this.setState(deltaX > 0 ? GuardState.RUNNING_LEFT : GuardState.RUNNING_RIGHT);
-      this.lastDirection = deltaX > 0 ? -1 : 1;
-      return;
+    } else if (next.y < current.y || here === TILE_TYPES.LADDER || graph.getTileType(next.x, next.y) === TILE_TYPES.LADDER) {
+      this.setState(GuardState.CLIMBING);
+    } else {
+      // Drop off a rope or a ledge
+      this.setState(GuardState.FALLING);
     }
-    
-    // Priority 4: Player on different vertical level - seek ladders/ropes
-    if (Math.abs(deltaY) > 40) {
-      // If on ladder, climb toward player (check cooldown)
-      if (this.canClimb() && this.ladderExitCooldown <= 0) {
-        this.setState(GuardState.CLIMBING);
-        return;
-      }
-      
-      // If on rope, use it to move toward player
-      if (this.canUseRope()) {
-        this.setState(deltaX > 0 ? GuardState.BAR_RIGHT : GuardState.BAR_LEFT);
-        this.lastDirection = deltaX > 0 ? 1 : -1;
-        return;
-      }
-      
-      // Not on ladder/rope but player is on different level - move horizontally to find one
-      if (Math.abs(deltaX) < 100) { // Within reasonable horizontal distance
-        // Move toward player's general direction
-        const targetDirection = deltaX > 0 ? GuardState.RUNNING_RIGHT : GuardState.RUNNING_LEFT;
-        this.setState(targetDirection);
-        this.lastDirection = deltaX > 0 ? 1 : -1;
-        return;
-      }
+  }
+
+  // Where executeBehavior steers: the brain's waypoint, else the player
+  public getSteeringTarget(): { x: number, y: number } {
+    return this.brain.getSteeringTarget() ?? this.getPlayerPosition();
+  }
+
+  public getPosition(): { x: number, y: number } {
+    return { x: this.sprite.x, y: this.sprite.y };
+  }
+
+  public isBlocked(side: 'left' | 'right' | 'down'): boolean {
+    const body = this.sprite.body as Phaser.Physics.Arcade.Body;
+    if (side === 'down') {
+      return body.blocked.down || body.touching.down;
     }
-    
-    // Default: idle
-    this.setState(GuardState.IDLE);
+    return body.blocked[side];
   }
-  
+
+  public getGridPosition(): NavNode {
+    return {
+      x: Math.floor(this.sprite.x / GAME_CONFIG.tileSize),
+      y: Math.floor(this.sprite.y / GAME_CONFIG.tileSize)
+    };
+  }
+
+  public getPlayerPosition(): { x: number, y: number } {
+    return { x: this.targetPlayer.x, y: this.targetPlayer.y };
+  }
+
+  public getPlayerGridPosition(): NavNode {
+    return {
+      x: Math.floor(this.targetPlayer.x / GAME_CONFIG.tileSize),
+      y: Math.floor(this.targetPlayer.y / GAME_CONFIG.tileSize)
+    };
+  }
+
+  public isLadderExitCoolingDown(): boolean {
+    return this.ladderExitCooldown > 0;
+  }
+
   private executeBehavior(): void {
     const body = this.sprite.body as Phaser.Physics.Arcade.Body;
+    const target = this.getSteeringTarget();
     
     switch (this.state) {
       case GuardState.IDLE:
@@ -344,9 +291,7 @@ export class Guard extends BaseEntity {
         // Check if blocked by wall, if so, try to find alternative path
         if (body.blocked.left) {
           // Only climb if player is significantly above/below us (and cooldown expired)
-          const playerY = this.targetPlayer.y;
-          const guardY = this.sprite.y;
-          const deltaY = playerY - guardY;
+          const deltaY = target.y - this.sprite.y;
           
           if (this.onLadder && Math.abs(deltaY) > 15 && this.ladderExitCooldown <= 0) {
             this.setState(GuardState.CLIMBING);
@@ -364,9 +309,7 @@ export class Guard extends BaseEntity {
         // Check if blocked by wall, if so, try to find alternative path
         if (body.blocked.right) {
           // Only climb if player is significantly above/below us (and cooldown expired)
-          const playerY = this.targetPlayer.y;
-          const guardY = this.sprite.y;
-          const deltaY = playerY - guardY;
+          const deltaY = target.y - this.sprite.y;
           
           if (this.onLadder && Math.abs(deltaY) > 15 && this.ladderExitCooldown <= 0) {
             this.setState(GuardState.CLIMBING);
@@ -380,10 +323,9 @@ export class Guard extends BaseEntity {
         break;
         
       case GuardState.CLIMBING:
-        // Set climbing velocity based on player position
-        const playerY = this.targetPlayer.y;
+        // Set climbing velocity based on target position
         const guardY = this.sprite.y;
-        const deltaY = playerY - guardY;
+        const deltaY = target.y - guardY;
         const guardX = this.sprite.x;
         
         body.setVelocityX(0); // No horizontal movement while climbing
@@ -408,7 +350,7 @@ export class Guard extends BaseEntity {
             body.setGravityY(600); // Restore gravity
             body.setVelocityY(0);
             
-            const deltaX = this.targetPlayer.x - guardX;
+            const deltaX = target.x - guardX;
             
             // Determine exit direction
             let exitDirection = 0;
@@ -416,7 +358,7 @@ export class Guard extends BaseEntity {
               exitDirection = deltaX > 0 ? 1 : -1;
             } else {
               // If player is directly below, exit in last direction or random
-              exitDirection = this.lastDirection || (Math.random() > 0.5 ? 1 : -1);
+              exitDirection = this.lastDirection || (this.rng.chance(0.5) ? 1 : -1);
             }
             
             // Move guard completely off the ladder tile to prevent re-climbing
@@ -452,7 +394,7 @@ export class Guard extends BaseEntity {
             this.onLadder = false;
             this.ladderExitCooldown = 500;
             
-            const deltaX = this.targetPlayer.x - guardX;
+            const deltaX = target.x - guardX;
             if (Math.abs(deltaX) > 15) {
               if (deltaX > 0) {
                 this.setState(GuardState.RUNNING_RIGHT);
@@ -492,7 +434,7 @@ export class Guard extends BaseEntity {
             body.setGravityY(600); // Restore gravity for normal movement
             
             // Decide horizontal direction based on player position
-            const deltaX = this.targetPlayer.x - guardX;
+            const deltaX = target.x - guardX;
             if (Math.abs(deltaX) > 20) {
               if (deltaX > 0) {
                 this.setState(GuardState.RUNNING_RIGHT);
@@ -524,10 +466,10 @@ export class Guard extends BaseEntity {
           body.setVelocityX(-this.speed);
           body.setVelocityY(0); // Stay at rope level
           // Check if should stop rope movement
-          const deltaX = this.targetPlayer.x - this.sprite.x;
+          const deltaX = target.x - this.sprite.x;
           if (Math.abs(deltaX) < 20) {
             // Close to player horizontally, try vertical movement or stop
-            const deltaY = this.targetPlayer.y - this.sprite.y;
+            const deltaY = target.y - this.sprite.y;
             if (Math.abs(deltaY) > 40) {
               // Player on different level, drop down
               this.setState(GuardState.FALLING);
@@ -546,10 +488,10 @@ export class Guard extends BaseEntity {
           body.setVelocityX(this.speed);
           body.setVelocityY(0); // Stay at rope level
           // Check if should stop rope movement
-          const deltaX = this.targetPlayer.x - this.sprite.x;
+          const deltaX = target.x - this.sprite.x;
           if (Math.abs(deltaX) < 20) {
             // Close to player horizontally, try vertical movement or stop
-            const deltaY = this.targetPlayer.y - this.sprite.y;
+            const deltaY = target.y - this.sprite.y;
             if (Math.abs(deltaY) > 40) {
               // Player on different level, drop down
               this.setState(GuardState.FALLING);
@@ -906,6 +848,11 @@ export class Guard extends BaseEntity {
     return this.guardId;
   }
 
+  // 1 for right, -1 for left
+  public getLastDirection(): number {
+    return this.lastDirection;
+  }
+
   // Check if guard can attempt to climb based on timeline rules
   public canAttemptClimb(currentTime: number): boolean {
     if (this.state !== GuardState.IN_HOLE) {
@@ -939,17 +886,16 @@ export class Guard extends BaseEntity {
     
     // DON'T clear timeline data yet - keep it for shouldDieFromHole() checks
     // This ensures the hole filling logic can still determine the guard should die
-    // All timeline data will be cleared in respawnAtStart()
+    // All timeline data will be cleared in respawnAfterDeath()
     this.isStunned = false; // Can clear this - guard is dead
     this.holeTimer = 0; // Can clear legacy timer
 
     // Trigger respawn with configured delay (h seconds)
-    this.scene.time.delayedCall(GAME_MECHANICS.GUARD_RESPAWN_DELAY, () => {
-      this.respawnAtStart();
-    });
+    this.scheduleRespawn(this.getGameTime() + GAME_MECHANICS.GUARD_RESPAWN_DELAY);
 
     // Set guard to temporary death state (reuse REBORN state for now)
     this.setState(GuardState.REBORN);
+    this.eventBus?.emit('guardKilled', { guardId: this.guardId, holeKey: this.currentHole });
     
     // Hide guard during respawn delay
     this.sprite.setVisible(false);
@@ -968,6 +914,25 @@ export class Guard extends BaseEntity {
     this.climbValidation = climbValidation;
   }
   
+  // Set the event bus trapped and killed guards are announced on
+  public setEventBus(eventBus: EventBus): void {
+    this.eventBus = eventBus;
+  }
+  
+  // Set the navigation graph guards plan their routes on
+  public setNavigationGraph(navigationGraph: NavigationGraph): void {
+    this.navigationGraph = navigationGraph;
+    this.brain.reset();
+  }
+  
+  public getNavigationGraph(): NavigationGraph | null {
+    return this.navigationGraph;
+  }
+  
+  public getBrain(): GuardBrain {
+    return this.brain;
+  }
+  
   // Check if guard can climb (on ladder)
   public canClimb(): boolean {
     return this.onLadder;
@@ -978,6 +943,85 @@ export class Guard extends BaseEntity {
     return this.onRope;
   }
 
+  public setRespawnCellResolver(resolver: () => NavNode): void {
+    this.respawnCellResolver = resolver;
+  }
+  
+  // Set how dropped gold is placed back in the level
+  public setGoldDropHandler(handler: (gridX: number, gridY: number) => boolean): void {
+    this.goldDropHandler = handler;
+  }
+  
+  public isCarryingGold(): boolean {
+    return this.carryingGold;
+  }
+  
+  /**
+   * Pick up gold once the guard reaches its cell
+   * @returns false when the guard cannot take it (not in the cell yet, already carrying, trapped or respawning)
+   */
+  public pickUpGold(gridX: number, gridY: number): boolean {
+    const cell = this.getGridPosition();
+    if (cell.x !== gridX || cell.y !== gridY) {
+      return false;
+    }
+    if (this.goldDropCell?.x === gridX && this.goldDropCell.y === gridY) {
+      return false; // Just dropped here
+    }
+    
+    if (this.carryingGold ||
+        this.state === GuardState.STUNNED_IN_HOLE ||
+        this.state === GuardState.IN_HOLE ||
+        this.state === GuardState.ESCAPING_HOLE ||
+        this.state === GuardState.REBORN) {
+      return false;
+    }
+    
+    this.carryingGold = true;
+    const dropRange = GAME_MECHANICS.GUARD_GOLD_DROP_MAX - GAME_MECHANICS.GUARD_GOLD_DROP_MIN;
+    this.goldDropTimer = GAME_MECHANICS.GUARD_GOLD_DROP_MIN + this.rng.nextInt(dropRange);
+    this.logger.debug(`Guard ${this.guardId} picked up gold, dropping in ${this.goldDropTimer}ms`);
+    return true;
+  }
+  
+  // Drop carried gold when the delay has run out and the guard stands on an empty tile
+  private updateCarriedGold(delta: number): void {
+    if (this.goldDropCell) {
+      const cell = this.getGridPosition();
+      if (cell.x !== this.goldDropCell.x || cell.y !== this.goldDropCell.y) {
+        this.goldDropCell = null;
+      }
+    }
+    
+    if (!this.carryingGold) {
+      return;
+    }
+    
+    this.goldDropTimer -= delta;
+    if (this.goldDropTimer > 0) {
+      return;
+    }
+    
+    const body = this.sprite.body as Phaser.Physics.Arcade.Body;
+    const walking = this.state === GuardState.IDLE ||
+                    this.state === GuardState.RUNNING_LEFT ||
+                    this.state === GuardState.RUNNING_RIGHT;
+    const cell = this.getGridPosition();
+    if (walking && body.blocked.down && this.navigationGraph?.getTileType(cell.x, cell.y) === TILE_TYPES.EMPTY) {
+      this.dropGold(cell.x, cell.y);
+    }
+  }
+  
+  // Hand the gold back to the level; the guard keeps it if the tile cannot take it
+  private dropGold(gridX: number, gridY: number): void {
+    if (this.goldDropHandler?.(gridX, gridY)) {
+      this.carryingGold = false;
+      this.goldDropTimer = 0;
+      this.goldDropCell = { x: gridX, y: gridY };
+      this.logger.debug(`Guard ${this.guardId} dropped gold at (${gridX}, ${gridY})`);
+    }
+  }
+
   // Snap guard to center X position of the ladder tile for proper climbing
   private snapToLadderCenter(): void {
     // Calculate which tile the guard is currently on
@@ -1007,8 +1051,15 @@ export class Guard extends BaseEntity {
     this.holeTimer = 0; // Keep legacy timer for compatibility
     
     
+    // Carried gold is left on the tile above the hole
+    if (this.carryingGold) {
+      const [holeX, holeY] = holeKey.split(',').map(Number);
+      this.dropGold(holeX, holeY - 1);
+    }
+    
     // Start in stunned state (Rule 6: fainting period)
     this.setState(GuardState.STUNNED_IN_HOLE);
+    this.eventBus?.emit('guardTrapped', { guardId: this.guardId, holeKey });
     
     const body = this.sprite.body as Phaser.Physics.Arcade.Body;
     body.setVelocity(0, 0);
@@ -1017,7 +1068,7 @@ export class Guard extends BaseEntity {
   
   // Legacy fallIntoHole method for backward compatibility
   public fallIntoHoleLegacy(holeKey: string): void {
-    this.fallIntoHole(holeKey, Date.now());
+    this.fallIntoHole(holeKey, this.getGameTime());
   }
   
   // Legacy escape method - functionality moved to timeline-based system
@@ -1066,8 +1117,8 @@ export class Guard extends BaseEntity {
     this.attemptPlatformAssistedEscape();
   }
   
-  // Predict if guard will die based on timeline rules (for escape planning)
-  private checkTimelineDeathPrediction(currentTime: number): { willDie: boolean; timeRemaining: number } {
+  // Predict if guard will die based on timeline rules (for escape planning and the debug overlay)
+  public checkTimelineDeathPrediction(currentTime: number): { willDie: boolean; timeRemaining: number } {
     if (!this.currentHole || this.fallTime === 0) {
       return { willDie: false, timeRemaining: Infinity };
     }
@@ -1221,7 +1272,7 @@ export class Guard extends BaseEntity {
     }
     
     // Call new escape method which may change state to ESCAPING_HOLE
-    this.attemptHoleEscapeInternal(this.scene.time.now);
+    this.attemptHoleEscapeInternal(this.getGameTime());
     
     // Check if escape was initiated (state may have changed to ESCAPING_HOLE)
     // Use type assertion since TypeScript doesn't track side effects
@@ -1247,11 +1298,23 @@ export class Guard extends BaseEntity {
     // Return to normal state
     this.setState(GuardState.IDLE);
     
+    // The empty hole no longer bridges the gap (Rule 8)
+    this.navigationGraph?.invalidate();
   }
   
-  // Respawn guard at starting position
-  private respawnAtStart(): void {
-    this.logger.debug(`Guard killed in hole, respawning at spawn position (${this.spawnPosition.x}, ${this.spawnPosition.y})`);
+  // The scene clock runs at the game speed, so game time left is also the delay
+  private scheduleRespawn(respawnAt: number): void {
+    this.respawnAt = respawnAt;
+    this.scene.time.delayedCall(Math.max(0, respawnAt - this.getGameTime()), () => {
+      this.respawnAfterDeath();
+    });
+  }
+  
+  // Respawn guard where the respawn policy puts it (start position or the top row)
+  private respawnAfterDeath(): void {
+    this.respawnAt = null;
+    const position = this.respawnCellResolver ? getCellCenter(this.respawnCellResolver()) : this.spawnPosition;
+    this.logger.debug(`Guard killed in hole, respawning at (${position.x}, ${position.y})`);
     
     // Reset physics FIRST - this was the missing piece!
     const body = this.sprite.body as Phaser.Physics.Arcade.Body;
@@ -1259,8 +1322,8 @@ export class Guard extends BaseEntity {
     body.setGravityY(600);
     body.setVelocity(0, 0);
     
-    // Move guard back to spawn position
-    this.sprite.setPosition(this.spawnPosition.x, this.spawnPosition.y);
+    // Move guard to its respawn position
+    this.sprite.setPosition(position.x, position.y);
     this.sprite.setVisible(true); // Make guard visible again
     
     // NOW clear ALL timeline data - guard has actually respawned
@@ -1271,6 +1334,8 @@ export class Guard extends BaseEntity {
     // Reset timeline and hole state completely
     this.holeTimer = 0;
     this.isStunned = false;
+    this.brain.reset();
+    this.navigationGraph?.invalidate();
     
     // Set reborn state with visual effect
     this.setState(GuardState.REBORN);
@@ -1378,12 +1443,96 @@ export class Guard extends BaseEntity {
   
   
   
+  /**
+   * Capture the guard for a level save (see GameScene.captureLevelState)
+   */
+  public getSaveState(): GuardSaveState {
+    const body = this.sprite.body as Phaser.Physics.Arcade.Body;
+    return {
+      guardId: this.guardId,
+      x: this.sprite.x,
+      y: this.sprite.y,
+      velocityX: body.velocity.x,
+      velocityY: body.velocity.y,
+      state: this.state,
+      lastDirection: this.lastDirection,
+      currentHole: this.currentHole,
+      fallTime: this.fallTime,
+      stunEndTime: this.stunEndTime,
+      isStunned: this.isStunned,
+      carryingGold: this.carryingGold,
+      goldDropTimer: this.goldDropTimer,
+      goldDropCell: this.goldDropCell ? { ...this.goldDropCell } : null,
+      ladderExitCooldown: this.ladderExitCooldown,
+      lastLadderTileX: this.lastLadderTileX,
+      lastEscapeAttempt: this.lastEscapeAttempt,
+      respawnAt: this.respawnAt,
+      brain: this.brain.getState()
+    };
+  }
+  
+  /**
+   * Put the guard back the way getSaveState found it, on a game clock that
+   * has been set to the save's game time. Timers can't be saved, so a guard
+   * caught mid-climb is put back in its hole to climb again, and one fading
+   * in after a respawn starts out fully back.
+   */
+  public restoreSaveState(saved: GuardSaveState): void {
+    const body = this.sprite.body as Phaser.Physics.Arcade.Body;
+    
+    this.lastDirection = saved.lastDirection;
+    this.currentHole = saved.currentHole;
+    this.fallTime = saved.fallTime;
+    this.stunEndTime = saved.stunEndTime;
+    this.isStunned = saved.isStunned;
+    this.carryingGold = saved.carryingGold;
+    this.goldDropTimer = saved.goldDropTimer;
+    this.goldDropCell = saved.goldDropCell ? { ...saved.goldDropCell } : null;
+    this.ladderExitCooldown = saved.ladderExitCooldown;
+    this.lastLadderTileX = saved.lastLadderTileX;
+    this.lastEscapeAttempt = saved.lastEscapeAttempt;
+    this.brain.restoreState(saved.brain);
+    this.sprite.setPosition(saved.x, saved.y);
+    this.sprite.setAlpha(1.0);
+    
+    // Killed in a hole and waiting to reappear
+    if (saved.respawnAt !== null) {
+      this.setState(GuardState.REBORN);
+      this.sprite.setVisible(false);
+      body.setVelocity(0, 0);
+      body.setEnable(false);
+      this.scheduleRespawn(saved.respawnAt);
+      return;
+    }
+    
+    let state = saved.state;
+    if (state === GuardState.ESCAPING_HOLE && this.currentHole) {
+      const [holeX, holeY] = this.currentHole.split(',').map(Number);
+      const center = getCellCenter({ x: holeX, y: holeY });
+      this.sprite.setPosition(center.x, center.y);
+      this.lastEscapeAttempt = this.getGameTime() - 1000; // Climb again straight away
+      state = GuardState.IN_HOLE;
+    } else if (state === GuardState.REBORN) {
+      state = GuardState.IDLE;
+    }
+    
+    this.setState(state);
+    if (state === GuardState.IN_HOLE || state === GuardState.STUNNED_IN_HOLE) {
+      body.setVelocity(0, 0);
+      body.setGravityY(0); // No gravity while in hole
+    } else {
+      body.setVelocity(saved.velocityX, saved.velocityY);
+      body.setGravityY(state === GuardState.CLIMBING ? 0 : 600);
+    }
+  }
+  
   public reset(): void {
     // Reset all guard state to initial values
     this.setState(GuardState.IDLE);
     this.lastDirection = 1;
-    this.decisionTimer = 0;
-    this.pathfindingCooldown = 0;
+    this.carryingGold = false;
+    this.goldDropTimer = 0;
+    this.goldDropCell = null;
     this.holeTimer = 0;
     this.currentHole = null;
     this.onLadder = false;
@@ -1398,7 +1547,7 @@ export class Guard extends BaseEntity {
     this.sprite.setAlpha(1.0);
     
     // Force immediate AI decision on next update
-    this.decisionTimer = this.decisionInterval; // This will trigger AI decision on next update
+    this.brain.reset();
   }
 
   public destroy(): void {
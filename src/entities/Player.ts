@@ -6,18 +6,24 @@
 import { BaseEntity, EntityConfig, EntityType, PhysicsConfig } from './BaseEntity';
 import { PlayerState } from '@/types/GameTypes';
 import { InputManager } from '@/managers/InputManager';
-import { SoundManager } from '@/managers/SoundManager';
 import { LogCategory } from '@/utils/Logger';
 import { GAME_CONFIG } from '@/config/GameConfig';
 import { GAME_MECHANICS } from '@/config/GameConfig';
 
+// Where the player was in a level save; the movement state follows from input and physics
+export interface PlayerSaveState {
+  x: number;
+  y: number;
+  velocityX: number;
+  velocityY: number;
+}
+
 export class Player extends BaseEntity {
   protected state: PlayerState = PlayerState.IDLE;
   
   // Player-specific properties
   private speed: number = 200;
   private inputManager: InputManager;
-  private soundManager: SoundManager;
   
   // Climbing state
   private onLadder: boolean = false;
@@ -33,7 +39,7 @@ export class Player extends BaseEntity {
   // Detection results for debugging
   private detectionResults: string[] = [];
 
-  constructor(config: EntityConfig, inputManager: InputManager, soundManager: SoundManager) {
+  constructor(config: EntityConfig, inputManager: InputManager) {
     const playerConfig: EntityConfig = {
       ...config,
       texture: 'runner',
@@ -45,7 +51,6 @@ export class Player extends BaseEntity {
     super(playerConfig, EntityType.PLAYER, LogCategory.PLAYER_MOVEMENT);
     
     this.inputManager = inputManager;
-    this.soundManager = soundManager;
     this.setState(PlayerState.IDLE);
   }
 
@@ -319,7 +324,6 @@ export class Player extends BaseEntity {
   public digLeft(): void {
     if (this.canDig()) {
       this.setState(PlayerState.DIGGING_LEFT);
-      this.soundManager.playSFX('dig');
       
       // Return to idle after digging animation
       this.scene.time.delayedCall(GAME_MECHANICS.DELAYS.DIG_COMPLETE, () => {
@@ -335,7 +339,6 @@ export class Player extends BaseEntity {
   public digRight(): void {
     if (this.canDig()) {
       this.setState(PlayerState.DIGGING_RIGHT);
-      this.soundManager.playSFX('dig');
       
       // Return to idle after digging animation
       this.scene.time.delayedCall(GAME_MECHANICS.DELAYS.DIG_COMPLETE, () => {
@@ -356,7 +359,7 @@ export class Player extends BaseEntity {
   // Invincibility system
   public activateInvincibility(duration: number): void {
     this.isInvincible = true;
-    this.invincibilityEndTime = this.scene.time.now + duration;
+    this.invincibilityEndTime = this.getGameTime() + duration;
     this.sprite.setAlpha(0.7);
     
     this.logger.debug(`Player invincibility activated for ${duration}ms`);
@@ -366,18 +369,6 @@ export class Player extends BaseEntity {
     return this.isInvincible;
   }
 
-  // Gold collection (simplified - actual logic will remain in GameScene)
-  public collectGold(): void {
-    this.soundManager.playSFX('getGold');
-    this.logger.debug('Player collected gold');
-  }
-
-  // Player death handling
-  public die(): void {
-    this.soundManager.playSFX('dead');
-    this.logger.debug('Player died');
-  }
-
   // Debug methods
   public setDetectionResults(results: string[]): void {
     this.detectionResults = results;
@@ -394,6 +385,23 @@ export class Player extends BaseEntity {
     };
   }
 
+  // Level saves
+  public getSaveState(): PlayerSaveState {
+    const body = this.sprite.body as Phaser.Physics.Arcade.Body;
+    return {
+      x: this.sprite.x,
+      y: this.sprite.y,
+      velocityX: body.velocity.x,
+      velocityY: body.velocity.y
+    };
+  }
+
+  public restoreSaveState(saved: PlayerSaveState): void {
+    this.setPosition(saved.x, saved.y);
+    const body = this.sprite.body as Phaser.Physics.Arcade.Body;
+    body.setVelocity(saved.velocityX, saved.velocityY);
+  }
+
   public reset(): void {
     // Reset player state
     this.setState(PlayerState.IDLE);
@@ -7,6 +7,13 @@ import { PreloadScene } from '@/scenes/PreloadScene';
 import { MenuScene } from '@/scenes/MenuScene';
 import { GameScene } from '@/scenes/GameScene';
 import { GameOverScene } from '@/scenes/GameOverScene';
+import { EditorScene } from '@/scenes/EditorScene';
+import { PauseScene } from '@/scenes/PauseScene';
+import { LevelSelectScene } from '@/scenes/LevelSelectScene';
+import { ControlsScene } from '@/scenes/ControlsScene';
+import { SettingsScene } from '@/scenes/SettingsScene';
+import { CrashScene } from '@/scenes/CrashScene';
+import { LogConsoleScene } from '@/scenes/LogConsoleScene';
 
 class LodeRunnerGame extends Game {
   constructor(config: Types.Core.GameConfig) {
@@ -33,6 +40,9 @@ const gameConfig: Types.Core.GameConfig = {
       height: GAME_CONFIG.height * 2
     }
   },
+  input: {
+    gamepad: true
+  },
   physics: {
     default: 'arcade',
     arcade: {
@@ -45,7 +55,14 @@ const gameConfig: Types.Core.GameConfig = {
     PreloadScene,
     MenuScene,
     GameScene,
-    GameOverScene
+    GameOverScene,
+    EditorScene,
+    PauseScene,
+    LevelSelectScene,
+    ControlsScene,
+    SettingsScene,
+    CrashScene,
+    LogConsoleScene
   ],
   pixelArt: true,
   antialias: false
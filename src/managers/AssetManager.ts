@@ -206,6 +206,7 @@ export class AssetManager {
             guards.push({ x: x * GAME_CONFIG.tileSize, y: y * GAME_CONFIG.tileSize }); // Convert to pixel coordinates
             break;
           case '@': row.push(TILE_TYPES.SOLID); break; // Solid block (cannot be dug)
+          case 'X': row.push(TILE_TYPES.TRAP); break; // Trap brick (false brick, fall through)
           default: row.push(TILE_TYPES.EMPTY); // Default to empty
         }
       }
@@ -224,6 +225,7 @@ export class AssetManager {
       case TILE_TYPES.ROPE: return 'rope';
       case TILE_TYPES.SOLID: return 'solid'; // Solid block (@) - cannot be dug
       case TILE_TYPES.EXIT_LADDER: return 'ladder'; // Exit ladder (looks like ladder but hidden initially)
+      case TILE_TYPES.TRAP: return 'trap'; // Trap brick (X) - drawn like a brick, no support
       default: return 'empty';
     }
   }
@@ -0,0 +1,113 @@
+import { JsonGuards } from '@/utils/JsonGuards';
+import { LogEntry } from '@/utils/Logger';
+import { FileTransfer } from '@/utils/FileTransfer';
+import { SystemTiming } from '@/systems/SystemRegistry';
+import { GuardBrainId } from '@/ai/GuardBrain';
+import { GuardBrainFactory } from '@/ai/GuardBrainFactory';
+import { LevelState, LevelSaveManager } from '@/managers/LevelSaveManager';
+import { GameReplay, GameReplayManager } from '@/managers/GameReplayManager';
+
+export const BUG_REPORT_VERSION = 2;
+
+export interface BugReport {
+  version: number;
+  buildVersion: string;
+  createdAt: string;
+  userAgent: string;
+  error: { message: string; stack?: string };
+
+  // Level
+  packId: string;
+  levelNumber: number;
+  levelKey: string;        // 'playtest' for an editor play test
+  levelData: string[];     // The level itself, so reports from edited or imported levels load anywhere
+  seed: number;
+  guardBrain: GuardBrainId;
+
+  // The level when the report was made: holes and their timelines, guards, gold, player and score
+  state: LevelState;
+  replay?: GameReplay;     // The attempt up to the crash; absent for play tests and bug report runs
+  systems: SystemTiming[];
+
+  log: LogEntry[];
+}
+
+/**
+ * BugReportManager - bug report bundles as files
+ * GameScene builds a report when it crashes; CrashScene offers it as a
+ * download. Loading a report from the main menu puts its level back exactly
+ * as recorded, the way a level save does, with the debug overlay on.
+ */
+export class BugReportManager {
+  static readonly LOG_ENTRIES = 200;   // Most recent log buffer entries kept in a report
+
+  static serialize(report: BugReport): string {
+    return JSON.stringify(report, null, 2);
+  }
+
+  /**
+   * Parse and validate a bug report file
+   * @throws Error if the text is not a bug report this build can load
+   */
+  static parse(text: string): BugReport {
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      throw new Error('Bug report is not valid JSON');
+    }
+
+    this.validate(data);
+    return data;
+  }
+
+  /**
+   * Check a parsed bug report
+   * @throws Error if the report can't be loaded
+   */
+  private static validate(data: unknown): asserts data is BugReport {
+    if (!JsonGuards.isObject(data)) {
+      throw new Error('Bug report must be a JSON object');
+    }
+    if (data.version !== BUG_REPORT_VERSION) {
+      throw new Error(`Unsupported bug report version ${data.version} (expected ${BUG_REPORT_VERSION})`);
+    }
+    if (!Array.isArray(data.levelData) || data.levelData.length === 0 ||
+        data.levelData.some((row: unknown) => typeof row !== 'string')) {
+      throw new Error('Bug report level must be rows of text');
+    }
+    if (typeof data.packId !== 'string' || typeof data.levelKey !== 'string' ||
+        typeof data.levelNumber !== 'number' || typeof data.seed !== 'number') {
+      throw new Error('Bug report is missing its pack, level or seed');
+    }
+    if (typeof data.buildVersion !== 'string' || typeof data.createdAt !== 'string' || typeof data.userAgent !== 'string' ||
+        !JsonGuards.isObject(data.error) || typeof data.error.message !== 'string') {
+      throw new Error('Bug report is missing its build, time or error');
+    }
+    if (!Array.isArray(data.systems) || !Array.isArray(data.log)) {
+      throw new Error('Bug report has no system timings or log');
+    }
+    if (!GuardBrainFactory.isBrainId(data.guardBrain)) {
+      throw new Error(`Unknown guard brain "${data.guardBrain}"`);
+    }
+    LevelSaveManager.validateState(data.state, 'Bug report');
+    if (data.replay !== undefined) {
+      GameReplayManager.validate(data.replay);
+    }
+  }
+
+  /**
+   * Save a report as a .json file through the browser's download prompt
+   */
+  static download(report: BugReport): void {
+    FileTransfer.download(`bug-${report.levelKey}-${report.createdAt.replace(/[:.]/g, '-')}.json`, this.serialize(report));
+  }
+
+  /**
+   * Let the user pick a bug report file; resolves null if nothing was chosen
+   * @throws Error (via rejection) if the chosen file is not a valid bug report
+   */
+  static pickFile(): Promise<BugReport | null> {
+    return FileTransfer.pickText().then(text => text === null ? null : this.parse(text));
+  }
+}
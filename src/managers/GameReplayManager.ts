@@ -0,0 +1,210 @@
+import { GuardBrainId } from '@/ai/GuardBrain';
+import { GuardBrainFactory } from '@/ai/GuardBrainFactory';
+import { JsonGuards } from '@/utils/JsonGuards';
+import { Logger, LogCategory } from '@/utils/Logger';
+import { FileTransfer } from '@/utils/FileTransfer';
+import { LevelState, LevelSaveManager } from './LevelSaveManager';
+
+export const GAME_REPLAY_VERSION = 1;
+
+// [inputBits, deltaMs, gameSpeed, frameCount] runs of identical frames
+export type GameReplayFrame = [number, number, number, number];
+
+export type GameReplayOutcome = 'complete' | 'died' | 'stopped';
+
+export interface GameReplayResult {
+  outcome: GameReplayOutcome;  // Stopped: quit, restarted or saved part way
+  frame: number;               // Frame the attempt ended on
+  score: number;
+}
+
+/**
+ * One attempt at a level in GameScene, as its frames went by
+ */
+export interface GameReplay {
+  version: number;
+  buildVersion: string;      // Other builds may play the same inputs out differently
+  recordedAt: string;
+  packId: string;
+  levelNumber: number;
+  levelKey: string;
+  seed: number;              // Session seed; the level RNG adds the level number
+  guardBrain: GuardBrainId;
+  score: number;             // At the start of the attempt
+  lives: number;
+  startState?: LevelState;   // Level save the attempt started from (level start when absent)
+  totalFrames: number;
+  frames: GameReplayFrame[];
+  result: GameReplayResult;
+}
+
+export type GameReplayHeader = Omit<GameReplay, 'version' | 'recordedAt' | 'totalFrames' | 'frames' | 'result'>;
+
+/**
+ * Collects GameScene frames: the input bits, the frame time and the game speed
+ */
+export class GameReplayRecorder {
+  private frames: GameReplayFrame[] = [];
+  private totalFrames = 0;
+
+  constructor(private readonly header: GameReplayHeader) {}
+
+  record(bits: number, deltaMs: number, gameSpeed: number): void {
+    const last = this.frames[this.frames.length - 1];
+    if (last && last[0] === bits && last[1] === deltaMs && last[2] === gameSpeed) {
+      last[3]++;
+    } else {
+      this.frames.push([bits, deltaMs, gameSpeed, 1]);
+    }
+    this.totalFrames++;
+  }
+
+  toReplay(result: GameReplayResult): GameReplay {
+    return {
+      version: GAME_REPLAY_VERSION,
+      recordedAt: new Date().toISOString(),
+      ...this.header,
+      totalFrames: this.totalFrames,
+      frames: this.frames.map(frame => [...frame] as GameReplayFrame),
+      result
+    };
+  }
+}
+
+/**
+ * Hands back recorded frames one at a time
+ */
+export class GameReplayPlayer {
+  private runIndex = 0;
+  private framesIntoRun = 0;
+
+  constructor(private readonly replay: GameReplay) {}
+
+  /**
+   * The next frame, or null once the replay is exhausted
+   */
+  next(): { bits: number; deltaMs: number; gameSpeed: number } | null {
+    const run = this.replay.frames[this.runIndex];
+    if (!run) {
+      return null;
+    }
+
+    this.framesIntoRun++;
+    if (this.framesIntoRun >= run[3]) {
+      this.runIndex++;
+      this.framesIntoRun = 0;
+    }
+    return { bits: run[0], deltaMs: run[1], gameSpeed: run[2] };
+  }
+}
+
+/**
+ * GameReplayManager - replays of GameScene levels
+ * Keeps the last attempt at a level in localStorage and moves replay files in
+ * and out of the browser. Played back, the same level, seed, guard brain,
+ * inputs and frame times give the same game, so a replay attached to a bug
+ * report shows the guard or hole timing problem exactly as it happened.
+ */
+export class GameReplayManager {
+  private static readonly LAST_REPLAY_KEY = 'loderunner-last-game-replay';
+
+  static serialize(replay: GameReplay): string {
+    return JSON.stringify(replay);
+  }
+
+  /**
+   * Parse and validate a game replay file. A bug report file works too; the
+   * replay of the attempt that crashed is read from it.
+   * @throws Error if the text is not a game replay this build can play
+   */
+  static parse(text: string): GameReplay {
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      throw new Error('Replay is not valid JSON');
+    }
+
+    if (JsonGuards.isObject(data) && 'error' in data && 'replay' in data) {
+      data = data.replay;
+    }
+    this.validate(data);
+    return data;
+  }
+
+  /**
+   * Check a game replay read from a file; bug reports carry one
+   * @throws Error if the replay can't be played
+   */
+  static validate(data: unknown): asserts data is GameReplay {
+    if (!JsonGuards.isObject(data)) {
+      throw new Error('Replay must be a JSON object');
+    }
+    if (data.version !== GAME_REPLAY_VERSION) {
+      throw new Error(`Unsupported replay version ${data.version} (expected ${GAME_REPLAY_VERSION})`);
+    }
+    if (typeof data.packId !== 'string' || typeof data.levelKey !== 'string' ||
+        !Number.isInteger(data.levelNumber) || typeof data.seed !== 'number' ||
+        typeof data.score !== 'number' || typeof data.lives !== 'number') {
+      throw new Error('Replay is missing its pack, level, seed, score or lives');
+    }
+    if (typeof data.buildVersion !== 'string' || typeof data.recordedAt !== 'string' || !Number.isInteger(data.totalFrames)) {
+      throw new Error('Replay is missing its build, recording time or frame count');
+    }
+    if (!GuardBrainFactory.isBrainId(data.guardBrain)) {
+      throw new Error(`Unknown replay guard brain "${data.guardBrain}"`);
+    }
+    if (!Array.isArray(data.frames) || !data.frames.every((frame: unknown) =>
+      Array.isArray(frame) && frame.length === 4 && Number.isInteger(frame[0]) &&
+      typeof frame[1] === 'number' && frame[1] >= 0 && typeof frame[2] === 'number' && frame[2] > 0 &&
+      Number.isInteger(frame[3]) && frame[3] > 0)) {
+      throw new Error('Replay frames are malformed');
+    }
+    const result = data.result;
+    if (!JsonGuards.isObject(result) || typeof result.outcome !== 'string' || !['complete', 'died', 'stopped'].includes(result.outcome) ||
+        !Number.isInteger(result.frame) || typeof result.score !== 'number') {
+      throw new Error('Replay has no result');
+    }
+    if (data.startState !== undefined) {
+      LevelSaveManager.validateState(data.startState, 'Replay');
+    }
+  }
+
+  static saveLastReplay(replay: GameReplay): void {
+    try {
+      localStorage.setItem(this.LAST_REPLAY_KEY, this.serialize(replay));
+    } catch (error) {
+      Logger.warn(LogCategory.GAME_STATE, 'Failed to store last game replay', error);
+    }
+  }
+
+  static loadLastReplay(): GameReplay | null {
+    const stored = localStorage.getItem(this.LAST_REPLAY_KEY);
+    if (!stored) {
+      return null;
+    }
+
+    try {
+      return this.parse(stored);
+    } catch (error) {
+      Logger.warn(LogCategory.GAME_STATE, 'Discarding unreadable last game replay', error);
+      localStorage.removeItem(this.LAST_REPLAY_KEY);
+      return null;
+    }
+  }
+
+  /**
+   * Save a replay as a .json file through the browser's download prompt
+   */
+  static download(replay: GameReplay): void {
+    FileTransfer.download(`game-replay-${replay.levelKey}-${replay.seed}.json`, this.serialize(replay));
+  }
+
+  /**
+   * Let the user pick a game replay file; resolves null if nothing was chosen
+   * @throws Error (via rejection) if the chosen file is not a valid game replay
+   */
+  static pickFile(): Promise<GameReplay | null> {
+    return FileTransfer.pickText().then(text => text === null ? null : this.parse(text));
+  }
+}
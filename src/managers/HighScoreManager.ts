@@ -0,0 +1,109 @@
+import { JsonGuards } from '@/utils/JsonGuards';
+import { Logger, LogCategory } from '@/utils/Logger';
+
+export interface HighScoreEntry {
+  initials: string;   // Three letters, arcade style
+  score: number;
+  level: number;      // Level reached when the game ended
+  date: string;       // YYYY-MM-DD
+}
+
+/**
+ * HighScoreManager - persistent top-10 table in localStorage
+ * Entries are kept sorted by score, highest first; ties keep the older
+ * entry ahead of the newer one.
+ */
+export class HighScoreManager {
+  static readonly MAX_ENTRIES = 10;
+  static readonly INITIALS_LENGTH = 3;
+  private static readonly STORAGE_KEY = 'loderunner-highscores';
+  private static readonly LEGACY_STORAGE_KEY = 'loderunner-highscore'; // Single best score from older builds
+
+  static getScores(): HighScoreEntry[] {
+    const stored = localStorage.getItem(this.STORAGE_KEY);
+    if (!stored) {
+      return this.migrateLegacyScore();
+    }
+
+    try {
+      const entries: unknown = JSON.parse(stored);
+      return Array.isArray(entries) ? entries.filter(entry => this.isEntry(entry)).slice(0, this.MAX_ENTRIES) : [];
+    } catch (error) {
+      Logger.warn(LogCategory.GAME_STATE, 'Discarding unreadable high score table', error);
+      localStorage.removeItem(this.STORAGE_KEY);
+      return [];
+    }
+  }
+
+  /**
+   * True if the score would earn a place in the table
+   */
+  static qualifies(score: number): boolean {
+    if (score <= 0) {
+      return false;
+    }
+    const scores = this.getScores();
+    return scores.length < this.MAX_ENTRIES || score > scores[scores.length - 1].score;
+  }
+
+  /**
+   * Insert a score into the table
+   * @returns Its zero-based rank, or -1 if it did not make the table
+   */
+  static addScore(initials: string, score: number, level: number): number {
+    const entry: HighScoreEntry = {
+      initials: initials.toUpperCase().padEnd(this.INITIALS_LENGTH, ' ').slice(0, this.INITIALS_LENGTH),
+      score,
+      level,
+      date: new Date().toISOString().slice(0, 10)
+    };
+
+    const scores = this.getScores();
+    let rank = scores.findIndex(existing => score > existing.score);
+    if (rank === -1) {
+      rank = scores.length;
+    }
+    if (rank >= this.MAX_ENTRIES) {
+      return -1;
+    }
+
+    scores.splice(rank, 0, entry);
+    this.save(scores.slice(0, this.MAX_ENTRIES));
+    return rank;
+  }
+
+  /**
+   * One fixed-width table row, e.g. " 1. ABC  012300  L 12  2025-01-31"
+   */
+  static formatEntry(entry: HighScoreEntry, rank: number): string {
+    const position = `${rank + 1}.`.padStart(3, ' ');
+    const score = entry.score.toString().padStart(6, '0');
+    const level = `L${entry.level.toString().padStart(3, ' ')}`;
+    return `${position} ${entry.initials}  ${score}  ${level}  ${entry.date}`;
+  }
+
+  private static save(scores: HighScoreEntry[]): void {
+    try {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(scores));
+    } catch (error) {
+      Logger.warn(LogCategory.GAME_STATE, 'Failed to store high score table', error);
+    }
+  }
+
+  private static migrateLegacyScore(): HighScoreEntry[] {
+    const legacy = parseInt(localStorage.getItem(this.LEGACY_STORAGE_KEY) || '', 10);
+    if (!(legacy > 0)) {
+      return [];
+    }
+
+    const scores: HighScoreEntry[] = [{ initials: '???', score: legacy, level: 0, date: '' }];
+    this.save(scores);
+    localStorage.removeItem(this.LEGACY_STORAGE_KEY);
+    return scores;
+  }
+
+  private static isEntry(value: unknown): value is HighScoreEntry {
+    return JsonGuards.isObject(value) && typeof value.initials === 'string' && typeof value.score === 'number' &&
+           typeof value.level === 'number' && typeof value.date === 'string';
+  }
+}
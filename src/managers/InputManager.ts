@@ -1,10 +1,33 @@
 import { Scene } from 'phaser';
+import { INPUT_BITS } from '@/utils/InputBits';
+import { GAMEPAD_BUTTONS, GAMEPAD_CONFIG } from '@/config/GameConfig';
+import { Logger, LogCategory } from '@/utils/Logger';
+import { TouchControls } from './TouchControls';
+import { KeyBindingManager, ControlAction, CONTROL_ACTIONS } from './KeyBindingManager';
 
+type StickDirection = 'UP' | 'DOWN' | 'LEFT' | 'RIGHT' | null;
+
+// Keyboard key names a menu pad button presses; several keys are pressed in order
+export type MenuPadButtons = Partial<Record<number, string | string[]>>;
+
+/**
+ * InputManager - keyboard, gamepad and touch controls for gameplay scenes
+ * All devices are read every frame and combined, so the player can put the
+ * keyboard down and pick up a pad (or back) at any moment. The touch overlay
+ * is only created on touch screens. Keyboard keys come from KeyBindingManager
+ * and are read when the manager is created, so rebinding applies from the
+ * next scene start.
+ */
 export class InputManager {
   private scene: Scene;
-  private cursors!: Phaser.Types.Input.Keyboard.CursorKeys;
-  private wasdKeys!: { [key: string]: Phaser.Input.Keyboard.Key };
-  private actionKeys!: { [key: string]: Phaser.Input.Keyboard.Key };
+  private boundKeys!: Record<ControlAction, Phaser.Input.Keyboard.Key[]>;
+
+  // Pad buttons seen down on the previous check, for edge-triggered actions
+  private padButtonsDown: Map<number, boolean> = new Map();
+  private touchControls: TouchControls | null = null;
+
+  // Movement and dig bits every check returns until the next latchFrame(), if latched
+  private frameBits: number | null = null;
 
   constructor(scene: Scene) {
     this.scene = scene;
@@ -12,51 +35,239 @@ export class InputManager {
   }
 
   private setupInput(): void {
-    this.cursors = this.scene.input.keyboard!.createCursorKeys();
-    
-    this.wasdKeys = this.scene.input.keyboard!.addKeys('W,S,A,D') as { [key: string]: Phaser.Input.Keyboard.Key };
-    
-    this.actionKeys = this.scene.input.keyboard!.addKeys('Z,X,SPACE,ESC,ENTER,J') as { [key: string]: Phaser.Input.Keyboard.Key };
+    const keyboard = this.scene.input.keyboard!;
+    const bindings = KeyBindingManager.getBindings();
+    this.boundKeys = Object.fromEntries(CONTROL_ACTIONS.map(action =>
+      [action, KeyBindingManager.getKeys(bindings, action).map(key => keyboard.addKey(key))])) as Record<ControlAction, Phaser.Input.Keyboard.Key[]>;
+
+    this.scene.input.gamepad?.on('connected', this.onPadConnected, this);
+
+    if (TouchControls.isSupported(this.scene)) {
+      this.touchControls = new TouchControls(this.scene);
+    }
+  }
+
+  /**
+   * True when the on-screen touch buttons are shown in the UI band
+   */
+  hasTouchControls(): boolean {
+    return this.touchControls !== null;
+  }
+
+  private onPadConnected(pad: Phaser.Input.Gamepad.Gamepad): void {
+    Logger.info(LogCategory.UI, `Gamepad connected: ${pad.id}`);
   }
 
   isLeftPressed(): boolean {
-    return this.cursors.left.isDown || this.wasdKeys.A.isDown;
+    return this.getLatchedBit(INPUT_BITS.LEFT) ??
+           (this.isBoundKeyDown('left') || InputManager.isPadDirectionDown(this.getPad(), 'LEFT') ||
+            !!this.touchControls?.isDown('left'));
   }
 
   isRightPressed(): boolean {
-    return this.cursors.right.isDown || this.wasdKeys.D.isDown;
+    return this.getLatchedBit(INPUT_BITS.RIGHT) ??
+           (this.isBoundKeyDown('right') || InputManager.isPadDirectionDown(this.getPad(), 'RIGHT') ||
+            !!this.touchControls?.isDown('right'));
   }
 
   isUpPressed(): boolean {
-    return this.cursors.up.isDown || this.wasdKeys.W.isDown;
+    return this.getLatchedBit(INPUT_BITS.UP) ??
+           (this.isBoundKeyDown('up') || InputManager.isPadDirectionDown(this.getPad(), 'UP') ||
+            !!this.touchControls?.isDown('up'));
   }
 
   isDownPressed(): boolean {
-    return this.cursors.down.isDown || this.wasdKeys.S.isDown;
+    return this.getLatchedBit(INPUT_BITS.DOWN) ??
+           (this.isBoundKeyDown('down') || InputManager.isPadDirectionDown(this.getPad(), 'DOWN') ||
+            !!this.touchControls?.isDown('down'));
   }
 
   isDigLeftPressed(): boolean {
-    return Phaser.Input.Keyboard.JustDown(this.actionKeys.Z);
+    return this.getLatchedBit(INPUT_BITS.DIG_LEFT) ??
+           (this.isBoundKeyJustDown('digLeft') || this.isPadButtonJustDown(GAMEPAD_CONFIG.DIG_LEFT) ||
+            !!this.touchControls?.consumePress('digLeft'));
   }
 
   isDigRightPressed(): boolean {
-    return Phaser.Input.Keyboard.JustDown(this.actionKeys.X);
+    return this.getLatchedBit(INPUT_BITS.DIG_RIGHT) ??
+           (this.isBoundKeyJustDown('digRight') || this.isPadButtonJustDown(GAMEPAD_CONFIG.DIG_RIGHT) ||
+            !!this.touchControls?.consumePress('digRight'));
+  }
+
+  /**
+   * Sample movement and dig controls as a replay input bitmask.
+   * Dig keys are edge-triggered, so call this once per frame (or latch the frame).
+   */
+  getInputBits(): number {
+    return (this.isLeftPressed() ? INPUT_BITS.LEFT : 0) |
+           (this.isRightPressed() ? INPUT_BITS.RIGHT : 0) |
+           (this.isUpPressed() ? INPUT_BITS.UP : 0) |
+           (this.isDownPressed() ? INPUT_BITS.DOWN : 0) |
+           (this.isDigLeftPressed() ? INPUT_BITS.DIG_LEFT : 0) |
+           (this.isDigRightPressed() ? INPUT_BITS.DIG_RIGHT : 0);
+  }
+
+  /**
+   * Fix movement and dig controls for one frame: sampled from the devices, or
+   * the bits given (replay playback). Until the next call every check above
+   * answers from them, so the player, the collision callbacks and the dig
+   * handling all see the same input, and what is recorded is what was played.
+   * @returns The frame's input bits
+   */
+  latchFrame(bits?: number): number {
+    this.frameBits = null;
+    this.frameBits = bits ?? this.getInputBits();
+    return this.frameBits;
   }
 
   isActionPressed(): boolean {
-    return Phaser.Input.Keyboard.JustDown(this.actionKeys.SPACE) || 
-           Phaser.Input.Keyboard.JustDown(this.actionKeys.ENTER);
+    return this.isBoundKeyJustDown('confirm') || this.isPadButtonJustDown([GAMEPAD_BUTTONS.A]);
   }
 
+  /**
+   * The pause key, START on a pad or the on-screen pause button
+   */
   isEscapePressed(): boolean {
-    return Phaser.Input.Keyboard.JustDown(this.actionKeys.ESC);
+    return this.isBoundKeyJustDown('pause') || this.isPadButtonJustDown(GAMEPAD_CONFIG.PAUSE) ||
+           !!this.touchControls?.consumePress('pause');
   }
 
   isDebugTogglePressed(): boolean {
-    return Phaser.Input.Keyboard.JustDown(this.actionKeys.J);
+    return this.isBoundKeyJustDown('debug');
   }
 
   destroy(): void {
-    // Cleanup if needed
+    this.scene.input.gamepad?.off('connected', this.onPadConnected, this);
+    
+    // Drop the keys and their capture, so keys unbound since stop swallowing browser input
+    new Set(Object.values(this.boundKeys).flat()).forEach(key => this.scene.input.keyboard?.removeKey(key, true, true));
+    this.touchControls?.destroy();
+    this.touchControls = null;
+  }
+
+  private getLatchedBit(bit: number): boolean | null {
+    return this.frameBits === null ? null : (this.frameBits & bit) !== 0;
+  }
+
+  private isBoundKeyDown(action: ControlAction): boolean {
+    return this.boundKeys[action].some(key => key.isDown);
+  }
+
+  // Checks every key so none keeps a stale JustDown for a later frame
+  private isBoundKeyJustDown(action: ControlAction): boolean {
+    return this.boundKeys[action].reduce((justDown, key) => Phaser.Input.Keyboard.JustDown(key) || justDown, false);
+  }
+
+  private getPad(): Phaser.Input.Gamepad.Gamepad | null {
+    return InputManager.getConnectedPad(this.scene);
+  }
+
+  // Like JustDown for keys; each button list must be checked by one caller, once per frame
+  private isPadButtonJustDown(indices: readonly number[]): boolean {
+    return InputManager.checkPadButtonsJustDown(this.getPad(), indices, this.padButtonsDown);
+  }
+
+  /**
+   * Let a gamepad drive a menu scene's existing keyboard handlers
+   * D-pad and left stick press UP/DOWN/LEFT/RIGHT; the other buttons press
+   * the keys given for them by emitting keydown-<KEY> on the scene's keyboard.
+   * Buttons already held when the scene opens are ignored until released.
+   */
+  static bindMenuGamepad(scene: Scene, buttons: MenuPadButtons): void {
+    const keyboard = scene.input.keyboard;
+    if (!scene.input.gamepad || !keyboard) {
+      return;
+    }
+
+    const buttonsDown: Map<number, boolean> = new Map();
+    const directions = { UP: GAMEPAD_BUTTONS.UP, DOWN: GAMEPAD_BUTTONS.DOWN, LEFT: GAMEPAD_BUTTONS.LEFT, RIGHT: GAMEPAD_BUTTONS.RIGHT };
+    let stickDirection: StickDirection | undefined;
+
+    const press = (keys: string | string[]) => {
+      (Array.isArray(keys) ? keys : [keys]).forEach(key => keyboard.emit(`keydown-${key}`));
+    };
+
+    const poll = () => {
+      const pad = this.getConnectedPad(scene);
+
+      Object.entries(directions).forEach(([key, index]) => {
+        if (this.checkPadButtonsJustDown(pad, [index], buttonsDown)) {
+          press(key);
+        }
+      });
+      Object.entries(buttons).forEach(([index, keys]) => {
+        if (keys && this.checkPadButtonsJustDown(pad, [Number(index)], buttonsDown)) {
+          press(keys);
+        }
+      });
+
+      // The stick presses once per push, like a D-pad
+      const direction = this.getStickDirection(pad);
+      if (stickDirection !== undefined && direction && direction !== stickDirection) {
+        press(direction);
+      }
+      stickDirection = direction;
+    };
+
+    scene.events.on(Phaser.Scenes.Events.UPDATE, poll);
+    scene.events.once(Phaser.Scenes.Events.SHUTDOWN, () => scene.events.off(Phaser.Scenes.Events.UPDATE, poll));
+  }
+
+  private static getConnectedPad(scene: Scene): Phaser.Input.Gamepad.Gamepad | null {
+    const gamepad = scene.input.gamepad;
+    if (!gamepad || gamepad.total === 0) {
+      return null;
+    }
+    return gamepad.getAll().find(pad => pad.connected) ?? null;
+  }
+
+  private static isPadDirectionDown(pad: Phaser.Input.Gamepad.Gamepad | null, direction: Exclude<StickDirection, null>): boolean {
+    if (!pad) {
+      return false;
+    }
+    const dpadDown = !!pad.buttons[GAMEPAD_BUTTONS[direction]]?.pressed;
+    const stick = pad.leftStick;
+    const deadzone = GAMEPAD_CONFIG.STICK_DEADZONE;
+    switch (direction) {
+      case 'LEFT': return dpadDown || stick.x < -deadzone;
+      case 'RIGHT': return dpadDown || stick.x > deadzone;
+      case 'UP': return dpadDown || stick.y < -deadzone;
+      case 'DOWN': return dpadDown || stick.y > deadzone;
+    }
+  }
+
+  // Dominant stick direction outside the deadzone
+  private static getStickDirection(pad: Phaser.Input.Gamepad.Gamepad | null): StickDirection {
+    if (!pad) {
+      return null;
+    }
+    const { x, y } = pad.leftStick;
+    if (Math.max(Math.abs(x), Math.abs(y)) <= GAMEPAD_CONFIG.STICK_DEADZONE) {
+      return null;
+    }
+    if (Math.abs(x) > Math.abs(y)) {
+      return x < 0 ? 'LEFT' : 'RIGHT';
+    }
+    return y < 0 ? 'UP' : 'DOWN';
+  }
+
+  private static checkPadButtonsJustDown(
+    pad: Phaser.Input.Gamepad.Gamepad | null,
+    indices: readonly number[],
+    buttonsDown: Map<number, boolean>
+  ): boolean {
+    if (!pad) {
+      buttonsDown.clear();
+      return false;
+    }
+
+    let justDown = false;
+    for (const index of indices) {
+      const down = !!pad.buttons[index]?.pressed;
+      const wasDown = buttonsDown.get(index) ?? down; // First sighting never counts as a press
+      justDown = justDown || (down && !wasDown);
+      buttonsDown.set(index, down);
+    }
+    return justDown;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,258 @@
+import { JsonGuards } from '@/utils/JsonGuards';
+import { Logger, LogCategory } from '@/utils/Logger';
+
+export type ControlAction = 'left' | 'right' | 'up' | 'down' | 'digLeft' | 'digRight' | 'pause' | 'confirm' | 'debug';
+
+// Phaser KeyCodes names, one per slot; null leaves the slot unbound
+export type KeyBindings = Record<ControlAction, (string | null)[]>;
+
+export interface BindingPreset {
+  id: string;
+  name: string;
+  bindings: KeyBindings;
+}
+
+// A key bound to more than one action
+export interface BindingConflict {
+  key: string;
+  actions: ControlAction[];
+}
+
+export const CONTROL_ACTIONS: ControlAction[] = ['left', 'right', 'up', 'down', 'digLeft', 'digRight', 'pause', 'confirm', 'debug'];
+
+export const CONTROL_ACTION_LABELS: Record<ControlAction, string> = {
+  left: 'LEFT',
+  right: 'RIGHT',
+  up: 'UP',
+  down: 'DOWN',
+  digLeft: 'DIG LEFT',
+  digRight: 'DIG RIGHT',
+  pause: 'PAUSE',
+  confirm: 'CONFIRM',
+  debug: 'DEBUG'
+};
+
+const KEY_LABELS: Record<string, string> = {
+  LEFT: '←',
+  RIGHT: '→',
+  UP: '↑',
+  DOWN: '↓'
+};
+
+/**
+ * KeyBindingManager - rebindable keyboard controls in localStorage
+ * Every action has BINDING_SLOTS keys (primary and alternate). Keys are stored
+ * by Phaser KeyCodes name, so they follow the keyboard layout the browser
+ * reports: an AZERTY "Z" key binds as Z. Gamepad and touch controls are fixed.
+ */
+export class KeyBindingManager {
+  static readonly BINDING_SLOTS = 2;
+  private static readonly STORAGE_KEY = 'loderunner-keybindings';
+
+  // GameScene's level save and replay keys; never bound to an action
+  static readonly RESERVED_KEYS: readonly string[] = ['F5', 'F6', 'F7', 'F9'];
+
+  static readonly PRESETS: BindingPreset[] = [
+    {
+      id: 'default',
+      name: 'ARROWS + WASD',
+      bindings: {
+        left: ['LEFT', 'A'],
+        right: ['RIGHT', 'D'],
+        up: ['UP', 'W'],
+        down: ['DOWN', 'S'],
+        digLeft: ['Z', null],
+        digRight: ['X', null],
+        pause: ['ESC', null],
+        confirm: ['ENTER', 'SPACE'],
+        debug: ['J', null]
+      }
+    },
+    {
+      id: 'azerty',
+      name: 'AZERTY (ZQSD)',
+      bindings: {
+        left: ['LEFT', 'Q'],
+        right: ['RIGHT', 'D'],
+        up: ['UP', 'Z'],
+        down: ['DOWN', 'S'],
+        digLeft: ['W', null],
+        digRight: ['X', null],
+        pause: ['ESC', null],
+        confirm: ['ENTER', 'SPACE'],
+        debug: ['J', null]
+      }
+    },
+    {
+      id: 'classic',
+      name: 'CLASSIC (IJKL + U/O)',
+      bindings: {
+        left: ['J', 'LEFT'],
+        right: ['L', 'RIGHT'],
+        up: ['I', 'UP'],
+        down: ['K', 'DOWN'],
+        digLeft: ['U', 'Z'],
+        digRight: ['O', 'X'],
+        pause: ['ESC', null],
+        confirm: ['ENTER', 'SPACE'],
+        debug: ['F2', null]   // J moves left in this layout
+      }
+    }
+  ];
+
+  static getDefaults(): KeyBindings {
+    return this.copy(this.PRESETS[0].bindings);
+  }
+
+  /**
+   * Stored bindings, or the defaults if none are saved or they are unreadable
+   */
+  static getBindings(): KeyBindings {
+    const stored = localStorage.getItem(this.STORAGE_KEY);
+    if (!stored) {
+      return this.getDefaults();
+    }
+
+    try {
+      return this.validate(JSON.parse(stored));
+    } catch (error) {
+      Logger.warn(LogCategory.GAME_STATE, 'Discarding unreadable key bindings', error);
+      localStorage.removeItem(this.STORAGE_KEY);
+      return this.getDefaults();
+    }
+  }
+
+  static saveBindings(bindings: KeyBindings): void {
+    try {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(bindings));
+    } catch (error) {
+      Logger.warn(LogCategory.GAME_STATE, 'Failed to store key bindings', error);
+    }
+  }
+
+  /**
+   * Keys bound to the action, in slot order
+   */
+  static getKeys(bindings: KeyBindings, action: ControlAction): string[] {
+    return bindings[action].filter((key): key is string => key !== null);
+  }
+
+  static isReserved(key: string): boolean {
+    return this.RESERVED_KEYS.includes(key);
+  }
+
+  /**
+   * Action (other than the given one) that already uses the key, if any
+   */
+  static findAction(bindings: KeyBindings, key: string, except?: ControlAction): ControlAction | null {
+    return CONTROL_ACTIONS.find(action => action !== except && bindings[action].includes(key)) ?? null;
+  }
+
+  /**
+   * Bind a key to one slot of an action
+   * A key already used by another action swaps places with the key it replaces,
+   * so every action keeps working.
+   * @returns The action the key was taken from, or null if it was free
+   */
+  static assign(bindings: KeyBindings, action: ControlAction, slot: number, key: string | null): ControlAction | null {
+    const previous = bindings[action][slot];
+    const taken = key ? this.findAction(bindings, key, action) : null;
+    if (taken) {
+      const takenSlot = bindings[taken].indexOf(key);
+      bindings[taken][takenSlot] = previous;
+    }
+
+    // The same key in both slots of one action is just one binding
+    const otherSlot = bindings[action].indexOf(key);
+    if (key && otherSlot !== -1 && otherSlot !== slot) {
+      bindings[action][otherSlot] = previous;
+    }
+
+    bindings[action][slot] = key;
+    return taken;
+  }
+
+  /**
+   * Keys bound to more than one action
+   */
+  static findConflicts(bindings: KeyBindings): BindingConflict[] {
+    const actionsByKey: Map<string, ControlAction[]> = new Map();
+    CONTROL_ACTIONS.forEach(action => {
+      new Set(this.getKeys(bindings, action)).forEach(key => {
+        actionsByKey.set(key, [...(actionsByKey.get(key) ?? []), action]);
+      });
+    });
+
+    return [...actionsByKey.entries()]
+      .filter(([, actions]) => actions.length > 1)
+      .map(([key, actions]) => ({ key, actions }));
+  }
+
+  /**
+   * Id of the preset the bindings match exactly, if any
+   */
+  static findPreset(bindings: KeyBindings): string | null {
+    const preset = this.PRESETS.find(candidate =>
+      CONTROL_ACTIONS.every(action => candidate.bindings[action].every((key, slot) => bindings[action][slot] === key)));
+    return preset?.id ?? null;
+  }
+
+  static getPresetBindings(presetId: string): KeyBindings {
+    const preset = this.PRESETS.find(candidate => candidate.id === presetId) ?? this.PRESETS[0];
+    return this.copy(preset.bindings);
+  }
+
+  /**
+   * Name of the KeyCodes entry for a browser keyCode, or null for keys Phaser doesn't know
+   */
+  static getKeyName(keyCode: number): string | null {
+    const entry = Object.entries(Phaser.Input.Keyboard.KeyCodes).find(([, code]) => code === keyCode);
+    return entry ? entry[0] : null;
+  }
+
+  /**
+   * Short label for a key name, for hints and the controls screen
+   */
+  static formatKey(key: string | null): string {
+    if (!key) {
+      return '---';
+    }
+    return KEY_LABELS[key] ?? key.replace(/_/g, ' ');
+  }
+
+  /**
+   * Keys of an action joined for hint text, e.g. "Z" or "ENTER/SPACE"
+   */
+  static describe(action: ControlAction, bindings: KeyBindings = this.getBindings()): string {
+    const keys = this.getKeys(bindings, action);
+    return keys.length > 0 ? keys.map(key => this.formatKey(key)).join('/') : 'UNBOUND';
+  }
+
+  private static copy(bindings: KeyBindings): KeyBindings {
+    return Object.fromEntries(CONTROL_ACTIONS.map(action => [action, [...bindings[action]]])) as KeyBindings;
+  }
+
+  /**
+   * Check parsed bindings; actions missing from older saves get their defaults
+   * @throws Error if a binding is not a list of known key names
+   */
+  private static validate(data: unknown): KeyBindings {
+    if (!JsonGuards.isObject(data)) {
+      throw new Error('Key bindings are not an object');
+    }
+
+    const bindings = this.getDefaults();
+    CONTROL_ACTIONS.forEach(action => {
+      const keys = data[action];
+      if (keys === undefined) {
+        return;
+      }
+      if (!Array.isArray(keys) || keys.length !== this.BINDING_SLOTS ||
+          !keys.every(key => key === null || (typeof key === 'string' && key in Phaser.Input.Keyboard.KeyCodes))) {
+        throw new Error(`Invalid key binding for ${action}`);
+      }
+      bindings[action] = [...keys];
+    });
+    return bindings;
+  }
+}
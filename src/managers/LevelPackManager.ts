@@ -0,0 +1,106 @@
+import { LevelPackInfo } from '@/types/GameTypes';
+import { LevelLogger } from '@/utils/Logger';
+
+interface PackManifest {
+  packs: LevelPackInfo[];
+}
+
+/**
+ * LevelPackManager - level pack manifest, loading and selection
+ * Packs are listed in /assets/levels/packs.json; each pack file uses the
+ * classic.json layout ({ levels: { name, total, <level keys> } }).
+ */
+export class LevelPackManager {
+  static readonly MANIFEST_KEY = 'level-packs';
+  static readonly DEFAULT_PACK_ID = 'classic';
+  private static readonly SELECTED_PACK_STORAGE_KEY = 'loderunner-level-pack';
+  private static readonly LEVELS_PATH = '/assets/levels/';
+
+  /**
+   * Queue the manifest, then every pack it lists, on the scene's loader
+   */
+  static loadPacks(scene: Phaser.Scene): void {
+    scene.load.once(`filecomplete-json-${this.MANIFEST_KEY}`, (_key: string, _type: string, manifest: PackManifest) => {
+      (manifest?.packs || []).forEach(pack => {
+        scene.load.json(this.getCacheKey(pack.id), `${this.LEVELS_PATH}${pack.file}`);
+      });
+    });
+    scene.load.json(this.MANIFEST_KEY, `${this.LEVELS_PATH}packs.json`);
+  }
+
+  static getCacheKey(packId: string): string {
+    return `levels-${packId}`;
+  }
+
+  /**
+   * Build a level key from a pattern like "level-{nnn}" (one n per digit of padding)
+   */
+  static formatLevelKey(pattern: string, levelNumber: number): string {
+    return pattern.replace(/\{(n+)\}/, (_match, digits: string) =>
+      levelNumber.toString().padStart(digits.length, '0'));
+  }
+
+  static getPacks(scene: Phaser.Scene): LevelPackInfo[] {
+    const manifest: PackManifest | undefined = scene.cache.json.get(this.MANIFEST_KEY);
+    return (manifest?.packs || []).filter(pack => scene.cache.json.exists(this.getCacheKey(pack.id)));
+  }
+
+  static getPack(scene: Phaser.Scene, packId: string): LevelPackInfo | null {
+    return this.getPacks(scene).find(pack => pack.id === packId) || null;
+  }
+
+  /**
+   * Currently selected pack (registry first, then the last choice saved in localStorage)
+   */
+  static getSelectedPack(scene: Phaser.Scene): LevelPackInfo {
+    const packs = this.getPacks(scene);
+    const selectedId: string | undefined = scene.registry.get('levelPackId') ||
+      localStorage.getItem(this.SELECTED_PACK_STORAGE_KEY) || undefined;
+
+    const pack = packs.find(p => p.id === selectedId) ||
+      packs.find(p => p.id === this.DEFAULT_PACK_ID) ||
+      packs[0];
+    if (!pack) {
+      throw new Error('No level packs loaded - check /assets/levels/packs.json');
+    }
+    return pack;
+  }
+
+  static setSelectedPack(scene: Phaser.Scene, packId: string): void {
+    scene.registry.set('levelPackId', packId);
+    try {
+      localStorage.setItem(this.SELECTED_PACK_STORAGE_KEY, packId);
+    } catch {
+      // Storage unavailable (private mode) - selection still lasts for the session
+    }
+  }
+
+  /**
+   * Number of levels actually present in the pack file, in order from level 1.
+   * Falls short of the manifest's levelCount if the file is missing levels.
+   */
+  static getLevelCount(scene: Phaser.Scene, pack: LevelPackInfo): number {
+    let count = 0;
+    while (count < pack.levelCount && this.getLevelData(scene, pack, count + 1)) {
+      count++;
+    }
+
+    if (count < pack.levelCount) {
+      LevelLogger.warn(`Pack "${pack.id}" lists ${pack.levelCount} levels but only ${count} are present`);
+    }
+    return count;
+  }
+
+  static getLevelKey(pack: LevelPackInfo, levelNumber: number): string {
+    return this.formatLevelKey(pack.levelKeyPattern, levelNumber);
+  }
+
+  static getLevelData(scene: Phaser.Scene, pack: LevelPackInfo, levelNumber: number): string[] | null {
+    return this.getLevelDataByKey(scene, pack, this.getLevelKey(pack, levelNumber));
+  }
+
+  static getLevelDataByKey(scene: Phaser.Scene, pack: LevelPackInfo, levelKey: string): string[] | null {
+    const packData = scene.cache.json.get(this.getCacheKey(pack.id));
+    return packData?.levels?.[levelKey] || null;
+  }
+}
@@ -0,0 +1,163 @@
+import { GuardSaveState } from '@/entities/Guard';
+import { PlayerSaveState } from '@/entities/Player';
+import { HoleSaveState } from '@/systems/HoleSystem';
+import { HoleTimelineState } from '@/utils/HoleTimeline';
+import { GuardBrainId } from '@/ai/GuardBrain';
+import { GuardBrainFactory } from '@/ai/GuardBrainFactory';
+import { JsonGuards } from '@/utils/JsonGuards';
+import { Logger, LogCategory } from '@/utils/Logger';
+import { FileTransfer } from '@/utils/FileTransfer';
+
+export const LEVEL_SAVE_VERSION = 1;
+
+/**
+ * A level in GameScene part way through (see GameScene.captureLevelState)
+ */
+export interface LevelState {
+  gameTime: number;          // Game clock when saved; restored levels carry on from it
+  rngState: number;
+  score: number;
+  lives: number;
+  goldCollected: number;
+  totalGold: number;
+  gold: { gridX: number; gridY: number }[];   // Gold still in the level, dropped gold included
+  player: PlayerSaveState;
+  invincibleMs: number;      // Player invincibility left
+  guards: GuardSaveState[];  // In level order
+  holes: HoleSaveState[];
+  holeTimeline: HoleTimelineState;
+  navigationVersion: number;
+  levelStartScore: number;   // For the level's best score and time
+  levelStartTime: number;
+}
+
+export interface LevelSave {
+  version: number;
+  savedAt: string;
+  packId: string;
+  levelNumber: number;
+  levelKey: string;
+  seed: number;
+  guardBrain: GuardBrainId;  // Brain states only fit the brain that saved them
+  state: LevelState;
+}
+
+/**
+ * LevelSaveManager - GameScene level saves
+ * Keeps one quick-save slot in localStorage and moves level save files in
+ * and out of the browser. Loading one puts the level back exactly where it
+ * was: holes and their timelines, guard states and carried gold, the score.
+ */
+export class LevelSaveManager {
+  private static readonly QUICK_SAVE_KEY = 'loderunner-level-quick-save';
+
+  static serialize(save: LevelSave): string {
+    return JSON.stringify(save);
+  }
+
+  /**
+   * Parse and validate a level save file
+   * @throws Error if the text is not a level save this build can load
+   */
+  static parse(text: string): LevelSave {
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      throw new Error('Level save is not valid JSON');
+    }
+
+    this.validate(data);
+    return data;
+  }
+
+  /**
+   * Check a parsed level save
+   * @throws Error if the save can't be loaded
+   */
+  private static validate(data: unknown): asserts data is LevelSave {
+    if (!JsonGuards.isObject(data)) {
+      throw new Error('Level save must be a JSON object');
+    }
+    if (data.version !== LEVEL_SAVE_VERSION) {
+      throw new Error(`Unsupported level save version ${data.version} (expected ${LEVEL_SAVE_VERSION})`);
+    }
+    if (typeof data.packId !== 'string' || typeof data.levelKey !== 'string' ||
+        !Number.isInteger(data.levelNumber) || typeof data.seed !== 'number' || typeof data.savedAt !== 'string') {
+      throw new Error('Level save is missing its pack, level, seed or save time');
+    }
+    if (!GuardBrainFactory.isBrainId(data.guardBrain)) {
+      throw new Error(`Unknown guard brain "${data.guardBrain}"`);
+    }
+    this.validateState(data.state, 'Level save');
+  }
+
+  /**
+   * Check a level state read from a file; level saves and bug reports carry one
+   * @param source What the state came from, for the error messages
+   * @throws Error if the state can't be restored
+   */
+  static validateState(state: unknown, source: string): asserts state is LevelState {
+    const isPosition = (entity: unknown) => JsonGuards.isObject(entity) && typeof entity.x === 'number' && typeof entity.y === 'number';
+    const isCell = (cell: unknown) => JsonGuards.isObject(cell) && Number.isInteger(cell.gridX) && Number.isInteger(cell.gridY);
+    if (!JsonGuards.isObject(state) ||
+        typeof state.gameTime !== 'number' || typeof state.rngState !== 'number' ||
+        typeof state.score !== 'number' || typeof state.lives !== 'number' ||
+        typeof state.goldCollected !== 'number' || typeof state.totalGold !== 'number') {
+      throw new Error(`${source} has no game time, score, lives or gold count`);
+    }
+    if (!isPosition(state.player)) {
+      throw new Error(`${source} has no player position`);
+    }
+    if (!JsonGuards.isObjectArray(state.guards) || !state.guards.every(guard => isPosition(guard) && typeof guard.state === 'string')) {
+      throw new Error(`${source} guards must all have a position and state`);
+    }
+    if (!Array.isArray(state.gold) || !state.gold.every(isCell)) {
+      throw new Error(`${source} gold must be a list of cells`);
+    }
+    if (!JsonGuards.isObjectArray(state.holes) || !state.holes.every(hole => isCell(hole) && typeof hole.elapsedMs === 'number')) {
+      throw new Error(`${source} holes must be cells with how long they have been open`);
+    }
+    if (!JsonGuards.isObject(state.holeTimeline) || !Array.isArray(state.holeTimeline.timelines)) {
+      throw new Error(`${source} has no hole timeline`);
+    }
+  }
+
+  static saveQuickSave(save: LevelSave): void {
+    try {
+      localStorage.setItem(this.QUICK_SAVE_KEY, this.serialize(save));
+    } catch (error) {
+      Logger.warn(LogCategory.GAME_STATE, 'Failed to store level quick save', error);
+    }
+  }
+
+  static loadQuickSave(): LevelSave | null {
+    const stored = localStorage.getItem(this.QUICK_SAVE_KEY);
+    if (!stored) {
+      return null;
+    }
+
+    try {
+      return this.parse(stored);
+    } catch (error) {
+      Logger.warn(LogCategory.GAME_STATE, 'Discarding unreadable level quick save', error);
+      localStorage.removeItem(this.QUICK_SAVE_KEY);
+      return null;
+    }
+  }
+
+  /**
+   * Save a level save as a .json file through the browser's download prompt
+   */
+  static download(save: LevelSave): void {
+    FileTransfer.download(`level-${save.levelKey}-${Math.round(save.state.gameTime)}ms.json`, this.serialize(save));
+  }
+
+  /**
+   * Let the user pick a level save file; resolves null if nothing was chosen
+   * @throws Error (via rejection) if the chosen file is not a valid level save
+   */
+  static pickFile(): Promise<LevelSave | null> {
+    return FileTransfer.pickText().then(text => text === null ? null : this.parse(text));
+  }
+}
@@ -0,0 +1,213 @@
+import { JsonGuards, JsonObject } from '@/utils/JsonGuards';
+import { Logger, LogCategory } from '@/utils/Logger';
+
+// Where a campaign run stands at the start of a level
+export interface CampaignRun {
+  level: number;
+  score: number;
+  lives: number;
+}
+
+// Best result for one completed level
+export interface LevelRecord {
+  bestScore: number;         // Points earned on the level, completion bonus included
+  bestTime: number;          // Milliseconds of play from level start to exit
+}
+
+export interface PackProgress {
+  highestLevel: number;      // Furthest level ever started in the pack
+  run: CampaignRun | null;   // Run to continue; cleared on game over
+  levels: Record<string, LevelRecord>; // Keyed by level number
+  savedAt: string;           // ISO timestamp of the last autosave
+}
+
+interface SaveFile {
+  version: number;
+  packs: Record<string, PackProgress>;
+}
+
+// A save as read back, before its packs are checked
+interface StoredSave {
+  version: number;
+  packs: JsonObject;
+}
+
+/**
+ * ProgressManager - autosaved campaign progress per level pack
+ * GameScene saves at the start of every level so MenuScene can offer
+ * CONTINUE after the page is closed, and records each completed level's
+ * best score and time for LevelSelectScene. The save file carries a version; when
+ * the format changes, bump SAVE_VERSION and add a step to MIGRATIONS that
+ * upgrades the previous version, so older saves keep working.
+ */
+export class ProgressManager {
+  static readonly SAVE_VERSION = 2;
+  private static readonly STORAGE_KEY = 'loderunner-progress';
+
+  // MIGRATIONS[n] turns a version n save into a version n + 1 save
+  private static readonly MIGRATIONS: Record<number, (save: StoredSave) => StoredSave> = {
+    // 2: per-level best score and time
+    1: save => ({
+      version: 2,
+      packs: Object.fromEntries(Object.entries(save.packs).map(([packId, progress]) =>
+        [packId, JsonGuards.isObject(progress) ? { ...progress, levels: {} } : progress]))
+    })
+  };
+
+  static getProgress(packId: string): PackProgress | null {
+    return this.load().packs[packId] || null;
+  }
+
+  /**
+   * Run to resume in the pack, if there is one
+   */
+  static getRun(packId: string): CampaignRun | null {
+    return this.getProgress(packId)?.run || null;
+  }
+
+  /**
+   * Furthest level started in the pack (1 if the pack has never been played)
+   */
+  static getHighestLevel(packId: string): number {
+    return Math.max(1, this.getProgress(packId)?.highestLevel ?? 1);
+  }
+
+  static getLevelRecord(packId: string, level: number): LevelRecord | null {
+    return this.getProgress(packId)?.levels[level] || null;
+  }
+
+  /**
+   * Record the run at the start of a level
+   */
+  static saveRun(packId: string, run: CampaignRun): void {
+    const save = this.load();
+    const previous = save.packs[packId];
+    save.packs[packId] = {
+      highestLevel: Math.max(previous?.highestLevel ?? 0, run.level),
+      run: { ...run },
+      levels: previous?.levels ?? {},
+      savedAt: new Date().toISOString()
+    };
+    this.store(save);
+  }
+
+  /**
+   * Keep the best score and best time for a completed level
+   * Score and time are tracked separately, so the two bests may come from different runs.
+   */
+  static recordLevelResult(packId: string, level: number, score: number, time: number): void {
+    const save = this.load();
+    const progress = save.packs[packId] ?? { highestLevel: 0, run: null, levels: {}, savedAt: '' };
+    const previous = progress.levels[level];
+    progress.levels[level] = {
+      bestScore: Math.max(previous?.bestScore ?? 0, score),
+      bestTime: previous ? Math.min(previous.bestTime, time) : time
+    };
+    progress.savedAt = new Date().toISOString();
+    save.packs[packId] = progress;
+    this.store(save);
+  }
+
+  /**
+   * Forget the run after a game over; the highest level reached is kept
+   */
+  static clearRun(packId: string): void {
+    const save = this.load();
+    const progress = save.packs[packId];
+    if (!progress) {
+      return;
+    }
+    progress.run = null;
+    progress.savedAt = new Date().toISOString();
+    this.store(save);
+  }
+
+  private static load(): SaveFile {
+    const empty: SaveFile = { version: this.SAVE_VERSION, packs: {} };
+    const stored = localStorage.getItem(this.STORAGE_KEY);
+    if (!stored) {
+      return empty;
+    }
+
+    try {
+      return this.migrate(JSON.parse(stored));
+    } catch (error) {
+      // A newer build's save is left for that build; this one plays without it
+      if (this.isNewerSave(stored)) {
+        Logger.warn(LogCategory.GAME_STATE, 'Ignoring campaign save from a newer build', error);
+        return empty;
+      }
+      Logger.warn(LogCategory.GAME_STATE, 'Discarding unreadable campaign save', error);
+      localStorage.removeItem(this.STORAGE_KEY);
+      return empty;
+    }
+  }
+
+  /**
+   * Upgrade a parsed save to SAVE_VERSION
+   * @throws Error if the save is malformed, from a newer build, or has no migration path
+   */
+  private static migrate(data: unknown): SaveFile {
+    if (!JsonGuards.isObject(data) || typeof data.version !== 'number' || !JsonGuards.isObject(data.packs)) {
+      throw new Error('Campaign save is missing its version or packs');
+    }
+    if (data.version > this.SAVE_VERSION) {
+      throw new Error(`Campaign save version ${data.version} is newer than this build (${this.SAVE_VERSION})`);
+    }
+
+    let save: StoredSave = { version: data.version, packs: data.packs };
+    while (save.version < this.SAVE_VERSION) {
+      const step = this.MIGRATIONS[save.version];
+      if (!step) {
+        throw new Error(`No migration from campaign save version ${save.version}`);
+      }
+      save = step(save);
+      Logger.info(LogCategory.GAME_STATE, `Migrated campaign save to version ${save.version}`);
+    }
+
+    const packs: Record<string, PackProgress> = {};
+    Object.entries(save.packs).forEach(([packId, progress]) => {
+      if (!this.isPackProgress(progress)) {
+        throw new Error(`Campaign save for pack "${packId}" is malformed`);
+      }
+      packs[packId] = progress;
+    });
+    return { version: save.version, packs };
+  }
+
+  private static isPackProgress(value: unknown): value is PackProgress {
+    if (!JsonGuards.isObject(value) || typeof value.highestLevel !== 'number' ||
+        typeof value.savedAt !== 'string' || !JsonGuards.isObject(value.levels)) {
+      return false;
+    }
+    const run = value.run;
+    if (run !== null && !(JsonGuards.isObject(run) && typeof run.level === 'number' &&
+        typeof run.score === 'number' && typeof run.lives === 'number')) {
+      return false;
+    }
+    return Object.values(value.levels).every(record => JsonGuards.isObject(record) &&
+      typeof record.bestScore === 'number' && typeof record.bestTime === 'number');
+  }
+
+  private static store(save: SaveFile): void {
+    if (this.isNewerSave(localStorage.getItem(this.STORAGE_KEY))) {
+      Logger.warn(LogCategory.GAME_STATE, 'Not overwriting campaign save from a newer build');
+      return;
+    }
+
+    try {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(save));
+    } catch (error) {
+      Logger.warn(LogCategory.GAME_STATE, 'Failed to store campaign progress', error);
+    }
+  }
+
+  private static isNewerSave(stored: string | null): boolean {
+    try {
+      const data: unknown = stored ? JSON.parse(stored) : null;
+      return JsonGuards.isObject(data) && typeof data.version === 'number' && data.version > this.SAVE_VERSION;
+    } catch {
+      return false;
+    }
+  }
+}
@@ -0,0 +1,155 @@
+import { JsonGuards } from '@/utils/JsonGuards';
+import { Logger, LogCategory } from '@/utils/Logger';
+import { SoundManager } from './SoundManager';
+
+export interface GameSettings {
+  sfxVolume: number;         // 0..1
+  musicVolume: number;       // 0..1
+  muted: boolean;
+  gameSpeed: number;         // Multiplier, one of GAME_SPEEDS
+  debugOverlay: boolean;     // Debug overlay shown when a level starts
+  fullscreen: boolean;
+}
+
+/**
+ * SettingsManager - player settings in localStorage
+ * BootScene applies the stored settings once per page load; SettingsScene
+ * saves and re-applies them on every change. Game speed and the debug
+ * overlay default are read by GameScene itself. The guard AI choice is
+ * stored by GuardBrainFactory, which already owned it.
+ */
+export class SettingsManager {
+  static readonly GAME_SPEEDS = [0.5, 0.75, 1, 1.25, 1.5];
+  private static readonly STORAGE_KEY = 'loderunner-settings';
+
+  static readonly DEFAULTS: GameSettings = {
+    sfxVolume: 0.8,
+    musicVolume: 0.7,
+    muted: false,
+    gameSpeed: 1,
+    debugOverlay: false,
+    fullscreen: false
+  };
+
+  // Fullscreen is only granted in response to a tap or key press
+  private static fullscreenPending = false;
+
+  static getSettings(): GameSettings {
+    const stored = localStorage.getItem(this.STORAGE_KEY);
+    if (!stored) {
+      return { ...this.DEFAULTS };
+    }
+
+    try {
+      return this.validate(JSON.parse(stored));
+    } catch (error) {
+      Logger.warn(LogCategory.GAME_STATE, 'Discarding unreadable settings', error);
+      localStorage.removeItem(this.STORAGE_KEY);
+      return { ...this.DEFAULTS };
+    }
+  }
+
+  static saveSettings(settings: GameSettings): void {
+    try {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(settings));
+    } catch (error) {
+      Logger.warn(LogCategory.GAME_STATE, 'Failed to store settings', error);
+    }
+  }
+
+  /**
+   * Push the audio settings to the sound system
+   */
+  static applyAudio(scene: Phaser.Scene, settings: GameSettings = this.getSettings()): void {
+    const soundManager = SoundManager.getInstance(scene);
+    soundManager.setSFXVolume(settings.sfxVolume);
+    soundManager.setMusicVolume(settings.musicVolume);
+    scene.sound.mute = settings.muted;
+  }
+
+  /**
+   * Apply every stored setting at boot and keep the fullscreen setting in
+   * step with the browser (leaving fullscreen with the browser's own key
+   * turns the setting off)
+   */
+  static applyAtBoot(scene: Phaser.Scene): void {
+    const settings = this.getSettings();
+    this.applyAudio(scene, settings);
+
+    const scale = scene.scale;
+    scale.on(Phaser.Scale.Events.ENTER_FULLSCREEN, () => this.storeFullscreen(true));
+    scale.on(Phaser.Scale.Events.LEAVE_FULLSCREEN, () => this.storeFullscreen(false));
+
+    if (settings.fullscreen && !scale.isFullscreen) {
+      this.requestFullscreenOnNextGesture(scale);
+    }
+  }
+
+  /**
+   * Enter or leave fullscreen now; call from an input handler
+   */
+  static setFullscreen(scene: Phaser.Scene, fullscreen: boolean): void {
+    this.fullscreenPending = false;
+    if (fullscreen) {
+      scene.scale.startFullscreen();
+    } else {
+      scene.scale.stopFullscreen();
+    }
+    this.storeFullscreen(fullscreen);
+  }
+
+  static getSpeedLabel(speed: number): string {
+    return `${Math.round(speed * 100)}%`;
+  }
+
+  private static requestFullscreenOnNextGesture(scale: Phaser.Scale.ScaleManager): void {
+    this.fullscreenPending = true;
+    const enter = () => {
+      window.removeEventListener('pointerup', enter);
+      window.removeEventListener('keydown', enter);
+      if (this.fullscreenPending && !scale.isFullscreen) {
+        scale.startFullscreen();
+      }
+      this.fullscreenPending = false;
+    };
+    window.addEventListener('pointerup', enter);
+    window.addEventListener('keydown', enter);
+  }
+
+  private static storeFullscreen(fullscreen: boolean): void {
+    const settings = this.getSettings();
+    if (settings.fullscreen !== fullscreen) {
+      this.saveSettings({ ...settings, fullscreen });
+    }
+  }
+
+  /**
+   * Check parsed settings; fields missing from older saves get their defaults
+   * @throws Error if a field has the wrong type or is out of range
+   */
+  private static validate(data: unknown): GameSettings {
+    if (!JsonGuards.isObject(data)) {
+      throw new Error('Settings are not an object');
+    }
+
+    const settings = { ...this.DEFAULTS, ...data };
+    const isVolume = (value: unknown) => typeof value === 'number' && value >= 0 && value <= 1;
+    if (!isVolume(settings.sfxVolume) || !isVolume(settings.musicVolume)) {
+      throw new Error('Volume must be between 0 and 1');
+    }
+    if (!this.GAME_SPEEDS.includes(settings.gameSpeed)) {
+      throw new Error(`Unknown game speed ${settings.gameSpeed}`);
+    }
+    if (typeof settings.muted !== 'boolean' || typeof settings.debugOverlay !== 'boolean' || typeof settings.fullscreen !== 'boolean') {
+      throw new Error('Settings flags must be true or false');
+    }
+    return {
+      sfxVolume: settings.sfxVolume,
+      musicVolume: settings.musicVolume,
+      muted: settings.muted,
+      gameSpeed: settings.gameSpeed,
+      debugOverlay: settings.debugOverlay,
+      fullscreen: settings.fullscreen
+    };
+  }
+}
@@ -1,3 +1,5 @@
+import { SeededRandom } from '@/utils/SeededRandom';
+
 export class SoundManager {
   private static instance: SoundManager;
   private scene: Phaser.Scene;
@@ -42,10 +44,10 @@ export class SoundManager {
     }
   }
 
-  // Play level completion music (random selection)
-  playLevelComplete(): void {
+  // Play level completion music (random selection from the scene's seeded RNG)
+  playLevelComplete(rng: SeededRandom): void {
     const completionSounds = ['goldFinish1', 'goldFinish2', 'goldFinish3'];
-    const randomSound = completionSounds[Math.floor(Math.random() * completionSounds.length)];
+    const randomSound = rng.pick(completionSounds);
     this.playSFX(randomSound);
   }
 
@@ -0,0 +1,145 @@
+import { Scene } from 'phaser';
+import { GAME_CONFIG } from '@/config/GameConfig';
+
+export type TouchButton = 'left' | 'right' | 'up' | 'down' | 'digLeft' | 'digRight' | 'pause';
+
+interface ButtonLayout {
+  button: TouchButton;
+  label: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// The overlay lives in the UI band under the playfield
+const BAND_TOP = GAME_CONFIG.levelHeight * GAME_CONFIG.tileSize;
+const BAND_HEIGHT = GAME_CONFIG.height - BAND_TOP;  // 88px
+const MARGIN = 4;
+const FULL_HEIGHT = BAND_HEIGHT - MARGIN * 2;
+const HALF_HEIGHT = (FULL_HEIGHT - MARGIN) / 2;
+
+// D-pad on the left (up/down share the middle column), dig buttons on the right
+const LAYOUT: ButtonLayout[] = [
+  { button: 'left', label: '◀', x: 6, y: BAND_TOP + MARGIN, width: 66, height: FULL_HEIGHT },
+  { button: 'up', label: '▲', x: 76, y: BAND_TOP + MARGIN, width: 66, height: HALF_HEIGHT },
+  { button: 'down', label: '▼', x: 76, y: BAND_TOP + MARGIN * 2 + HALF_HEIGHT, width: 66, height: HALF_HEIGHT },
+  { button: 'right', label: '▶', x: 146, y: BAND_TOP + MARGIN, width: 66, height: FULL_HEIGHT },
+  { button: 'pause', label: 'II', x: GAME_CONFIG.width - 242, y: BAND_TOP + MARGIN, width: 48, height: FULL_HEIGHT },
+  { button: 'digLeft', label: 'DIG\n◣', x: GAME_CONFIG.width - 188, y: BAND_TOP + MARGIN, width: 88, height: FULL_HEIGHT },
+  { button: 'digRight', label: 'DIG\n◢', x: GAME_CONFIG.width - 94, y: BAND_TOP + MARGIN, width: 88, height: FULL_HEIGHT }
+];
+
+const MIN_POINTERS = 3; // Mouse plus two fingers: one on the D-pad, one on a dig button
+const IDLE_ALPHA = 0.35;
+const PRESSED_ALPHA = 0.75;
+
+/**
+ * TouchControls - on-screen D-pad, dig and pause buttons for touch screens
+ * Buttons track every finger on them, so a thumb can slide between D-pad
+ * directions and the other hand can dig at the same time. InputManager
+ * reads the state through isDown() and consumePress().
+ */
+export class TouchControls {
+  // Part of the UI band the buttons leave free for the HUD
+  static readonly HUD_LEFT = 220;
+  static readonly HUD_RIGHT = GAME_CONFIG.width - 248;
+
+  private scene: Scene;
+  private pointersOnButton: Map<TouchButton, Set<number>> = new Map();
+  private pendingPresses: Set<TouchButton> = new Set();
+  private buttonShapes: Map<TouchButton, Phaser.GameObjects.Rectangle> = new Map();
+  private objects: Phaser.GameObjects.GameObject[] = [];
+
+  /**
+   * True when the device reports a touch screen
+   */
+  static isSupported(scene: Scene): boolean {
+    return scene.sys.game.device.input.touch;
+  }
+
+  constructor(scene: Scene) {
+    this.scene = scene;
+
+    // Pointers belong to the whole game, so only top them up once
+    const missingPointers = MIN_POINTERS - this.scene.input.manager.pointersTotal;
+    if (missingPointers > 0) {
+      this.scene.input.addPointer(missingPointers);
+    }
+
+    LAYOUT.forEach(layout => this.createButton(layout));
+
+    // A finger lifted off-screen never sends pointerout to the button it left
+    this.scene.input.on('pointerup', this.releasePointer, this);
+  }
+
+  isDown(button: TouchButton): boolean {
+    return (this.pointersOnButton.get(button)?.size ?? 0) > 0;
+  }
+
+  /**
+   * True once per tap, like Keyboard.JustDown
+   */
+  consumePress(button: TouchButton): boolean {
+    return this.pendingPresses.delete(button);
+  }
+
+  destroy(): void {
+    this.scene.input.off('pointerup', this.releasePointer, this);
+    this.objects.forEach(object => object.destroy());
+    this.objects = [];
+    this.buttonShapes.clear();
+    this.pointersOnButton.clear();
+    this.pendingPresses.clear();
+  }
+
+  private createButton(layout: ButtonLayout): void {
+    const shape = this.scene.add.rectangle(layout.x, layout.y, layout.width, layout.height, 0xffffff, IDLE_ALPHA)
+      .setOrigin(0, 0)
+      .setStrokeStyle(2, 0xffffff, 0.6)
+      .setScrollFactor(0)
+      .setDepth(3000)
+      .setInteractive();
+
+    const label = this.scene.add.text(layout.x + layout.width / 2, layout.y + layout.height / 2, layout.label, {
+      fontSize: '20px',
+      color: '#000000',
+      fontFamily: 'Arial, sans-serif',
+      align: 'center'
+    }).setOrigin(0.5).setScrollFactor(0).setDepth(3001);
+
+    shape.on('pointerdown', (pointer: Phaser.Input.Pointer) => this.press(layout.button, pointer));
+    shape.on('pointerover', (pointer: Phaser.Input.Pointer) => {
+      if (pointer.isDown) {
+        this.press(layout.button, pointer); // Finger slid onto the button
+      }
+    });
+    shape.on('pointerout', (pointer: Phaser.Input.Pointer) => this.release(layout.button, pointer.id));
+    shape.on('pointerup', (pointer: Phaser.Input.Pointer) => this.release(layout.button, pointer.id));
+
+    this.buttonShapes.set(layout.button, shape);
+    this.pointersOnButton.set(layout.button, new Set());
+    this.objects.push(shape, label);
+  }
+
+  private press(button: TouchButton, pointer: Phaser.Input.Pointer): void {
+    const pointers = this.pointersOnButton.get(button)!;
+    if (pointers.size === 0) {
+      this.pendingPresses.add(button);
+    }
+    pointers.add(pointer.id);
+    this.buttonShapes.get(button)?.setFillStyle(0xffffff, PRESSED_ALPHA);
+  }
+
+  private release(button: TouchButton, pointerId: number): void {
+    const pointers = this.pointersOnButton.get(button);
+    if (!pointers?.delete(pointerId) || pointers.size > 0) {
+      return;
+    }
+    this.buttonShapes.get(button)?.setFillStyle(0xffffff, IDLE_ALPHA);
+  }
+
+  private releasePointer(pointer: Phaser.Input.Pointer): void {
+    this.pointersOnButton.forEach((_pointers, button) => this.release(button, pointer.id));
+  }
+}
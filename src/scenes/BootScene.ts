@@ -1,5 +1,6 @@
 import { Scene } from 'phaser';
 import { SCENE_KEYS } from '@/config/GameConfig';
+import { SettingsManager } from '@/managers/SettingsManager';
 
 export class BootScene extends Scene {
   constructor() {
@@ -12,6 +13,7 @@ export class BootScene extends Scene {
 
   create(): void {
     this.cameras.main.setBackgroundColor('#000000');
+    SettingsManager.applyAtBoot(this);
     
     this.add.text(
       this.cameras.main.width / 2,
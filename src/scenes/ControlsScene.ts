@@ -0,0 +1,314 @@
+import { Scene } from 'phaser';
+import { SCENE_KEYS, GAMEPAD_BUTTONS } from '@/config/GameConfig';
+import { InputManager } from '@/managers/InputManager';
+import {
+  KeyBindingManager, KeyBindings, ControlAction, CONTROL_ACTIONS, CONTROL_ACTION_LABELS
+} from '@/managers/KeyBindingManager';
+import { Logger, LogCategory } from '@/utils/Logger';
+
+const ROWS_TOP = 120;
+const ROW_SPACING = 36;
+const LABEL_X = 330;
+const SLOT_X = [480, 640];
+
+/**
+ * ControlsScene - rebind the keyboard controls
+ * The first row cycles the built-in presets; every action row has a primary
+ * and an alternate key. ENTER waits for the next key press and binds it to
+ * the highlighted slot. A key another action already uses swaps places with
+ * the key it replaces. Every change is saved at once and applies from the
+ * next game started.
+ */
+export class ControlsScene extends Scene {
+  private bindings!: KeyBindings;
+  private selectedRow = 0;      // 0 is the preset row, then one row per action
+  private selectedSlot = 0;
+  private capturing = false;
+
+  private presetText!: Phaser.GameObjects.Text;
+  private actionTexts: Phaser.GameObjects.Text[] = [];
+  private slotTexts: Phaser.GameObjects.Text[][] = [];
+  private messageText!: Phaser.GameObjects.Text;
+
+  private logger = Logger.createCategoryLogger(LogCategory.UI);
+
+  constructor() {
+    super({ key: SCENE_KEYS.CONTROLS });
+  }
+
+  create(): void {
+    this.cameras.main.setBackgroundColor('#001122');
+
+    this.bindings = KeyBindingManager.getBindings();
+    this.selectedRow = 0;
+    this.selectedSlot = 0;
+    this.capturing = false;
+    this.actionTexts = [];
+    this.slotTexts = [];
+
+    this.createUI();
+    this.setupInput();
+    this.refresh();
+    this.showConflicts();
+  }
+
+  private createUI(): void {
+    const centerX = this.cameras.main.width / 2;
+
+    this.add.text(centerX, 36, 'CONTROLS', {
+      fontSize: '40px',
+      color: '#ffff00',
+      fontFamily: 'Arial, sans-serif',
+      stroke: '#000000',
+      strokeThickness: 4
+    }).setOrigin(0.5);
+
+    this.add.text(centerX, 80, 'Keyboard keys; gamepad and touch controls are fixed', {
+      fontSize: '18px',
+      color: '#cccccc',
+      fontFamily: 'Arial, sans-serif'
+    }).setOrigin(0.5);
+
+    this.presetText = this.add.text(centerX, ROWS_TOP, '', {
+      fontSize: '22px',
+      color: '#ffffff',
+      fontFamily: 'Arial, sans-serif'
+    }).setOrigin(0.5);
+    this.presetText.setInteractive({ useHandCursor: true }).on('pointerdown', () => {
+      this.selectedRow = 0;
+      this.cyclePreset(1);
+    });
+
+    CONTROL_ACTIONS.forEach((action, index) => {
+      const y = ROWS_TOP + (index + 1) * ROW_SPACING;
+
+      this.actionTexts.push(this.add.text(LABEL_X, y, CONTROL_ACTION_LABELS[action], {
+        fontSize: '22px',
+        color: '#ffffff',
+        fontFamily: 'Arial, sans-serif'
+      }).setOrigin(1, 0.5));
+
+      this.slotTexts.push(SLOT_X.map((x, slot) => {
+        const text = this.add.text(x, y, '', {
+          fontSize: '22px',
+          color: '#ffffff',
+          fontFamily: 'monospace'
+        }).setOrigin(0.5);
+
+        // Tapping a slot selects it and waits for a key
+        text.setInteractive({ useHandCursor: true }).on('pointerdown', () => {
+          this.selectedRow = index + 1;
+          this.selectedSlot = slot;
+          this.startCapture();
+        });
+        return text;
+      }));
+    });
+
+    this.messageText = this.add.text(centerX, ROWS_TOP + (CONTROL_ACTIONS.length + 1) * ROW_SPACING + 20, '', {
+      fontSize: '20px',
+      color: '#ffffff',
+      fontFamily: 'Arial, sans-serif',
+      align: 'center'
+    }).setOrigin(0.5);
+
+    this.add.text(centerX, this.cameras.main.height - 22,
+      'ARROWS - Choose   ENTER - Rebind   BACKSPACE - Clear   ESC - Menu', {
+      fontSize: '18px',
+      color: '#cccccc',
+      fontFamily: 'Arial, sans-serif'
+    }).setOrigin(0.5);
+  }
+
+  private setupInput(): void {
+    // Key-specific handlers run before the catch-all 'keydown' that captures keys,
+    // so they all stand aside while a capture is waiting
+    this.input.keyboard!.on('keydown-UP', () => this.moveRow(-1));
+    this.input.keyboard!.on('keydown-DOWN', () => this.moveRow(1));
+    this.input.keyboard!.on('keydown-LEFT', () => this.moveColumn(-1));
+    this.input.keyboard!.on('keydown-RIGHT', () => this.moveColumn(1));
+    this.input.keyboard!.on('keydown-ENTER', (event?: KeyboardEvent) => this.confirm(event));
+    this.input.keyboard!.on('keydown-SPACE', (event?: KeyboardEvent) => this.confirm(event));
+    this.input.keyboard!.on('keydown-BACKSPACE', () => this.clearSlot());
+    this.input.keyboard!.on('keydown-DELETE', () => this.clearSlot());
+
+    this.input.keyboard!.on('keydown-ESC', (event?: KeyboardEvent) => {
+      if (!this.capturing) {
+        this.scene.start(SCENE_KEYS.MENU);
+      } else if (!event) {
+        this.cancelCapture(); // Pad B; a real ESC press is captured like any key
+      }
+    });
+
+    this.input.keyboard!.on('keydown', (event: KeyboardEvent) => {
+      if (this.capturing) {
+        this.captureKey(event.keyCode);
+      }
+    });
+
+    InputManager.bindMenuGamepad(this, {
+      [GAMEPAD_BUTTONS.A]: 'ENTER',
+      [GAMEPAD_BUTTONS.X]: 'BACKSPACE',
+      [GAMEPAD_BUTTONS.B]: 'ESC'
+    });
+  }
+
+  private moveRow(direction: number): void {
+    if (this.capturing) {
+      return;
+    }
+    this.selectedRow = Math.max(0, Math.min(CONTROL_ACTIONS.length, this.selectedRow + direction));
+    this.refresh();
+  }
+
+  // LEFT/RIGHT pick the slot, or cycle presets on the preset row
+  private moveColumn(direction: number): void {
+    if (this.capturing) {
+      return;
+    }
+    if (this.selectedRow === 0) {
+      this.cyclePreset(direction);
+      return;
+    }
+    this.selectedSlot = Math.max(0, Math.min(KeyBindingManager.BINDING_SLOTS - 1, this.selectedSlot + direction));
+    this.refresh();
+  }
+
+  private confirm(event?: KeyboardEvent): void {
+    if (this.capturing) {
+      return;
+    }
+    if (this.selectedRow === 0) {
+      this.cyclePreset(1);
+      return;
+    }
+    // Keep the catch-all handler from capturing the key that opened the capture
+    event?.stopImmediatePropagation();
+    this.startCapture();
+  }
+
+  private getSelectedAction(): ControlAction | null {
+    return this.selectedRow > 0 ? CONTROL_ACTIONS[this.selectedRow - 1] : null;
+  }
+
+  private startCapture(): void {
+    const action = this.getSelectedAction();
+    if (!action) {
+      return;
+    }
+    this.capturing = true;
+    this.messageText.setColor('#ffff00').setText(`Press a key for ${CONTROL_ACTION_LABELS[action]}`);
+    this.refresh();
+  }
+
+  private cancelCapture(): void {
+    this.capturing = false;
+    this.messageText.setText('');
+    this.refresh();
+  }
+
+  private captureKey(keyCode: number): void {
+    const action = this.getSelectedAction();
+    const key = KeyBindingManager.getKeyName(keyCode);
+    this.capturing = false;
+
+    if (!action) {
+      return;
+    }
+    if (!key) {
+      this.messageText.setColor('#ff6666').setText('That key cannot be bound');
+      this.refresh();
+      return;
+    }
+    if (KeyBindingManager.isReserved(key)) {
+      this.messageText.setColor('#ff6666').setText(`${KeyBindingManager.formatKey(key)} is kept for save states and replays`);
+      this.refresh();
+      return;
+    }
+
+    const taken = KeyBindingManager.assign(this.bindings, action, this.selectedSlot, key);
+    this.save();
+    if (taken) {
+      this.messageText.setColor('#ffff00').setText(
+        `${KeyBindingManager.formatKey(key)} was bound to ${CONTROL_ACTION_LABELS[taken]} - swapped keys`);
+    } else {
+      this.messageText.setText('');
+      this.showConflicts();
+    }
+    this.refresh();
+  }
+
+  private clearSlot(): void {
+    const action = this.getSelectedAction();
+    if (this.capturing || !action) {
+      return;
+    }
+    KeyBindingManager.assign(this.bindings, action, this.selectedSlot, null);
+    this.save();
+    this.messageText.setText('');
+    this.showConflicts();
+    this.refresh();
+  }
+
+  private cyclePreset(direction: number): void {
+    const presets = KeyBindingManager.PRESETS;
+    const current = presets.findIndex(preset => preset.id === KeyBindingManager.findPreset(this.bindings));
+    // From custom bindings, RIGHT starts at the first preset and LEFT at the last
+    const next = current === -1
+      ? (direction > 0 ? 0 : presets.length - 1)
+      : (current + direction + presets.length) % presets.length;
+
+    this.bindings = KeyBindingManager.getPresetBindings(presets[next].id);
+    this.save();
+    this.messageText.setText('');
+    this.refresh();
+  }
+
+  private save(): void {
+    KeyBindingManager.saveBindings(this.bindings);
+    this.logger.debug('Key bindings saved');
+  }
+
+  /**
+   * Warn about keys shared by several actions and actions left without a key
+   */
+  private showConflicts(): void {
+    const conflicts = KeyBindingManager.findConflicts(this.bindings);
+    const unbound = CONTROL_ACTIONS.filter(action => KeyBindingManager.getKeys(this.bindings, action).length === 0);
+
+    const warnings = [
+      ...conflicts.map(conflict => `${KeyBindingManager.formatKey(conflict.key)} is bound to ` +
+        conflict.actions.map(action => CONTROL_ACTION_LABELS[action]).join(' and ')),
+      ...unbound.map(action => `${CONTROL_ACTION_LABELS[action]} has no key`)
+    ];
+    if (warnings.length > 0) {
+      this.messageText.setColor('#ff6666').setText(warnings.slice(0, 2).join('\n'));
+    }
+  }
+
+  private refresh(): void {
+    const presetId = KeyBindingManager.findPreset(this.bindings);
+    const presetName = KeyBindingManager.PRESETS.find(preset => preset.id === presetId)?.name ?? 'CUSTOM';
+    this.presetText.setText(`PRESET: < ${presetName} >`);
+    this.presetText.setColor(this.selectedRow === 0 ? '#ffff00' : '#ffffff');
+
+    const conflictKeys = new Set(KeyBindingManager.findConflicts(this.bindings).map(conflict => conflict.key));
+
+    CONTROL_ACTIONS.forEach((action, index) => {
+      const rowSelected = this.selectedRow === index + 1;
+      this.actionTexts[index].setColor(rowSelected ? '#ffff00' : '#ffffff');
+
+      this.slotTexts[index].forEach((text, slot) => {
+        const key = this.bindings[action][slot];
+        const selected = rowSelected && this.selectedSlot === slot;
+        text.setText(selected && this.capturing ? '[ ? ]' : `[${KeyBindingManager.formatKey(key)}]`);
+
+        if (key && conflictKeys.has(key)) {
+          text.setColor('#ff6666');
+        } else {
+          text.setColor(selected ? '#ffff00' : '#ffffff');
+        }
+      });
+    });
+  }
+}
@@ -0,0 +1,161 @@
+import { Scene } from 'phaser';
+import { SCENE_KEYS, GAMEPAD_BUTTONS } from '@/config/GameConfig';
+import { Logger, LogCategory } from '@/utils/Logger';
+import { GameScene } from '@/scenes/GameScene';
+import { InputManager } from '@/managers/InputManager';
+import { BugReport, BugReportManager } from '@/managers/BugReportManager';
+
+export interface CrashSceneData {
+  message: string;
+  stack?: string;
+  report: BugReport | null;   // null when building the report failed too
+}
+
+const STACK_LINES = 8;
+
+/**
+ * CrashScene - overlay shown when GameScene hits an error
+ * GameScene freezes itself and launches this scene with the error and a bug
+ * report of the moment it happened. The report can be downloaded and loaded
+ * back from the main menu (B) to play the same moment again.
+ */
+export class CrashScene extends Scene {
+  private crash!: CrashSceneData;
+  private selectedOption = 0;
+  private menuOptions: Phaser.GameObjects.Text[] = [];
+  private statusText!: Phaser.GameObjects.Text;
+
+  private logger = Logger.createCategoryLogger(LogCategory.UI);
+
+  constructor() {
+    super({ key: SCENE_KEYS.CRASH });
+  }
+
+  init(data: CrashSceneData): void {
+    this.crash = data;
+  }
+
+  create(): void {
+    const { width, height } = this.cameras.main;
+    this.add.rectangle(0, 0, width, height, 0x000000, 0.85).setOrigin(0, 0);
+
+    this.selectedOption = 0;
+    this.menuOptions = [];
+    this.createUI();
+    this.setupInput();
+  }
+
+  private createUI(): void {
+    const centerX = this.cameras.main.width / 2;
+
+    this.add.text(centerX, 60, 'SOMETHING WENT WRONG', {
+      fontSize: '40px',
+      color: '#ff6666',
+      fontFamily: 'Arial, sans-serif',
+      stroke: '#000000',
+      strokeThickness: 4
+    }).setOrigin(0.5);
+
+    this.add.text(centerX, 110, this.crash.message, {
+      fontSize: '20px',
+      color: '#ffffff',
+      fontFamily: 'monospace',
+      align: 'center',
+      wordWrap: { width: this.cameras.main.width - 80 }
+    }).setOrigin(0.5, 0);
+
+    // Skip the first stack line; it repeats the message
+    const stack = this.crash.stack?.split('\n').slice(1, STACK_LINES + 1).map(line => line.trim()) ?? [];
+    this.add.text(40, 170, stack.join('\n'), {
+      fontSize: '13px',
+      color: '#cccccc',
+      fontFamily: 'monospace',
+      wordWrap: { width: this.cameras.main.width - 80 }
+    });
+
+    const labels = ['DOWNLOAD BUG REPORT', 'RESTART LEVEL', 'QUIT TO MENU'];
+    labels.forEach((label, index) => {
+      const text = this.add.text(centerX, 370 + (index * 45), label, {
+        fontSize: '28px',
+        color: '#ffffff',
+        fontFamily: 'Arial, sans-serif'
+      }).setOrigin(0.5);
+      text.setInteractive({ useHandCursor: true }).on('pointerdown', () => {
+        this.selectedOption = index;
+        this.updateMenuHighlight();
+        this.selectOption();
+      });
+      this.menuOptions.push(text);
+    });
+
+    this.statusText = this.add.text(centerX, this.cameras.main.height - 40, '', {
+      fontSize: '18px',
+      color: '#cccccc',
+      fontFamily: 'Arial, sans-serif',
+      align: 'center'
+    }).setOrigin(0.5);
+    if (!this.crash.report) {
+      this.statusText.setColor('#ff6666').setText('No bug report could be made for this error');
+    }
+
+    this.updateMenuHighlight();
+  }
+
+  private setupInput(): void {
+    this.input.keyboard!.on('keydown-UP', () => {
+      this.selectedOption = Math.max(0, this.selectedOption - 1);
+      this.updateMenuHighlight();
+    });
+
+    this.input.keyboard!.on('keydown-DOWN', () => {
+      this.selectedOption = Math.min(this.menuOptions.length - 1, this.selectedOption + 1);
+      this.updateMenuHighlight();
+    });
+
+    this.input.keyboard!.on('keydown-ENTER', () => this.selectOption());
+    this.input.keyboard!.on('keydown-SPACE', () => this.selectOption());
+
+    InputManager.bindMenuGamepad(this, {
+      [GAMEPAD_BUTTONS.A]: 'ENTER'
+    });
+  }
+
+  private updateMenuHighlight(): void {
+    this.menuOptions.forEach((option, index) => {
+      const disabled = index === 0 && !this.crash.report;
+      if (index === this.selectedOption) {
+        option.setColor(disabled ? '#999966' : '#ffff00');
+        option.setScale(1.1);
+      } else {
+        option.setColor(disabled ? '#666666' : '#ffffff');
+        option.setScale(1);
+      }
+    });
+  }
+
+  private selectOption(): void {
+    const gameScene = this.getGameScene();
+
+    switch (this.selectedOption) {
+      case 0: // DOWNLOAD BUG REPORT
+        if (this.crash.report) {
+          BugReportManager.download(this.crash.report);
+          this.statusText.setColor('#cccccc').setText('Bug report saved - load it from the main menu with B');
+          this.logger.info('Bug report downloaded');
+        }
+        break;
+      case 1: // RESTART LEVEL
+        this.scene.stop();
+        gameScene.restartAfterCrash();
+        break;
+      case 2: // QUIT TO MENU
+        this.scene.stop();
+        gameScene.quitToMenu();
+        break;
+    }
+  }
+
+  private getGameScene(): GameScene {
+    return this.scene.get(SCENE_KEYS.GAME) as GameScene;
+  }
+}
@@ -0,0 +1,491 @@
+import { Scene } from 'phaser';
+import { SCENE_KEYS, GAME_CONFIG } from '@/config/GameConfig';
+import { LevelPackManager } from '@/managers/LevelPackManager';
+import { Logger, LogCategory } from '@/utils/Logger';
+import { LevelValidator } from '@/utils/LevelValidator';
+
+interface PaletteEntry {
+  glyph: string;
+  label: string;
+  texture: string;
+  frame: string;
+  alpha?: number;
+}
+
+export interface EditorSceneData {
+  playTestResult?: 'complete' | 'died' | 'quit';
+}
+
+// Every glyph AssetManager.parseLevelData understands, plus the eraser
+const PALETTE: PaletteEntry[] = [
+  { glyph: '#', label: 'Brick', texture: 'tiles', frame: 'brick' },
+  { glyph: '@', label: 'Solid', texture: 'tiles', frame: 'solid' },
+  { glyph: 'H', label: 'Ladder', texture: 'tiles', frame: 'ladder' },
+  { glyph: '-', label: 'Rope', texture: 'tiles', frame: 'rope' },
+  { glyph: 'X', label: 'Trap', texture: 'tiles', frame: 'trap' },
+  { glyph: 'S', label: 'Exit ladder', texture: 'tiles', frame: 'hladder', alpha: 0.6 },
+  { glyph: '$', label: 'Gold', texture: 'tiles', frame: 'gold' },
+  { glyph: '0', label: 'Guard', texture: 'guard', frame: 'guard_00' },
+  { glyph: '&', label: 'Player', texture: 'runner', frame: 'runner_00' },
+  { glyph: ' ', label: 'Erase', texture: 'tiles', frame: 'empty' }
+];
+
+const MAX_UNDO_STEPS = 100;
+const MAX_VALIDATION_LINES = 4;
+
+/**
+ * EditorScene - paints levels on the 28x16 grid
+ * Levels are edited as the same string rows classic.json uses, with a
+ * palette, undo/redo, a validation panel and play testing in GameScene.
+ */
+export class EditorScene extends Scene {
+  private static readonly DRAFT_STORAGE_KEY = 'loderunner-editor-draft';
+
+  private rows: string[] = [];
+  private cellSprites: (Phaser.GameObjects.Sprite | null)[][] = [];
+  private selectedIndex = 0;
+  private undoStack: string[][] = [];
+  private redoStack: string[][] = [];
+  private strokeStart: string[] | null = null;
+  private playTestResult: EditorSceneData['playTestResult'];
+
+  private paletteSlots: Phaser.GameObjects.Rectangle[] = [];
+  private selectedLabel!: Phaser.GameObjects.Text;
+  private validationText!: Phaser.GameObjects.Text;
+  private messageText!: Phaser.GameObjects.Text;
+  private cursorBox!: Phaser.GameObjects.Rectangle;
+
+  private logger = Logger.createCategoryLogger(LogCategory.UI);
+
+  constructor() {
+    super({ key: SCENE_KEYS.EDITOR });
+  }
+
+  init(data: EditorSceneData): void {
+    this.playTestResult = data?.playTestResult;
+    this.cellSprites = [];
+    this.paletteSlots = [];
+    this.undoStack = [];
+    this.redoStack = [];
+    this.strokeStart = null;
+  }
+
+  create(): void {
+    this.cameras.main.setBackgroundColor('#000000');
+    this.input.mouse?.disableContextMenu();
+
+    this.rows = this.loadDraft();
+    this.createGrid();
+    this.createPalette();
+    this.createPanel();
+    this.setupInput();
+
+    this.renderAllCells();
+    this.refreshValidation();
+
+    if (this.playTestResult) {
+      const messages = { complete: 'Play test: level completed', died: 'Play test: player died', quit: 'Play test ended' };
+      this.showMessage(messages[this.playTestResult]);
+    }
+  }
+
+  // === Level data ===
+
+  static createBlankLevel(): string[] {
+    const rows: string[] = [];
+    for (let y = 0; y < GAME_CONFIG.levelHeight; y++) {
+      const fill = y === GAME_CONFIG.levelHeight - 1 ? '@' : ' ';
+      rows.push(fill.repeat(GAME_CONFIG.levelWidth));
+    }
+    return rows;
+  }
+
+  private loadDraft(): string[] {
+    const fromRegistry: string[] | undefined = this.registry.get('editorLevel');
+    if (fromRegistry) {
+      return [...fromRegistry];
+    }
+
+    try {
+      const stored = localStorage.getItem(EditorScene.DRAFT_STORAGE_KEY);
+      const parsed: unknown = stored ? JSON.parse(stored) : null;
+      if (Array.isArray(parsed) && parsed.length === GAME_CONFIG.levelHeight &&
+          parsed.every(row => typeof row === 'string' && row.length === GAME_CONFIG.levelWidth)) {
+        return parsed;
+      }
+    } catch (error) {
+      this.logger.warn('Ignoring unreadable editor draft', error);
+    }
+
+    return EditorScene.createBlankLevel();
+  }
+
+  private saveDraft(): void {
+    this.registry.set('editorLevel', [...this.rows]);
+    try {
+      localStorage.setItem(EditorScene.DRAFT_STORAGE_KEY, JSON.stringify(this.rows));
+    } catch {
+      // Storage unavailable - the draft still lives in the registry for this session
+    }
+  }
+
+  private getGlyph(gridX: number, gridY: number): string {
+    return this.rows[gridY][gridX];
+  }
+
+  private setGlyph(gridX: number, gridY: number, glyph: string): boolean {
+    if (this.getGlyph(gridX, gridY) === glyph) {
+      return false;
+    }
+
+    // Only one player start: moving it clears the old one
+    if (glyph === '&') {
+      this.rows.forEach((row, y) => {
+        const x = row.indexOf('&');
+        if (x !== -1) {
+          this.writeGlyph(x, y, ' ');
+        }
+      });
+    }
+
+    this.writeGlyph(gridX, gridY, glyph);
+    return true;
+  }
+
+  private writeGlyph(gridX: number, gridY: number, glyph: string): void {
+    const row = this.rows[gridY];
+    this.rows[gridY] = row.substring(0, gridX) + glyph + row.substring(gridX + 1);
+    this.renderCell(gridX, gridY);
+  }
+
+  // === Undo / redo ===
+
+  private beginStroke(): void {
+    this.strokeStart = [...this.rows];
+  }
+
+  private endStroke(): void {
+    if (!this.strokeStart) {
+      return;
+    }
+
+    if (this.strokeStart.some((row, y) => row !== this.rows[y])) {
+      this.undoStack.push(this.strokeStart);
+      if (this.undoStack.length > MAX_UNDO_STEPS) {
+        this.undoStack.shift();
+      }
+      this.redoStack = [];
+      this.saveDraft();
+      this.refreshValidation();
+    }
+    this.strokeStart = null;
+  }
+
+  private applyEdit(rows: string[]): void {
+    this.undoStack.push([...this.rows]);
+    this.redoStack = [];
+    this.replaceRows(rows);
+  }
+
+  private undo(): void {
+    const previous = this.undoStack.pop();
+    if (!previous) {
+      this.showMessage('Nothing to undo');
+      return;
+    }
+    this.redoStack.push([...this.rows]);
+    this.replaceRows(previous);
+  }
+
+  private redo(): void {
+    const next = this.redoStack.pop();
+    if (!next) {
+      this.showMessage('Nothing to redo');
+      return;
+    }
+    this.undoStack.push([...this.rows]);
+    this.replaceRows(next);
+  }
+
+  private replaceRows(rows: string[]): void {
+    this.rows = [...rows];
+    this.renderAllCells();
+    this.saveDraft();
+    this.refreshValidation();
+  }
+
+  // === Validation ===
+
+  private refreshValidation(): void {
+    const { valid, issues } = LevelValidator.validate(this.rows);
+    if (issues.length === 0) {
+      this.validationText.setColor('#00ff00').setText('Level OK');
+      return;
+    }
+
+    const lines = issues.slice(0, MAX_VALIDATION_LINES).map(issue => issue.message);
+    if (issues.length > MAX_VALIDATION_LINES) {
+      lines.push(`+${issues.length - MAX_VALIDATION_LINES} more`);
+    }
+    this.validationText.setColor(valid ? '#ffff66' : '#ff6666').setText(lines.join('\n'));
+  }
+
+  // === Rendering ===
+
+  private createGrid(): void {
+    const width = GAME_CONFIG.levelWidth * GAME_CONFIG.tileSize;
+    const height = GAME_CONFIG.levelHeight * GAME_CONFIG.tileSize;
+
+    const grid = this.add.graphics();
+    grid.lineStyle(1, 0x222244, 1);
+    for (let x = 0; x <= GAME_CONFIG.levelWidth; x++) {
+      grid.lineBetween(x * GAME_CONFIG.tileSize, 0, x * GAME_CONFIG.tileSize, height);
+    }
+    for (let y = 0; y <= GAME_CONFIG.levelHeight; y++) {
+      grid.lineBetween(0, y * GAME_CONFIG.tileSize, width, y * GAME_CONFIG.tileSize);
+    }
+
+    this.cursorBox = this.add.rectangle(0, 0, GAME_CONFIG.tileSize, GAME_CONFIG.tileSize)
+      .setStrokeStyle(2, 0xffff00)
+      .setOrigin(0)
+      .setDepth(500)
+      .setVisible(false);
+
+    for (let y = 0; y < GAME_CONFIG.levelHeight; y++) {
+      this.cellSprites.push(new Array(GAME_CONFIG.levelWidth).fill(null));
+    }
+  }
+
+  private renderAllCells(): void {
+    for (let y = 0; y < GAME_CONFIG.levelHeight; y++) {
+      for (let x = 0; x < GAME_CONFIG.levelWidth; x++) {
+        this.renderCell(x, y);
+      }
+    }
+  }
+
+  private renderCell(gridX: number, gridY: number): void {
+    this.cellSprites[gridY][gridX]?.destroy();
+    this.cellSprites[gridY][gridX] = null;
+
+    const entry = PALETTE.find(p => p.glyph === this.getGlyph(gridX, gridY));
+    if (!entry || entry.glyph === ' ') {
+      return;
+    }
+
+    const sprite = this.add.sprite(
+      gridX * GAME_CONFIG.tileSize + GAME_CONFIG.halfTileSize,
+      gridY * GAME_CONFIG.tileSize + GAME_CONFIG.halfTileSize,
+      entry.texture,
+      entry.frame
+    );
+    sprite.setScale(1.6);
+    sprite.setAlpha(entry.alpha ?? 1);
+    this.cellSprites[gridY][gridX] = sprite;
+  }
+
+  private createPalette(): void {
+    const top = GAME_CONFIG.levelHeight * GAME_CONFIG.tileSize + 8;
+    const slotSize = 36;
+
+    PALETTE.forEach((entry, index) => {
+      const x = 10 + index * (slotSize + 4);
+      const slot = this.add.rectangle(x, top, slotSize, slotSize, 0x111133)
+        .setOrigin(0)
+        .setStrokeStyle(2, 0x444466)
+        .setInteractive({ useHandCursor: true });
+      slot.on('pointerdown', () => this.selectPalette(index));
+      this.paletteSlots.push(slot);
+
+      this.add.sprite(x + slotSize / 2, top + slotSize / 2, entry.texture, entry.frame)
+        .setScale(1.4)
+        .setAlpha(entry.alpha ?? 1);
+
+      // Number keys 1-9 then 0 select palette entries
+      this.add.text(x + 2, top + 1, `${(index + 1) % 10}`, {
+        fontSize: '10px',
+        color: '#aaaaaa',
+        fontFamily: 'monospace'
+      });
+    });
+
+    this.selectedLabel = this.add.text(10, top + slotSize + 6, '', {
+      fontSize: '14px',
+      color: '#ffff00',
+      fontFamily: 'Arial, sans-serif'
+    });
+
+    this.selectPalette(0);
+  }
+
+  private createPanel(): void {
+    const top = GAME_CONFIG.levelHeight * GAME_CONFIG.tileSize + 6;
+
+    const buttons: { label: string; action: () => void }[] = [
+      { label: 'UNDO', action: () => this.undo() },
+      { label: 'REDO', action: () => this.redo() },
+      { label: 'PLAY', action: () => this.playTest() },
+      { label: 'LOAD', action: () => this.loadFromPack() },
+      { label: 'EXPORT', action: () => this.exportLevel() },
+      { label: 'NEW', action: () => this.applyEdit(EditorScene.createBlankLevel()) }
+    ];
+
+    buttons.forEach((button, index) => {
+      const column = index % 3;
+      const line = Math.floor(index / 3);
+      this.add.text(420 + column * 68, top + line * 24, button.label, {
+        fontSize: '14px',
+        color: '#ffffff',
+        fontFamily: 'Arial, sans-serif',
+        backgroundColor: '#223355',
+        padding: { x: 4, y: 2 }
+      })
+        .setInteractive({ useHandCursor: true })
+        .on('pointerdown', button.action);
+    });
+
+    this.validationText = this.add.text(GAME_CONFIG.width - 10, top, '', {
+      fontSize: '12px',
+      color: '#00ff00',
+      fontFamily: 'monospace',
+      align: 'right'
+    }).setOrigin(1, 0);
+
+    this.messageText = this.add.text(200, top + 54, 'U/R undo/redo  P play test  L load  E export  N new  ESC menu', {
+      fontSize: '12px',
+      color: '#cccccc',
+      fontFamily: 'Arial, sans-serif'
+    });
+  }
+
+  private selectPalette(index: number): void {
+    this.selectedIndex = index;
+    this.paletteSlots.forEach((slot, i) => {
+      slot.setStrokeStyle(2, i === index ? 0xffff00 : 0x444466);
+    });
+    const entry = PALETTE[index];
+    this.selectedLabel.setText(`${entry.label} ('${entry.glyph}')`);
+  }
+
+  private showMessage(message: string): void {
+    this.messageText.setText(message);
+  }
+
+  // === Input ===
+
+  private setupInput(): void {
+    this.input.on('pointerdown', (pointer: Phaser.Input.Pointer) => {
+      if (this.pointerToCell(pointer)) {
+        this.beginStroke();
+        this.paintAt(pointer);
+      }
+    });
+
+    this.input.on('pointermove', (pointer: Phaser.Input.Pointer) => {
+      const cell = this.pointerToCell(pointer);
+      this.cursorBox.setVisible(cell !== null);
+      if (cell) {
+        this.cursorBox.setPosition(cell.x * GAME_CONFIG.tileSize, cell.y * GAME_CONFIG.tileSize);
+      }
+      if (pointer.isDown && this.strokeStart) {
+        this.paintAt(pointer);
+      }
+    });
+
+    this.input.on('pointerup', () => this.endStroke());
+
+    const keyboard = this.input.keyboard!;
+    const digitKeys = ['ONE', 'TWO', 'THREE', 'FOUR', 'FIVE', 'SIX', 'SEVEN', 'EIGHT', 'NINE', 'ZERO'];
+    digitKeys.forEach((key, index) => {
+      keyboard.on(`keydown-${key}`, () => this.selectPalette(index));
+    });
+
+    keyboard.on('keydown-U', () => this.undo());
+    keyboard.on('keydown-R', () => this.redo());
+    keyboard.on('keydown-Z', (event: KeyboardEvent) => {
+      if (event.ctrlKey || event.metaKey) {
+        if (event.shiftKey) {
+          this.redo();
+        } else {
+          this.undo();
+        }
+      }
+    });
+    keyboard.on('keydown-Y', (event: KeyboardEvent) => {
+      if (event.ctrlKey || event.metaKey) {
+        this.redo();
+      }
+    });
+    keyboard.on('keydown-P', () => this.playTest());
+    keyboard.on('keydown-L', () => this.loadFromPack());
+    keyboard.on('keydown-E', () => this.exportLevel());
+    keyboard.on('keydown-N', () => this.applyEdit(EditorScene.createBlankLevel()));
+    keyboard.on('keydown-ESC', () => this.scene.start(SCENE_KEYS.MENU));
+  }
+
+  private pointerToCell(pointer: Phaser.Input.Pointer): { x: number; y: number } | null {
+    const x = Math.floor(pointer.worldX / GAME_CONFIG.tileSize);
+    const y = Math.floor(pointer.worldY / GAME_CONFIG.tileSize);
+    if (x < 0 || x >= GAME_CONFIG.levelWidth || y < 0 || y >= GAME_CONFIG.levelHeight) {
+      return null;
+    }
+    return { x, y };
+  }
+
+  private paintAt(pointer: Phaser.Input.Pointer): void {
+    const cell = this.pointerToCell(pointer);
+    if (!cell) {
+      return;
+    }
+    const glyph = pointer.rightButtonDown() ? ' ' : PALETTE[this.selectedIndex].glyph;
+    this.setGlyph(cell.x, cell.y, glyph);
+  }
+
+  // === Actions ===
+
+  private playTest(): void {
+    const firstError = LevelValidator.validate(this.rows).issues.find(issue => issue.severity === 'error');
+    if (firstError) {
+      this.showMessage(`Fix the level before play testing: ${firstError.message}`);
+      return;
+    }
+
+    this.saveDraft();
+    this.registry.set('playTestLevel', [...this.rows]);
+    this.registry.remove('bugReport');
+    this.logger.info('Starting play test of edited level');
+    this.scene.start(SCENE_KEYS.GAME);
+  }
+
+  private loadFromPack(): void {
+    const pack = LevelPackManager.getSelectedPack(this);
+    const answer = window.prompt(`Load which level from ${pack.name}? (1-${LevelPackManager.getLevelCount(this, pack)})`);
+    if (!answer) {
+      return;
+    }
+
+    const levelData = LevelPackManager.getLevelData(this, pack, parseInt(answer, 10));
+    if (!levelData) {
+      this.showMessage(`Level ${answer} not found in ${pack.name}`);
+      return;
+    }
+
+    // Normalise to the editor grid so short or ragged rows stay editable
+    const rows = EditorScene.createBlankLevel().map((blank, y) =>
+      (levelData[y] ?? blank).padEnd(GAME_CONFIG.levelWidth, ' ').substring(0, GAME_CONFIG.levelWidth));
+    this.applyEdit(rows);
+    this.showMessage(`Loaded ${pack.name} level ${answer}`);
+  }
+
+  private exportLevel(): void {
+    const json = JSON.stringify(this.rows, null, 2);
+    if (navigator.clipboard) {
+      navigator.clipboard.writeText(json)
+        .then(() => this.showMessage('Level rows copied to clipboard'))
+        .catch(() => this.showMessage('Clipboard unavailable - could not export'));
+    } else {
+      this.showMessage('Clipboard unavailable - could not export');
+    }
+    this.logger.info(`Exported level:\n${json}`);
+  }
+}
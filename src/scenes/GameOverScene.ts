@@ -1,81 +1,260 @@
 import { Scene } from 'phaser';
-import { SCENE_KEYS } from '@/config/GameConfig';
+import { SCENE_KEYS, GAMEPAD_BUTTONS } from '@/config/GameConfig';
+import { HighScoreManager } from '@/managers/HighScoreManager';
+import { InputManager } from '@/managers/InputManager';
+
+export interface GameOverSceneData {
+  score: number;
+  level: number;      // Level the run ended on
+  reason: 'won' | 'lost';
+}
+
+const INITIALS_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ ';
 
 export class GameOverScene extends Scene {
   private finalScore = 0;
-  private isHighScore = false;
+  private finalLevel = 1;
+  private won = false;
+  private enteringInitials = false;
+  private initials: number[] = [];      // Index into INITIALS_ALPHABET per slot
+  private initialsSlot = 0;
+  private letterTexts: Phaser.GameObjects.Text[] = [];
+  private tableObjects!: Phaser.GameObjects.Group;
 
   constructor() {
     super({ key: SCENE_KEYS.GAME_OVER });
   }
 
-  init(data: { score: number; reason: 'won' | 'lost' }): void {
+  init(data: GameOverSceneData): void {
     this.finalScore = data.score || 0;
-    this.isHighScore = this.checkHighScore(this.finalScore);
+    this.finalLevel = data.level || 1;
+    this.won = data.reason === 'won';
+    this.enteringInitials = HighScoreManager.qualifies(this.finalScore);
+    this.initials = Array(HighScoreManager.INITIALS_LENGTH).fill(0);
+    this.initialsSlot = 0;
   }
 
   create(): void {
     this.cameras.main.setBackgroundColor('#001122');
-    
+
     this.createGameOverUI();
     this.setupInput();
   }
 
   private createGameOverUI(): void {
     const centerX = this.cameras.main.width / 2;
-    const centerY = this.cameras.main.height / 2;
 
-    this.add.text(centerX, centerY - 150, 'GAME OVER', {
+    // Beating the pack's last level ends the run too
+    this.add.text(centerX, 60, this.won ? 'PACK COMPLETE!' : 'GAME OVER', {
       fontSize: '64px',
-      color: '#ff0000',
+      color: this.won ? '#00ff00' : '#ff0000',
       fontFamily: 'Arial, sans-serif',
       stroke: '#000000',
       strokeThickness: 4
     }).setOrigin(0.5);
 
-    this.add.text(centerX, centerY - 50, `FINAL SCORE: ${this.finalScore}`, {
-      fontSize: '32px',
+    this.add.text(centerX, 125, `FINAL SCORE: ${this.finalScore}   LEVEL: ${this.finalLevel}`, {
+      fontSize: '28px',
       color: '#ffffff',
       fontFamily: 'Arial, sans-serif'
     }).setOrigin(0.5);
 
-    if (this.isHighScore) {
-      this.add.text(centerX, centerY, 'NEW HIGH SCORE!', {
-        fontSize: '28px',
-        color: '#ffff00',
-        fontFamily: 'Arial, sans-serif'
-      }).setOrigin(0.5);
+    this.tableObjects = this.add.group();
+
+    if (this.enteringInitials) {
+      this.createInitialsEntry();
+    } else {
+      this.showTable(-1);
+    }
+  }
+
+  private createInitialsEntry(): void {
+    const centerX = this.cameras.main.width / 2;
+
+    this.tableObjects.add(this.add.text(centerX, 180, 'NEW HIGH SCORE! ENTER YOUR INITIALS', {
+      fontSize: '28px',
+      color: '#ffff00',
+      fontFamily: 'Arial, sans-serif'
+    }).setOrigin(0.5));
+
+    // Each letter has arrows above and below to tap; tapping the letter picks its slot
+    const spacing = 100;
+    this.letterTexts = this.initials.map((_letter, slot) => {
+      const x = centerX + (slot - (this.initials.length - 1) / 2) * spacing;
+      this.addButton(x, 225, '▲', () => this.tapLetter(slot, 1));
+      this.addButton(x, 360, '▼', () => this.tapLetter(slot, -1));
+
+      const letterText = this.add.text(x, 292, '', {
+        fontSize: '56px',
+        color: '#ffffff',
+        fontFamily: 'monospace'
+      }).setOrigin(0.5).setInteractive({ useHandCursor: true }).on('pointerdown', () => this.selectSlot(slot));
+      this.tableObjects.add(letterText);
+      return letterText;
+    });
+
+    this.tableObjects.add(this.add.text(centerX, 410, 'UP/DOWN - Letter   LEFT/RIGHT - Move   ENTER - Done', {
+      fontSize: '20px',
+      color: '#cccccc',
+      fontFamily: 'Arial, sans-serif'
+    }).setOrigin(0.5));
+
+    this.addButton(centerX, 465, 'DONE', () => this.submitInitials());
+
+    this.updateInitialsText();
+  }
+
+  private addButton(x: number, y: number, label: string, onTap: () => void): void {
+    this.tableObjects.add(this.add.text(x, y, label, {
+      fontSize: '32px',
+      color: '#ffff00',
+      fontFamily: 'Arial, sans-serif',
+      backgroundColor: '#003355',
+      padding: { x: 14, y: 6 }
+    }).setOrigin(0.5).setInteractive({ useHandCursor: true }).on('pointerdown', onTap));
+  }
+
+  private updateInitialsText(): void {
+    // Brackets mark the slot being edited
+    this.initials.forEach((letter, slot) => {
+      const glyph = INITIALS_ALPHABET[letter] === ' ' ? '_' : INITIALS_ALPHABET[letter];
+      this.letterTexts[slot].setText(slot === this.initialsSlot ? `[${glyph}]` : ` ${glyph} `)
+        .setColor(slot === this.initialsSlot ? '#ffff00' : '#ffffff');
+    });
+  }
+
+  /**
+   * Show the top-10 table, highlighting the given rank (-1 for none)
+   */
+  private showTable(highlightRank: number): void {
+    const centerX = this.cameras.main.width / 2;
+    this.tableObjects.clear(true, true);
+
+    this.tableObjects.add(this.add.text(centerX, 180, 'HIGH SCORES', {
+      fontSize: '28px',
+      color: '#ffff00',
+      fontFamily: 'Arial, sans-serif'
+    }).setOrigin(0.5));
+
+    const scores = HighScoreManager.getScores();
+    if (scores.length === 0) {
+      this.tableObjects.add(this.add.text(centerX, 230, 'No scores yet', {
+        fontSize: '20px',
+        color: '#cccccc',
+        fontFamily: 'monospace'
+      }).setOrigin(0.5, 0));
     }
 
-    this.add.text(centerX, centerY + 100, 'Press SPACE to play again', {
+    scores.forEach((entry, rank) => {
+      this.tableObjects.add(this.add.text(centerX, 220 + (rank * 26), HighScoreManager.formatEntry(entry, rank), {
+        fontSize: '20px',
+        color: rank === highlightRank ? '#ffff00' : '#ffffff',
+        fontFamily: 'monospace'
+      }).setOrigin(0.5, 0));
+    });
+
+    this.tableObjects.add(this.add.text(centerX, 510, 'Press SPACE to play again', {
       fontSize: '24px',
       color: '#cccccc',
       fontFamily: 'Arial, sans-serif'
-    }).setOrigin(0.5);
+    }).setOrigin(0.5));
 
-    this.add.text(centerX, centerY + 140, 'Press ESC for main menu', {
+    this.tableObjects.add(this.add.text(centerX, 550, 'Press ESC for main menu', {
       fontSize: '24px',
       color: '#cccccc',
       fontFamily: 'Arial, sans-serif'
-    }).setOrigin(0.5);
+    }).setOrigin(0.5));
   }
 
   private setupInput(): void {
+    this.input.keyboard!.on('keydown-UP', () => this.cycleLetter(1));
+    this.input.keyboard!.on('keydown-DOWN', () => this.cycleLetter(-1));
+    this.input.keyboard!.on('keydown-LEFT', () => this.moveSlot(-1));
+    this.input.keyboard!.on('keydown-RIGHT', () => this.moveSlot(1));
+
+    // Typing a letter fills the current slot and moves on
+    this.input.keyboard!.on('keydown', (event: KeyboardEvent) => {
+      const index = INITIALS_ALPHABET.indexOf(event.key.toUpperCase());
+      if (this.enteringInitials && event.key.length === 1 && index >= 0) {
+        this.initials[this.initialsSlot] = index;
+        this.moveSlot(1);
+      }
+    });
+
+    this.input.keyboard!.on('keydown-ENTER', () => {
+      if (this.enteringInitials) {
+        this.submitInitials();
+      }
+    });
+
     this.input.keyboard!.on('keydown-SPACE', () => {
-      this.scene.start(SCENE_KEYS.GAME);
+      if (!this.enteringInitials) {
+        this.playAgain();
+      }
     });
 
     this.input.keyboard!.on('keydown-ESC', () => {
-      this.scene.start(SCENE_KEYS.MENU);
+      if (!this.enteringInitials) {
+        this.scene.start(SCENE_KEYS.MENU);
+      }
+    });
+    
+    // Initials are tapped in with their buttons; once the table shows, a tap plays again.
+    // The DONE tap itself lands on a button, so it doesn't also start a game.
+    this.input.on('pointerdown', (_pointer: Phaser.Input.Pointer, objects: Phaser.GameObjects.GameObject[]) => {
+      if (!this.enteringInitials && objects.length === 0) {
+        this.playAgain();
+      }
     });
+    
+    // A finishes the initials, then plays again (SPACE is ignored while entering)
+    InputManager.bindMenuGamepad(this, {
+      [GAMEPAD_BUTTONS.A]: ['SPACE', 'ENTER'],
+      [GAMEPAD_BUTTONS.START]: ['SPACE', 'ENTER'],
+      [GAMEPAD_BUTTONS.B]: 'ESC'
+    });
+  }
+
+  private playAgain(): void {
+    this.registry.remove('gameSeed'); // New session, new gameplay seed
+    this.registry.set('campaignStart', 'new');
+    this.scene.start(SCENE_KEYS.GAME);
+  }
+
+  private cycleLetter(direction: number): void {
+    if (!this.enteringInitials) {
+      return;
+    }
+    const count = INITIALS_ALPHABET.length;
+    this.initials[this.initialsSlot] = (this.initials[this.initialsSlot] + direction + count) % count;
+    this.updateInitialsText();
   }
 
-  private checkHighScore(score: number): boolean {
-    const highScore = localStorage.getItem('loderunner-highscore');
-    if (!highScore || score > parseInt(highScore)) {
-      localStorage.setItem('loderunner-highscore', score.toString());
-      return true;
+  private moveSlot(direction: number): void {
+    if (!this.enteringInitials) {
+      return;
     }
-    return false;
+    this.initialsSlot = Math.max(0, Math.min(this.initials.length - 1, this.initialsSlot + direction));
+    this.updateInitialsText();
+  }
+
+  private selectSlot(slot: number): void {
+    if (!this.enteringInitials) {
+      return;
+    }
+    this.initialsSlot = slot;
+    this.updateInitialsText();
+  }
+
+  private tapLetter(slot: number, direction: number): void {
+    this.selectSlot(slot);
+    this.cycleLetter(direction);
+  }
+
+  private submitInitials(): void {
+    const initials = this.initials.map(letter => INITIALS_ALPHABET[letter]).join('');
+    const rank = HighScoreManager.addScore(initials, this.finalScore, this.finalLevel);
+    this.enteringInitials = false;
+    this.showTable(rank);
   }
-}
\ No newline at end of file
+}
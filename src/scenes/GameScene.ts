@@ -1,15 +1,33 @@
 import { Scene } from 'phaser';
-import { SCENE_KEYS, GAME_CONFIG, GAME_MECHANICS } from '@/config/GameConfig';
+import { SCENE_KEYS, GAME_CONFIG, GAME_MECHANICS, BUILD_VERSION } from '@/config/GameConfig';
 import { GameState } from '@/types/GameTypes';
 import { SoundManager } from '@/managers/SoundManager';
 import { InputManager } from '@/managers/InputManager';
+import { TouchControls } from '@/managers/TouchControls';
+import { KeyBindingManager, ControlAction } from '@/managers/KeyBindingManager';
+import { SettingsManager } from '@/managers/SettingsManager';
+import { LevelPackManager } from '@/managers/LevelPackManager';
+import { ProgressManager } from '@/managers/ProgressManager';
+import { BugReport, BugReportManager, BUG_REPORT_VERSION } from '@/managers/BugReportManager';
+import { LevelSave, LevelState, LevelSaveManager, LEVEL_SAVE_VERSION } from '@/managers/LevelSaveManager';
+import { GameReplay, GameReplayManager, GameReplayOutcome, GameReplayPlayer, GameReplayRecorder, GameReplayResult } from '@/managers/GameReplayManager';
 import { Guard, GuardState } from '@/entities/Guard';
 import { Player } from '@/entities/Player';
-import { GameLogger, GuardLogger } from '@/utils/Logger';
+import { Logger, GameLogger, GuardLogger } from '@/utils/Logger';
 import { ClimbValidation, TileChecker } from '@/utils/ClimbValidation';
+import { SeededRandom } from '@/utils/SeededRandom';
+import { NavigationGraph, NavNode } from '@/utils/NavigationGraph';
+import { GuardRespawn } from '@/utils/GuardRespawn';
 import { HoleSystem } from '@/systems/HoleSystem';
 import { LevelSystem } from '@/systems/LevelSystem';
 import { CollisionSystem } from '@/systems/CollisionSystem';
+import { EventBus, PlayerDeathCause } from '@/systems/EventBus';
+import { SystemRegistry } from '@/systems/SystemRegistry';
+import { DebugOverlay } from '@/systems/DebugOverlay';
+import { GuardBrainContext, GuardBrainId } from '@/ai/GuardBrain';
+import { GuardBrainFactory } from '@/ai/GuardBrainFactory';
+import { GameOverSceneData } from '@/scenes/GameOverScene';
+import { CrashSceneData } from '@/scenes/CrashScene';
 
 export class GameScene extends Scene {
   private gameState!: GameState;
@@ -20,24 +38,56 @@ export class GameScene extends Scene {
   private livesText!: Phaser.GameObjects.Text;
   private goldText!: Phaser.GameObjects.Text;
   private soundManager!: SoundManager;
+  private eventBus!: EventBus;
   private guards: Guard[] = [];
+  private guardBrainId!: GuardBrainId;
+  private rng!: SeededRandom; // Single PRNG for all gameplay randomness
   public playerInvincible: boolean = false;
   public invincibilityEndTime: number = 0;
   
-  // Core game systems
+  // Core game systems, updated and timed through the registry
+  private systemRegistry!: SystemRegistry;
   private holeSystem!: HoleSystem;
   private levelSystem!: LevelSystem;
   private collisionSystem!: CollisionSystem;
   private climbValidation!: ClimbValidation; // Will be used for Rule 5 climb validation
+  private navigationGraph!: NavigationGraph; // Guard pathfinding over the level tiles
+  
+  // Sum of the frame times since create(). Nothing steps the scene while it
+  // is paused, so holes, stuns and invincibility don't run on while the pause
+  // menu is open, and a replay gives the clock back frame for frame.
+  private frameClock = 0;
+  private frameCount = 0;
+  
+  // Game speed scales the gameplay clock from the point it was last changed
+  private gameSpeed = 1;
+  private pendingGameSpeed: number | null = null;
+  private gameClockBase = 0;
+  private frameClockBase = 0;
+  
+  // This attempt's frames as they are played, or the replay being played back
+  private replayRecorder: GameReplayRecorder | null = null;
+  private replayPlayer: GameReplayPlayer | null = null;
+  private replayResult: GameReplayResult | null = null;
   
   // Debug visuals - simple on/off system
   private debugMode = false;
   private debugGraphics!: Phaser.GameObjects.Graphics;
   private debugText!: Phaser.GameObjects.Text;
+  private profilerText!: Phaser.GameObjects.Text;
+  private systemToggles: Phaser.GameObjects.Text[] = [];  // One per registered system, under the profiler
+  private debugOverlay!: DebugOverlay;
   private levelCompleting = false;
   
+  // Where this attempt at the level started, for per-level best score and time
+  private levelStartScore = 0;
+  private levelStartTime = 0;
+  
   // Debug logging control - capture first few instances then stop
   private debugLogCount = 0;
+
+  // Set once the crash overlay is up; the level stays frozen until restarted
+  private crashed = false;
   private maxDebugLogs = 10; // Only log first 10 Rule 7 events
   private lastDebugSecond = 0; // Track last second we logged
 
@@ -86,27 +136,80 @@ export class GameScene extends Scene {
   public getSoundManager(): SoundManager {
     return this.soundManager;
   }
+  
+  public getEventBus(): EventBus {
+    return this.eventBus;
+  }
+  
+  public getRandom(): SeededRandom {
+    return this.rng;
+  }
+  
+  public getNavigationGraph(): NavigationGraph {
+    return this.navigationGraph;
+  }
 
   create(): void {
     
     
+    this.initializeFrames();
     this.initializeGameState();
+    this.initializePause();
+    this.initializeCrashHandling();
+    this.initializeRandom();
     this.initializeAudio();
+    this.initializeEvents();
     this.initializeTimelineSystem(); // Initialize timeline-based hole mechanics
     this.initializeClimbValidation(); // Initialize climb validation for hole escape
+    this.initializeNavigation();
     this.setupInput(); // Initialize InputManager before creating Player
     this.collisionSystem.initializePhysicsWorld();
     this.collisionSystem.initializePhysicsGroups();
     this.levelSystem.loadLevel(this.gameState.currentLevel, this.gameState);
+    this.saveProgress();
     this.createPlayer();
     this.createGuards(); // Create guards after player
+    const startState = this.restoreBugReport() ?? this.restoreLevelSave() ?? this.restoreReplayStart();
     this.createUI();
     this.collisionSystem.setupEntityCollisions();
     this.initializeDebug();
+    this.initializeLevelSaves();
+    this.initializeReplay(startState);
     
-    // Add brief invincibility when level starts (after death)
-    this.addStartupInvincibility();
+    if (!startState) {
+      // Add brief invincibility when level starts (after death)
+      this.addStartupInvincibility();
+      
+      this.levelStartScore = this.gameState.score;
+      this.levelStartTime = this.getGameTime();
+    }
+  }
+
+  // Seed is chosen once per session and kept in the registry, so a level
+  // restarted after a death sees the same guard decisions for the same inputs
+  private initializeRandom(): void {
+    // A replay brings the seed it was recorded with
+    let seed: number | undefined = this.getGameReplay()?.seed ?? this.registry.get('gameSeed');
+    if (seed === undefined) {
+      seed = SeededRandom.createSeed();
+      this.registry.set('gameSeed', seed);
+    }
     
+    this.rng = new SeededRandom(seed + this.gameState.currentLevel);
+    GameLogger.debug(`Gameplay RNG seeded with ${seed} (level ${this.gameState.currentLevel})`);
+  }
+
+  // Autosave the run as it stands at the start of the level
+  private saveProgress(): void {
+    if (this.isPlayTest() || this.isPracticeRun() || this.isBugReportRun() || this.isReplayRun()) {
+      return;
+    }
+    
+    ProgressManager.saveRun(LevelPackManager.getSelectedPack(this).id, {
+      level: this.gameState.currentLevel,
+      score: this.gameState.score,
+      lives: this.gameState.lives
+    });
   }
 
   private initializeAudio(): void {
@@ -114,17 +217,59 @@ export class GameScene extends Scene {
     this.soundManager.initializeSounds();
   }
 
+  // Sound, score, level records and the HUD follow gameplay events.
+  // Score listeners are added first so the ones after them see the new total.
+  private initializeEvents(): void {
+    this.eventBus = new EventBus();
+    this.events.once(Phaser.Scenes.Events.SHUTDOWN, () => this.eventBus.destroy());
+
+    // Score
+    this.eventBus.on('goldCollected', () => { this.gameState.score += 100; });
+    this.eventBus.on('levelComplete', ({ bonus }) => { this.gameState.score += bonus; });
+
+    // Sound
+    this.eventBus.on('goldCollected', () => this.soundManager.playSFX('getGold'));
+    this.eventBus.on('holeDug', () => this.soundManager.playSFX('dig'));
+    this.eventBus.on('exitRevealed', () => this.soundManager.playSFX('pass'));
+    this.eventBus.on('playerDied', () => this.soundManager.playSFX('dead'));
+    this.eventBus.on('levelComplete', () => this.soundManager.playLevelComplete(this.rng));
+
+    // Level records
+    this.eventBus.on('levelComplete', () => this.recordLevelResult());
+
+    // HUD
+    this.eventBus.on('goldCollected', () => this.updateUI());
+    this.eventBus.on('levelComplete', () => this.updateUI());
+
+    // Holes
+    this.eventBus.on('holeFilled', ({ gridX, gridY }) => {
+      this.checkPlayerTrappedInHole(gridX, gridY);
+      this.checkGuardEscapeBeforeHoleFills(`${gridX},${gridY}`);
+    });
+  }
+
   // Initialize game systems
   private initializeTimelineSystem(): void {
-    this.holeSystem = new HoleSystem(this);
-    this.levelSystem = new LevelSystem(this);
-    this.collisionSystem = new CollisionSystem(this);
+    this.systemRegistry = new SystemRegistry((_name, error) => this.crash(error));
+    this.holeSystem = this.systemRegistry.register('hole', new HoleSystem(this));
+    this.levelSystem = this.systemRegistry.register('level', new LevelSystem(this), { after: ['hole'] });
+    this.collisionSystem = this.systemRegistry.register('collision', new CollisionSystem(this), { after: ['level'] });
+    this.events.once(Phaser.Scenes.Events.SHUTDOWN, () => this.cleanup());
   }
   
   // Initialize climb validation system for hole escape mechanics
   private initializeClimbValidation(): void {
-    // Create TileChecker implementation for ClimbValidation
-    const tileChecker: TileChecker = {
+    this.climbValidation = new ClimbValidation(this.createTileChecker());
+  }
+
+  // Guards plan routes to the player on the navigation graph
+  private initializeNavigation(): void {
+    this.navigationGraph = new NavigationGraph(this.createTileChecker());
+  }
+
+  // TileChecker backed by the live level tiles
+  private createTileChecker(): TileChecker {
+    return {
       isTileStandable: (gridX: number, gridY: number): boolean => {
         return this.levelSystem.isTileStandable(gridX, gridY);
       },
@@ -137,8 +282,6 @@ export class GameScene extends Scene {
         return this.levelSystem.getTileType(gridX, gridY);
       }
     };
-    
-    this.climbValidation = new ClimbValidation(tileChecker);
   }
 
   // TileChecker implementation methods
@@ -208,17 +351,85 @@ export class GameScene extends Scene {
     });
     this.debugText.setDepth(1001);
     
-    // Initially hidden
-    this.debugGraphics.setVisible(false);
-    this.debugText.setVisible(false);
+    // Per-system frame timings, top right
+    this.profilerText = this.add.text(this.cameras.main.width - GAME_MECHANICS.UI.DEBUG_TEXT_X, GAME_MECHANICS.UI.DEBUG_TEXT_Y, '', {
+      fontSize: '14px',
+      color: '#00ff00',
+      fontFamily: 'monospace',
+      backgroundColor: '#000000aa',
+      padding: { x: 8, y: 4 }
+    }).setOrigin(1, 0);
+    this.profilerText.setDepth(1001);
+    
+    // Click a system to stop or resume its updates
+    this.systemToggles = this.systemRegistry.getUpdateOrder().map(name => this.add.text(0, 0, '', {
+      fontSize: '14px',
+      color: '#00ffff',
+      fontFamily: 'monospace',
+      backgroundColor: '#000000aa',
+      padding: { x: 8, y: 4 }
+    }).setOrigin(1, 0).setDepth(1001).setData('system', name).setInteractive({ useHandCursor: true })
+      .on('pointerdown', () => this.systemRegistry.setEnabled(name, !this.systemRegistry.isEnabled(name))));
+    
+    // Hole countdowns, climb exits and guard decisions over the level
+    this.debugOverlay = new DebugOverlay(this, this.holeSystem, this.climbValidation);
+    
+    // Every level starts with the overlay set to the settings default; bug reports always show it
+    this.debugMode = SettingsManager.getSettings().debugOverlay || this.isBugReportRun();
+    this.debugGraphics.setVisible(this.debugMode);
+    this.debugText.setVisible(this.debugMode);
+    this.profilerText.setVisible(this.debugMode);
+    this.systemToggles.forEach(toggle => toggle.setVisible(this.debugMode));
+    this.debugOverlay.setVisible(this.debugMode);
   }
 
 
   private initializeGameState(): void {
     // Preserve lives and current level when restarting, but reset level-specific state
-    const preservedLives = this.gameState?.lives ?? 3;
-    const preservedLevel = this.gameState?.currentLevel ?? 1;
-    const preservedScore = this.gameState?.score ?? 0;
+    let preservedLives = this.gameState?.lives ?? 3;
+    let preservedLevel = this.gameState?.currentLevel ?? 1;
+    let preservedScore = this.gameState?.score ?? 0;
+    
+    // The menu asks for a fresh campaign or the autosaved one, once;
+    // level select can start the fresh one further in
+    const campaignStart: 'new' | 'continue' | undefined = this.registry.get('campaignStart');
+    const startLevel: number | undefined = this.registry.get('startLevel');
+    this.registry.remove('campaignStart');
+    this.registry.remove('startLevel');
+    const savedRun = campaignStart === 'continue' ? ProgressManager.getRun(LevelPackManager.getSelectedPack(this).id) : null;
+    if (savedRun) {
+      preservedLives = savedRun.lives;
+      preservedLevel = savedRun.level;
+      preservedScore = savedRun.score;
+    } else if (campaignStart) {
+      preservedLives = 3;
+      preservedLevel = startLevel ?? 1;
+      preservedScore = 0;
+    }
+    
+    // A loaded bug report starts from the moment it was made, on every restart
+    const bugReport = this.getBugReport();
+    if (bugReport) {
+      preservedLives = bugReport.state.lives;
+      preservedLevel = bugReport.levelNumber;
+      preservedScore = bugReport.state.score;
+    }
+    
+    // So does a level save, once
+    const levelSave = this.getLevelSave();
+    if (levelSave) {
+      preservedLives = levelSave.state.lives;
+      preservedLevel = levelSave.levelNumber;
+      preservedScore = levelSave.state.score;
+    }
+    
+    // And a replay, from where its attempt started
+    const replay = this.getGameReplay();
+    if (replay) {
+      preservedLives = replay.lives;
+      preservedLevel = replay.levelNumber;
+      preservedScore = replay.score;
+    }
     
     this.gameState = {
       currentLevel: preservedLevel,
@@ -256,7 +467,7 @@ export class GameScene extends Scene {
       frame: 'runner_00'
     };
     
-    this.player = new Player(playerConfig, this.inputManager, this.soundManager);
+    this.player = new Player(playerConfig, this.inputManager);
     
     GameLogger.debug(`Player created at position (${startPos.x}, ${startPos.y})`);
   }
@@ -276,25 +487,359 @@ export class GameScene extends Scene {
       return;
     }
     
+    // Every guard in a level uses the same brain; saves and reports need the one they were made with
+    const brainId = this.getGameReplay()?.guardBrain ?? this.getLevelSave()?.guardBrain ?? this.getBugReport()?.guardBrain ??
+      GuardBrainFactory.resolve(this, LevelPackManager.getSelectedPack(this));
+    this.guardBrainId = brainId;
+    const brainContext: GuardBrainContext = {
+      rng: this.rng,
+      getBaseTileType: (gridX, gridY) => this.holeSystem.getHole(gridX, gridY)?.originalTileType ?? this.levelSystem.getTileType(gridX, gridY)
+    };
+    
     // Create guard AI entities
-    GuardLogger.debug(`Creating ${levelInfo.guards.length} guards for level ${this.gameState.currentLevel}`);
+    GuardLogger.debug(`Creating ${levelInfo.guards.length} guards for level ${this.gameState.currentLevel} (brain: ${brainId})`);
     levelInfo.guards.forEach((guardPos: { x: number; y: number }, index: number) => {
       GuardLogger.debug(`Creating guard ${index} at position (${guardPos.x + GAME_CONFIG.halfTileSize}, ${guardPos.y + GAME_CONFIG.halfTileSize})`);
-      const guard = new Guard(this, guardPos.x + GAME_CONFIG.halfTileSize, guardPos.y + GAME_CONFIG.halfTileSize, this.player.sprite);
+      const guard = new Guard(this, guardPos.x + GAME_CONFIG.halfTileSize, guardPos.y + GAME_CONFIG.halfTileSize, this.player.sprite, index, this.rng, GuardBrainFactory.create(brainId, brainContext));
       guard.setCollisionCallbacks(this.getLadderTiles(), this.getRopeTiles(), this.getSolidTiles());
       
       // Pass ClimbValidation instance for hole escape mechanics
       guard.setClimbValidation(this.climbValidation);
+      guard.setNavigationGraph(this.navigationGraph);
+      guard.setEventBus(this.eventBus);
+      guard.setGoldDropHandler((gridX, gridY) => this.levelSystem.placeGold(gridX, gridY));
+      guard.setRespawnCellResolver(() => this.findGuardRespawnCell(guard));
       
       this.guards.push(guard);
     });
     
     // Set up guard-to-guard collision detection to prevent overlapping
     this.collisionSystem.setupGuardCollisions(this.guards);
+    this.collisionSystem.setupGuardGoldCollisions(this.guards);
     
     GuardLogger.debug(`Total guards created: ${this.guards.length}`);
   }
 
+  // Put the level back the way a loaded bug report recorded it, on every restart
+  private restoreBugReport(): LevelState | null {
+    const report = this.getBugReport();
+    if (!report) {
+      return null;
+    }
+    
+    this.restoreLevelState(report.state);
+    GameLogger.info(`Bug report loaded: ${report.levelKey} at ${Math.round(report.state.gameTime)}ms, build ${report.buildVersion} - ${report.error.message}`);
+    return report.state;
+  }
+
+  // Put the level back the way a level save found it. The save is used once;
+  // dying afterwards restarts the level as usual.
+  private restoreLevelSave(): LevelState | null {
+    const save = this.getLevelSave();
+    if (!save) {
+      return null;
+    }
+    this.registry.remove('levelSave');
+    
+    this.restoreLevelState(save.state);
+    GameLogger.info(`Level save loaded: ${save.levelKey} at ${Math.round(save.state.gameTime)}ms`);
+    return save.state;
+  }
+  
+  // A replay recorded after loading a level save starts from that save
+  private restoreReplayStart(): LevelState | null {
+    const startState = this.getGameReplay()?.startState;
+    if (!startState) {
+      return null;
+    }
+    
+    this.restoreLevelState(startState);
+    return startState;
+  }
+  
+  /**
+   * Everything that changes during a level: the game clock, score and gold,
+   * open holes with their timelines, the player and every guard
+   */
+  private captureLevelState(): LevelState {
+    const gameTime = this.getGameTime();
+    
+    return {
+      gameTime,
+      rngState: this.rng.getState(),
+      score: this.gameState.score,
+      lives: this.gameState.lives,
+      goldCollected: this.gameState.goldCollected,
+      totalGold: this.gameState.totalGold,
+      gold: this.levelSystem.getGoldSprites().getChildren().map(child => {
+        const gold = child as Phaser.GameObjects.Sprite;
+        return { gridX: Math.floor(gold.x / GAME_CONFIG.tileSize), gridY: Math.floor(gold.y / GAME_CONFIG.tileSize) };
+      }),
+      player: this.player.getSaveState(),
+      invincibleMs: this.playerInvincible ? Math.max(0, this.invincibilityEndTime - gameTime) : 0,
+      guards: this.guards.map(guard => guard.getSaveState()),
+      holes: this.holeSystem.getSaveState(),
+      holeTimeline: this.holeSystem.getHoleTimeline().getState(),
+      navigationVersion: this.navigationGraph.getVersion(),
+      levelStartScore: this.levelStartScore,
+      levelStartTime: this.levelStartTime
+    };
+  }
+  
+  // Runs in create() on the freshly loaded level, before the first update
+  private restoreLevelState(state: LevelState): void {
+    // The game clock carries on from the save, so t1/t2, fall times and stun ends still line up
+    this.gameClockBase = state.gameTime;
+    this.frameClockBase = this.frameClock;
+    this.rng.setState(state.rngState);
+    
+    // Holes before gold, which is never placed in one
+    state.holes.forEach(hole => this.holeSystem.restoreHole(hole));
+    this.holeSystem.getHoleTimeline().restoreState(state.holeTimeline);
+    
+    this.levelSystem.restoreGold(state.gold);
+    this.gameState.goldCollected = state.goldCollected;
+    this.gameState.totalGold = state.totalGold;
+    
+    this.player.restoreSaveState(state.player);
+    if (state.invincibleMs > 0) {
+      this.activatePlayerInvincibility(state.invincibleMs);
+    }
+    
+    if (state.guards.length !== this.guards.length) {
+      GameLogger.warn(`Level save has ${state.guards.length} guards, the level has ${this.guards.length}`);
+    }
+    state.guards.forEach((saved, index) => this.guards[index]?.restoreSaveState(saved));
+    
+    if (this.gameState.goldCollected >= this.gameState.totalGold) {
+      this.levelSystem.revealExitLadder();
+    }
+    
+    // Planned routes were made on the graph as it was saved
+    this.navigationGraph.restoreVersion(state.navigationVersion);
+    
+    this.levelStartScore = state.levelStartScore;
+    this.levelStartTime = state.levelStartTime;
+  }
+  
+  // F5 quick save, F9 quick load, F6 download, F7 download the replay so far -
+  // KeyBindingManager.RESERVED_KEYS. Capturing them keeps the browser from
+  // reloading the page on F5.
+  private initializeLevelSaves(): void {
+    const keyboard = this.input.keyboard;
+    if (!keyboard) {
+      return;
+    }
+    
+    const keys = KeyBindingManager.RESERVED_KEYS.join(',');
+    keyboard.addCapture(keys);
+    keyboard.on('keydown-F5', () => this.quickSave());
+    keyboard.on('keydown-F9', () => this.quickLoad());
+    keyboard.on('keydown-F6', () => this.downloadLevelSave());
+    keyboard.on('keydown-F7', () => this.downloadReplay());
+    this.events.once(Phaser.Scenes.Events.SHUTDOWN, () => keyboard.removeCapture(keys));
+  }
+  
+  // Level saves are for pack levels; play tests, bug reports and replays bring their own.
+  // They are a practice aid: in a campaign run, loading one would hand back lost lives and score.
+  private canSaveLevel(): boolean {
+    if (this.isPlayTest() || this.isBugReportRun() || this.isReplayRun() || this.levelCompleting || this.crashed) {
+      return false;
+    }
+    if (!this.isPracticeRun()) {
+      this.showNotice('LEVEL SAVES ARE FOR PRACTICE RUNS');
+      return false;
+    }
+    return true;
+  }
+  
+  private createLevelSave(): LevelSave {
+    const pack = LevelPackManager.getSelectedPack(this);
+    
+    return {
+      version: LEVEL_SAVE_VERSION,
+      savedAt: new Date().toISOString(),
+      packId: pack.id,
+      levelNumber: this.gameState.currentLevel,
+      levelKey: LevelPackManager.getLevelKey(pack, this.gameState.currentLevel),
+      seed: this.registry.get('gameSeed') ?? 0,
+      guardBrain: this.guardBrainId,
+      state: this.captureLevelState()
+    };
+  }
+  
+  private quickSave(): void {
+    if (!this.canSaveLevel()) {
+      return;
+    }
+    LevelSaveManager.saveQuickSave(this.createLevelSave());
+    this.showNotice('STATE SAVED');
+  }
+  
+  // Only back into the level it was saved on, so a campaign can't skip ahead
+  private quickLoad(): void {
+    if (!this.canSaveLevel()) {
+      return;
+    }
+    const save = LevelSaveManager.loadQuickSave();
+    if (!save || save.packId !== LevelPackManager.getSelectedPack(this).id || save.levelNumber !== this.gameState.currentLevel) {
+      this.showNotice(`NO SAVED STATE FOR LEVEL ${this.gameState.currentLevel}`);
+      return;
+    }
+    
+    this.registry.set('levelSave', save);
+    this.sound.stopAll();
+    this.scene.restart();
+  }
+  
+  private downloadLevelSave(): void {
+    if (this.canSaveLevel()) {
+      LevelSaveManager.download(this.createLevelSave());
+    }
+  }
+  
+  // Pack levels are recorded attempt by attempt; a replay run plays one back instead
+  private initializeReplay(startState: LevelState | null): void {
+    this.replayResult = null;
+    this.replayRecorder = null;
+    const replay = this.getGameReplay();
+    this.replayPlayer = replay ? new GameReplayPlayer(replay) : null;
+    if (replay || this.isPlayTest() || this.isBugReportRun()) {
+      return;
+    }
+    
+    const pack = LevelPackManager.getSelectedPack(this);
+    this.replayRecorder = new GameReplayRecorder({
+      buildVersion: BUILD_VERSION,
+      packId: pack.id,
+      levelNumber: this.gameState.currentLevel,
+      levelKey: LevelPackManager.getLevelKey(pack, this.gameState.currentLevel),
+      seed: this.registry.get('gameSeed') ?? 0,
+      guardBrain: this.guardBrainId,
+      score: this.gameState.score,
+      lives: this.gameState.lives,
+      startState: startState ?? undefined
+    });
+    
+    // However the attempt ends, it becomes the last replay
+    this.events.once(Phaser.Scenes.Events.SHUTDOWN, () => {
+      this.endAttempt('stopped');
+      const recorded = this.createGameReplay();
+      if (recorded && recorded.totalFrames > 0) {
+        GameReplayManager.saveLastReplay(recorded);
+      }
+    });
+  }
+  
+  // The replay of this attempt so far, or null if it isn't being recorded
+  private createGameReplay(): GameReplay | null {
+    if (!this.replayRecorder) {
+      return null;
+    }
+    return this.replayRecorder.toReplay(this.replayResult ?? {
+      outcome: 'stopped',
+      frame: this.frameCount,
+      score: this.gameState.score
+    });
+  }
+  
+  private downloadReplay(): void {
+    const replay = this.createGameReplay();
+    if (replay) {
+      GameReplayManager.download(replay);
+    }
+  }
+  
+  // How this attempt at the level ended, the first time it ends. A recording
+  // keeps it as the replay's result; a replay run stops there and compares.
+  private endAttempt(outcome: GameReplayOutcome): void {
+    if (this.replayResult) {
+      return;
+    }
+    this.replayResult = { outcome, frame: this.frameCount, score: this.gameState.score };
+    
+    if (this.replayPlayer) {
+      this.showReplayResult(this.replayResult);
+    }
+  }
+  
+  // The level stays frozen where the playback ended (see stepFrame)
+  private showReplayResult(result: GameReplayResult): void {
+    const expected = this.getGameReplay()!.result;
+    const describe = (ending: GameReplayResult) => `${ending.outcome} at frame ${ending.frame}, score ${ending.score}`;
+    const matched = expected.outcome === result.outcome && expected.frame === result.frame && expected.score === result.score;
+    
+    const lines = matched
+      ? ['REPLAY MATCHED', describe(result)]
+      : ['REPLAY DIVERGED', `recorded: ${describe(expected)}`, `played: ${describe(result)}`];
+    lines.push('', 'SPACE - Watch again   ESC or tap - Menu');
+    this.add.text(this.cameras.main.centerX, this.cameras.main.centerY, lines.join('\n'), {
+      fontSize: '24px',
+      color: matched ? '#00ff00' : '#ff6666',
+      fontFamily: 'Arial, sans-serif',
+      stroke: '#000000',
+      strokeThickness: 4,
+      align: 'center'
+    }).setOrigin(0.5).setDepth(2000);
+    GameLogger.info(`Replay ${matched ? 'matched' : 'diverged'}: recorded ${describe(expected)}, played ${describe(result)}`);
+    
+    this.sound.stopAll();
+    this.input.keyboard?.once('keydown-SPACE', () => this.scene.restart());
+    this.input.keyboard?.once('keydown-ESC', () => this.quitToMenu());
+    this.input.once('pointerdown', () => this.quitToMenu());
+  }
+  
+  // Short message over the level that fades out by itself
+  private showNotice(message: string): void {
+    const notice = this.add.text(this.cameras.main.centerX, this.cameras.main.centerY - 100, message, {
+      fontSize: '28px',
+      color: '#FFFFFF',
+      fontFamily: 'Arial, sans-serif',
+      stroke: '#000000',
+      strokeThickness: 4
+    }).setOrigin(0.5).setDepth(2000);
+    
+    this.tweens.add({
+      targets: notice,
+      alpha: 0,
+      delay: 800,
+      duration: 600,
+      onComplete: () => notice.destroy()
+    });
+  }
+  
+  // Respawn cell for a guard that died in a hole, kept clear of tiles, holes, the player and other guards
+  private findGuardRespawnCell(guard: Guard): NavNode {
+    const spawn = guard.getSpawnPosition();
+    const playerCell = {
+      x: Math.floor(this.player.sprite.x / GAME_CONFIG.tileSize),
+      y: Math.floor(this.player.sprite.y / GAME_CONFIG.tileSize)
+    };
+    
+    return GuardRespawn.findCell(GAME_MECHANICS.GUARD_RESPAWN_POLICY, {
+      x: Math.floor(spawn.x / GAME_CONFIG.tileSize),
+      y: Math.floor(spawn.y / GAME_CONFIG.tileSize)
+    }, {
+      getTileType: (gridX, gridY) => this.levelSystem.getTileType(gridX, gridY),
+      isOccupied: (gridX, gridY) => {
+        // Not in the player's cell, nor right above it where the guard would drop onto them
+        if (playerCell.x === gridX && (playerCell.y === gridY || playerCell.y - 1 === gridY)) {
+          return true;
+        }
+        if (this.holeSystem.getHole(gridX, gridY)) {
+          return true;
+        }
+        return this.guards.some(other => {
+          if (other === guard || !other.sprite.visible) {
+            return false;
+          }
+          const cell = other.getGridPosition();
+          return cell.x === gridX && cell.y === gridY;
+        });
+      }
+    }, this.rng);
+  }
+
 
 
 
@@ -303,6 +848,11 @@ export class GameScene extends Scene {
     const gameAreaHeight = GAME_CONFIG.levelHeight * GAME_CONFIG.tileSize; // 512px
     const uiStartY = gameAreaHeight + 10; // Start UI 10px below game area
     
+    if (this.inputManager.hasTouchControls()) {
+      this.createTouchUI(uiStartY);
+      return;
+    }
+    
     // Position game info elements below the game playing area
     this.scoreText = this.add.text(padding, uiStartY, `SCORE: ${this.gameState.score}`, {
       fontSize: '24px',
@@ -310,7 +860,7 @@ export class GameScene extends Scene {
       fontFamily: 'Arial, sans-serif'
     }).setDepth(2000);
 
-    this.levelText = this.add.text(padding + 200, uiStartY, `LEVEL: ${this.gameState.currentLevel}`, {
+    this.levelText = this.add.text(padding + 200, uiStartY, this.getLevelLabel(), {
       fontSize: '24px',
       color: '#FFFF00',
       fontFamily: 'Arial, sans-serif'
@@ -329,60 +879,85 @@ export class GameScene extends Scene {
       fontFamily: 'Arial, sans-serif'
     }).setOrigin(1, 0).setDepth(2000);
 
-    // Position instructions below the game info
+    // Position instructions below the game info; keys follow the player's bindings
+    const bindings = KeyBindingManager.getBindings();
+    const describe = (action: ControlAction) => KeyBindingManager.describe(action, bindings);
     this.add.text(padding, uiStartY + 35, 
-      'ESC - Menu  |  Arrow Keys - Move  |  Z/X - Dig  |  J - Debug', {
+      `${describe('pause')} - Menu  |  Direction Keys - Move  |  ${describe('digLeft')}/${describe('digRight')} - Dig  |  ${describe('debug')} - Debug`, {
       fontSize: '16px',
       color: '#cccccc',
       fontFamily: 'Arial, sans-serif'
     });
   }
 
+  // Touch buttons fill both ends of the UI band; the HUD squeezes into two rows between them
+  private createTouchUI(uiStartY: number): void {
+    const style = { fontSize: '20px', color: '#FFFF00', fontFamily: 'Arial, sans-serif' };
+    const left = TouchControls.HUD_LEFT + 10;
+    const right = TouchControls.HUD_RIGHT - 10;
+    const secondRowY = uiStartY + 36;
+    
+    this.scoreText = this.add.text(left, uiStartY, `SCORE: ${this.gameState.score}`, style).setDepth(2000);
+    this.livesText = this.add.text(right, uiStartY, `LIVES: ${this.gameState.lives}`, style).setOrigin(1, 0).setDepth(2000);
+    this.levelText = this.add.text(left, secondRowY, this.getLevelLabel(), style).setDepth(2000);
+    this.goldText = this.add.text(right, secondRowY, `GOLD: ${this.gameState.goldCollected}/${this.gameState.totalGold}`, {
+      ...style,
+      color: '#FFD700'
+    }).setOrigin(1, 0).setDepth(2000);
+  }
+
   private setupInput(): void {
     // Initialize InputManager for centralized input handling
     this.inputManager = new InputManager(this);
+    this.events.once(Phaser.Scenes.Events.SHUTDOWN, () => this.inputManager.destroy());
   }
 
   private updateCounter = 0;
 
-  update(time: number, delta: number): void {
+  update(_time: number, delta: number): void {
     try {
       this.updateCounter++;
+      this.applyPendingGameSpeed();
+      delta *= this.gameSpeed;
       
-      // CRITICAL FIX: Use this.time.now for consistent timing across all systems
-      const gameTime = this.time.now;
+      // CRITICAL FIX: Use one pause-adjusted clock for consistent timing across all systems
+      const gameTime = this.getGameTime();
       
       // CRITICAL: Check guard deaths BEFORE updating timeline
       // This ensures timeline data exists for death checks
       this.checkTimelineBasedGuardDeaths(gameTime);
       
       // Update game systems
-      this.holeSystem.update(gameTime, delta);
-      this.levelSystem.update(gameTime, delta);
+      this.systemRegistry.updateAll(gameTime, delta);
       
       // Handle input through InputManager
       this.handleInput();
       
       // Update Player entity
-      this.player.update(time, delta);
-      
-      this.updateUI();
-      this.updatePlayerState();
-      this.updateGuards(gameTime, delta);  // Use consistent gameTime
-      this.collisionSystem.checkGuardPlayerCollisions(this.guards, this.player, this);
+      this.systemRegistry.measure('player', () => {
+        this.player.update(gameTime, delta);
+        this.updatePlayerState();
+      });
+      this.systemRegistry.measure('guards', () => this.updateGuards(gameTime, delta));  // Use consistent gameTime
+      if (this.systemRegistry.isEnabled('collision')) {
+        this.systemRegistry.measure('guard collisions', () =>
+          this.collisionSystem.checkGuardPlayerCollisions(this.guards, this.player, this));
+      }
       
       if (this.debugMode) {
-        this.updateDebugVisuals();
+        this.updateDebugVisuals(gameTime);
+        this.updateProfiler();
       }
     } catch (error) {
-      // Handle error silently
+      this.crash(error);
     }
   }
 
   private handleInput(): void {
-    // Handle ESC key - return to menu
+    // Handle ESC key - open the pause menu
     if (this.inputManager.isEscapePressed()) {
-      this.scene.start(SCENE_KEYS.MENU);
+      this.pauseGame();
+      return;
     }
 
     // Handle digging controls
@@ -517,9 +1092,22 @@ export class GameScene extends Scene {
   }
   
 
+  private getLevelLabel(): string {
+    if (this.isPlayTest()) {
+      return 'LEVEL: TEST';
+    }
+    if (this.isBugReportRun()) {
+      return `LEVEL: ${this.gameState.currentLevel} (BUG REPORT)`;
+    }
+    if (this.isReplayRun()) {
+      return `LEVEL: ${this.gameState.currentLevel} (REPLAY)`;
+    }
+    return this.isPracticeRun() ? `LEVEL: ${this.gameState.currentLevel} (PRACTICE)` : `LEVEL: ${this.gameState.currentLevel}`;
+  }
+
   private updateUI(): void {
     this.scoreText.setText(`SCORE: ${this.gameState.score}`);
-    this.levelText.setText(`LEVEL: ${this.gameState.currentLevel}`);
+    this.levelText.setText(this.getLevelLabel());
     this.livesText.setText(`LIVES: ${this.gameState.lives}`);
     this.goldText.setText(`GOLD: ${this.gameState.goldCollected}/${this.gameState.totalGold}`);
   }
@@ -544,13 +1132,12 @@ export class GameScene extends Scene {
 
     // Exit marker cleanup now handled by LevelSystem
     
-    // Play level completion music (safe)
-    try {
-      this.soundManager.playLevelComplete();
-    } catch {}
-    
-    // Add level completion bonus once
-    this.gameState.score += 1000;
+    // Completion bonus, music and the level record follow from the event
+    this.eventBus.emit('levelComplete', { level: this.gameState.currentLevel, bonus: 1000 });
+    this.endAttempt('complete');
+    if (this.isReplayRun()) {
+      return;
+    }
     
     // Show level complete message
     const centerX = this.cameras.main.width / 2;
@@ -579,14 +1166,44 @@ export class GameScene extends Scene {
     });
   }
 
+  private recordLevelResult(): void {
+    if (this.isPlayTest() || this.isBugReportRun() || this.isReplayRun()) {
+      return;
+    }
+    
+    ProgressManager.recordLevelResult(
+      LevelPackManager.getSelectedPack(this).id,
+      this.gameState.currentLevel,
+      this.gameState.score - this.levelStartScore,
+      Math.round(this.getGameTime() - this.levelStartTime)
+    );
+  }
+
   private loadNextLevel(): void {
+    if (this.isPlayTest()) {
+      this.levelCompleting = false;
+      this.returnToEditor('complete');
+      return;
+    }
+    if (this.isBugReportRun()) {
+      this.levelCompleting = false;
+      this.quitToMenu();
+      return;
+    }
+    
     // Increment current level
     this.gameState.currentLevel++;
     
-    // Check if next level exists (assuming levels go up to 150 based on classic.json)
-    const maxLevels = 150;
+    // Check if next level exists in the selected pack
+    const maxLevels = LevelPackManager.getLevelCount(this, LevelPackManager.getSelectedPack(this));
     if (this.gameState.currentLevel > maxLevels) {
-      // Game completed - could show victory screen or restart from level 1
+      // Practice goes round again; a campaign run is over once the pack is beaten
+      if (!this.isPracticeRun()) {
+        GameLogger.info('Pack complete');
+        this.levelCompleting = false;
+        this.endRun('won', maxLevels);
+        return;
+      }
       this.gameState.currentLevel = 1;
     }
     
@@ -595,17 +1212,34 @@ export class GameScene extends Scene {
     this.levelCompleting = false;
   }
 
+  // Hand the final score to GameOverScene
+  private endRun(reason: GameOverSceneData['reason'], level: number): void {
+    const gameOverData: GameOverSceneData = {
+      score: this.gameState.score,
+      level,
+      reason
+    };
+    
+    // The next game starts from scratch and there is nothing left to continue
+    this.gameState = { currentLevel: 1, score: 0, lives: 3, goldCollected: 0, totalGold: 0 };
+    ProgressManager.clearRun(LevelPackManager.getSelectedPack(this).id);
+    this.scene.start(SCENE_KEYS.GAME_OVER, gameOverData);
+  }
+
   private toggleDebugMode(): void {
     this.debugMode = !this.debugMode;
     this.debugGraphics.setVisible(this.debugMode);
     this.debugText.setVisible(this.debugMode);
+    this.profilerText.setVisible(this.debugMode);
+    this.systemToggles.forEach(toggle => toggle.setVisible(this.debugMode));
+    this.debugOverlay.setVisible(this.debugMode);
     
     if (!this.debugMode) {
       this.debugGraphics.clear();
     }
   }
 
-  private updateDebugVisuals(): void {
+  private updateDebugVisuals(gameTime: number): void {
     if (!this.player || !this.debugMode) return;
     
     const playerBody = this.player.sprite.body as Phaser.Physics.Arcade.Body;
@@ -657,6 +1291,9 @@ export class GameScene extends Scene {
     this.debugGraphics.fillStyle(0xff8800, 1);
     this.debugGraphics.fillCircle(bodyCenterX, bodyCenterY, 3);
     
+    // 6. Holes and guards
+    this.systemRegistry.measure('debug overlay', () => this.debugOverlay.draw(gameTime, this.guards));
+    
     // Update debug text with all coordinate information
     this.updateDebugText(playerBody, bodyCenterX, bodyCenterY);
   }
@@ -677,7 +1314,7 @@ export class GameScene extends Scene {
     
     const debugInfo = [
       'DEBUG MODE - All Sprite & Body Coordinates',
-      '(Press J to toggle off)',
+      `(Press ${KeyBindingManager.describe('debug')} to toggle off)`,
       '',
       '=== SPRITE INFORMATION ===',
       `Sprite Center (x,y): (${this.player.sprite.x.toFixed(1)}, ${this.player.sprite.y.toFixed(1)})`,
@@ -717,12 +1354,44 @@ export class GameScene extends Scene {
       'BLUE: Collision body (physics)',
       'GREEN: Tile grid (32x32)',
       'YELLOW: Sprite center',
-      'ORANGE: Body center'
+      'ORANGE: Body center',
+      'HOLE BAR: Time left from t1 to t2',
+      'GREEN/RED BOX: Climb exit open/blocked',
+      'MAGENTA: Guard planned path',
+      'CYAN: Guard steering target',
+      'ORANGE LABEL: Prediction differs from timeline'
     ];
     
     this.debugText.setText(debugInfo.join('\n'));
   }
 
+  // One line per system: last frame, moving average and recent peak in ms
+  private updateProfiler(): void {
+    const format = (ms: number) => ms.toFixed(2).padStart(6);
+    const lines = this.systemRegistry.getTimings().map(timing => {
+      const name = timing.name.padEnd(16);
+      if (!timing.enabled) {
+        return `${name}      (disabled)`;
+      }
+      const errors = timing.errors > 0 ? `  ${timing.errors} err` : '';
+      return `${name}${format(timing.lastMs)}${format(timing.averageMs)}${format(timing.peakMs)}${errors}`;
+    });
+
+    this.profilerText.setText([
+      '=== FRAME TIME (ms) ===',
+      `${''.padEnd(16)}  last   avg  peak`,
+      ...lines
+    ].join('\n'));
+
+    let y = this.profilerText.y + this.profilerText.height + 4;
+    this.systemToggles.forEach(toggle => {
+      const name: string = toggle.getData('system');
+      toggle.setText(`${this.systemRegistry.isEnabled(name) ? 'DISABLE' : 'ENABLE'} ${name.toUpperCase()}`)
+        .setPosition(this.profilerText.x, y);
+      y += toggle.height + 2;
+    });
+  }
+
   private updateGuards(gameTime: number, delta: number): void {
     this.guards.forEach(guard => {
       guard.update(gameTime, delta);  // Pass consistent gameTime to guard
@@ -846,19 +1515,32 @@ export class GameScene extends Scene {
   
 
 
-  private handlePlayerDeath(): void {
+  private handlePlayerDeath(cause: PlayerDeathCause): void {
     GameLogger.debug(`Player death - Lives: ${this.gameState.lives} → ${this.gameState.lives - 1}`);
     
-    // Handle player death
-    this.gameState.lives -= 1;
+    // Play tests end on the first death and don't cost lives
+    if (this.isPlayTest()) {
+      this.eventBus.emit('playerDied', { cause, livesLeft: this.gameState.lives });
+      this.returnToEditor('died');
+      return;
+    }
     
-    // Play death sound
-    this.player.die();
+    // A restart from the pause menu is the player's choice, not something a replay can play out
+    this.endAttempt(cause === 'restart' ? 'stopped' : 'died');
+    if (this.isReplayRun()) {
+      return;
+    }
+    
+    // Handle player death; practice runs and bug reports retry the level for free
+    if (!this.isPracticeRun() && !this.isBugReportRun()) {
+      this.gameState.lives -= 1;
+    }
+    
+    this.eventBus.emit('playerDied', { cause, livesLeft: this.gameState.lives });
     
     if (this.gameState.lives <= 0) {
       GameLogger.info('Game Over - All lives lost');
-      // Game over - go to menu
-      this.scene.start(SCENE_KEYS.MENU);
+      this.endRun('lost', this.gameState.currentLevel);
     } else {
       GameLogger.debug('Restarting level - Lives remaining: ' + this.gameState.lives);
       // Restart the level (preserving lives and current level)
@@ -866,16 +1548,311 @@ export class GameScene extends Scene {
     }
   }
 
+  // Every frame of the level runs through stepFrame() instead of straight into the scene
+  private initializeFrames(): void {
+    this.frameClock = 0;
+    this.frameCount = 0;
+    this.sys.step = (_time: number, delta: number) => this.stepFrame(delta);
+  }
+  
+  // Latch the frame's input, move the frame clock on and step the scene on it.
+  // Recording keeps each frame's input, time and speed; playback hands them
+  // back, so the scene sees the frames the recording saw. The scene's Clock
+  // (every delayedCall - dig completion, hole refill, guard escape, respawn
+  // and reborn) and sprite animations advance by the delta handed to step(),
+  // so they run on the frame clock too. Tweens count wall time and only fade
+  // and float things, so nothing in play waits on them and they can drift.
+  private stepFrame(delta: number): void {
+    let bits: number | undefined;
+    if (this.replayPlayer) {
+      const frame = this.replayResult ? null : this.replayPlayer.next();
+      if (!frame) {
+        this.endAttempt('stopped');
+        return; // Nothing left to play; the level stays as the replay left it
+      }
+      bits = frame.bits;
+      delta = frame.deltaMs;
+      this.pendingGameSpeed = frame.gameSpeed;
+    } else {
+      delta = Math.round(delta * 10) / 10; // As it is recorded, so playback has the same frame times
+    }
+    
+    // The frame the attempt ends on is the last one recorded
+    const recording = this.replayRecorder !== null && !this.replayResult;
+    this.frameCount++;
+    this.frameClock += delta;
+    const frameBits = this.inputManager.latchFrame(bits);
+    Phaser.Scenes.Systems.prototype.step.call(this.sys, this.frameClock, delta);
+    
+    if (recording) {
+      this.replayRecorder!.record(frameBits, delta, this.gameSpeed);
+    }
+  }
+  
+  private initializePause(): void {
+    this.gameSpeed = 1;
+    this.gameClockBase = 0;
+    this.frameClockBase = 0;
+    this.time.timeScale = 1;    // Clocks outlive a restart; a changed speed is applied on the first frame
+    this.tweens.timeScale = 1;
+    this.pendingGameSpeed = SettingsManager.getSettings().gameSpeed;
+    
+    // Pause automatically when the tab is hidden or the window loses focus
+    this.game.events.on(Phaser.Core.Events.BLUR, this.pauseGame, this);
+    this.game.events.on(Phaser.Core.Events.HIDDEN, this.pauseGame, this);
+    this.events.once(Phaser.Scenes.Events.SHUTDOWN, () => {
+      this.game.events.off(Phaser.Core.Events.BLUR, this.pauseGame, this);
+      this.game.events.off(Phaser.Core.Events.HIDDEN, this.pauseGame, this);
+      this.anims.globalTimeScale = 1; // Animations are shared with every other scene
+    });
+  }
+  
+  /**
+   * Gameplay clock in milliseconds - the frame clock, which stands still while
+   * paused, running at the game speed setting
+   */
+  public getGameTime(): number {
+    return this.gameClockBase + (this.frameClock - this.frameClockBase) * this.gameSpeed;
+  }
+  
+  // The speed is only changed from inside update(), where the frame clock is
+  // current, so the gameplay clock carries on from where it was. Setting the
+  // speed it already has changes nothing, so a recording and its playback rebase the clock on the same frames.
+  private applyPendingGameSpeed(): void {
+    if (this.pendingGameSpeed === null) {
+      return;
+    }
+    const speed = this.pendingGameSpeed;
+    this.pendingGameSpeed = null;
+    if (speed === this.gameSpeed) {
+      return;
+    }
+    
+    this.gameClockBase = this.getGameTime();
+    this.frameClockBase = this.frameClock;
+    this.gameSpeed = speed;
+    
+    this.time.timeScale = speed;
+    this.tweens.timeScale = speed;
+    this.anims.globalTimeScale = speed;
+    this.physics.world.timeScale = 1 / speed; // Arcade physics counts timeScale as slow motion
+    GameLogger.debug(`Game speed set to ${SettingsManager.getSpeedLabel(speed)}`);
+  }
+  
+  /**
+   * Freeze the level and show the pause menu
+   */
+  public pauseGame(): void {
+    if (!this.scene.isActive() || this.levelCompleting) {
+      return; // Already paused, or the level is ending anyway
+    }
+    
+    this.physics.pause();
+    this.sound.pauseAll();
+    this.scene.pause();
+    this.scene.launch(SCENE_KEYS.PAUSE);
+    GameLogger.debug('Game paused');
+  }
+  
+  /**
+   * Close the pause menu and carry on where the level left off
+   */
+  public resumeGame(): void {
+    this.pendingGameSpeed = SettingsManager.getSettings().gameSpeed; // May have changed in the settings
+    
+    // Keys released while paused were never seen by this scene
+    this.input.keyboard?.resetKeys();
+    this.physics.resume();
+    this.sound.resumeAll();
+    this.scene.stop(SCENE_KEYS.PAUSE);
+    this.scene.resume();
+    GameLogger.debug('Game resumed');
+  }
+  
+  // Errors thrown outside update() - timers, tweens, physics callbacks - end up on window
+  private initializeCrashHandling(): void {
+    this.crashed = false;
+    
+    const onError = (event: ErrorEvent) => this.crash(event.error ?? new Error(event.message));
+    const onRejection = (event: PromiseRejectionEvent) => this.crash(event.reason);
+    window.addEventListener('error', onError);
+    window.addEventListener('unhandledrejection', onRejection);
+    this.events.once(Phaser.Scenes.Events.SHUTDOWN, () => {
+      window.removeEventListener('error', onError);
+      window.removeEventListener('unhandledrejection', onRejection);
+    });
+  }
+  
+  /**
+   * Freeze the level and show the crash overlay with a bug report of this moment
+   */
+  private crash(error: unknown): void {
+    if (this.crashed) {
+      return; // One failure often sets off more; the first one is the report
+    }
+    this.crashed = true;
+    GameLogger.error('Game crashed', error);
+    
+    let report: BugReport | null = null;
+    try {
+      report = this.createBugReport(error);
+    } catch (reportError) {
+      GameLogger.error('Could not build a bug report', reportError);
+    }
+    
+    this.physics.pause();
+    this.sound.pauseAll();
+    this.scene.pause();
+    const crashData: CrashSceneData = {
+      message: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+      report
+    };
+    this.scene.launch(SCENE_KEYS.CRASH, crashData);
+  }
+  
+  /**
+   * Everything needed to look into a crash: the level, where everyone was,
+   * the holes and their timeline, and the recent log
+   */
+  private createBugReport(error: unknown): BugReport {
+    const pack = LevelPackManager.getSelectedPack(this);
+    
+    return {
+      version: BUG_REPORT_VERSION,
+      buildVersion: BUILD_VERSION,
+      createdAt: new Date().toISOString(),
+      userAgent: navigator.userAgent,
+      error: {
+        message: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined
+      },
+      packId: pack.id,
+      levelNumber: this.gameState.currentLevel,
+      levelKey: this.isPlayTest() ? 'playtest' : this.getBugReport()?.levelKey ?? LevelPackManager.getLevelKey(pack, this.gameState.currentLevel),
+      levelData: this.registry.get('playTestLevel') ?? this.getBugReport()?.levelData ??
+        LevelPackManager.getLevelData(this, pack, this.gameState.currentLevel) ?? [],
+      seed: this.registry.get('gameSeed') ?? 0,
+      guardBrain: this.guardBrainId,
+      state: this.captureLevelState(),
+      replay: this.createGameReplay() ?? undefined,
+      systems: this.systemRegistry.getTimings(),
+      log: Logger.getEntries().slice(-BugReportManager.LOG_ENTRIES)
+    };
+  }
+  
+  /**
+   * Start the level over after a crash; the crash costs no life
+   */
+  public restartAfterCrash(): void {
+    this.sound.stopAll();
+    this.scene.restart();
+  }
+  
+  /**
+   * Start the level over; costs a life like dying does
+   */
+  public restartLevel(): void {
+    this.sound.resumeAll();
+    if (this.isPlayTest() || this.isReplayRun()) {
+      this.scene.restart(); // Play tests have no lives to lose; replays play from the start again
+      return;
+    }
+    this.handlePlayerDeath('restart');
+  }
+  
+  /**
+   * Leave the level for the menu (the editor when play testing, level select when practicing)
+   */
+  public quitToMenu(): void {
+    this.sound.stopAll();
+    if (this.replayRecorder) {
+      this.endAttempt('stopped'); // Before the game state is reset below
+    }
+    if (this.isPlayTest()) {
+      this.returnToEditor('quit');
+      return;
+    }
+    if (this.isPracticeRun()) {
+      this.registry.remove('practiceRun');
+      this.gameState = { currentLevel: 1, score: 0, lives: 3, goldCollected: 0, totalGold: 0 };
+      this.scene.start(SCENE_KEYS.LEVEL_SELECT);
+      return;
+    }
+    if (this.isBugReportRun() || this.isReplayRun()) {
+      this.registry.remove('bugReport');
+      this.registry.remove('gameReplay');
+      this.gameState = { currentLevel: 1, score: 0, lives: 3, goldCollected: 0, totalGold: 0 };
+    }
+    this.scene.start(SCENE_KEYS.MENU);
+  }
+
+  /**
+   * True while running a level from the editor's play test
+   */
+  public isPlayTest(): boolean {
+    return !!this.registry.get('playTestLevel');
+  }
+
+  /**
+   * True while running levels started from level select in practice mode
+   * Practice runs cost no lives and leave the campaign autosave alone.
+   */
+  public isPracticeRun(): boolean {
+    return !!this.registry.get('practiceRun');
+  }
+
+  /**
+   * True while replaying a bug report loaded from the main menu
+   * Like practice runs, they cost no lives and save nothing.
+   */
+  public isBugReportRun(): boolean {
+    return !!this.registry.get('bugReport');
+  }
+
+  private getBugReport(): BugReport | undefined {
+    return this.registry.get('bugReport');
+  }
+
+  /**
+   * True while playing back a replay started from the main menu
+   * Nothing is recorded or saved, and the level stops where the replay ends.
+   */
+  public isReplayRun(): boolean {
+    return !!this.registry.get('gameReplay');
+  }
+
+  private getGameReplay(): GameReplay | undefined {
+    return this.registry.get('gameReplay');
+  }
+
+  // Set by a quick load or a level save opened from the main menu; cleared once restored
+  private getLevelSave(): LevelSave | undefined {
+    return this.registry.get('levelSave');
+  }
+
+  private returnToEditor(result: 'complete' | 'died' | 'quit'): void {
+    this.registry.remove('playTestLevel');
+    
+    // Play tests must not leak score or lives into the next real game
+    this.gameState = { currentLevel: 1, score: 0, lives: 3, goldCollected: 0, totalGold: 0 };
+    this.scene.start(SCENE_KEYS.EDITOR, { playTestResult: result });
+  }
+
   private addStartupInvincibility(): void {
     // Give player brief invincibility when level starts
     // (especially useful after death/restart)
-    this.playerInvincible = true;
-    this.invincibilityEndTime = this.time.now + 2000; // 2 seconds
-    this.player.activateInvincibility(2000); // Use Player entity's invincibility system
+    this.activatePlayerInvincibility(2000); // 2 seconds
     
     GameLogger.debug('Startup invincibility activated for 2 seconds');
   }
   
+  private activatePlayerInvincibility(duration: number): void {
+    this.playerInvincible = true;
+    this.invincibilityEndTime = this.getGameTime() + duration;
+    this.player.activateInvincibility(duration); // Use Player entity's invincibility system
+  }
+  
   /**
    * End player invincibility period - used by CollisionSystem delegation
    */
@@ -903,11 +1880,10 @@ export class GameScene extends Scene {
     }
   }
 
-  destroy(): void {
-    // Clean up hole system
-    if (this.holeSystem) {
-      this.holeSystem.cleanup();
-    }
+  // Runs on scene shutdown; Phaser never calls a scene's own destroy()
+  private cleanup(): void {
+    // Clean up hole, level and collision systems
+    this.systemRegistry?.cleanupAll();
     
     // Clean up guards
     if (this.guards) {
@@ -916,8 +1892,6 @@ export class GameScene extends Scene {
       });
       this.guards = [];
     }
-    
-    // Level tiles cleanup now handled by LevelSystem
   }
   
   // === DELEGATION METHODS FOR HOLESYSTEM ===
@@ -934,6 +1908,14 @@ export class GameScene extends Scene {
     return guards.length > 0;
   }
   
+  /**
+   * Check if any guard is still holding gold
+   * Used by LevelSystem to block level completion
+   */
+  public isGoldCarriedByGuard(): boolean {
+    return this.guards.some(guard => guard.isCarryingGold());
+  }
+  
   /**
    * Check if player is standing on top of guards in a hole
    * Used by HoleSystem for Rule 8 platform mechanics
@@ -967,9 +1949,9 @@ export class GameScene extends Scene {
   
   /**
    * Check if player is trapped in a filling hole
-   * Used by HoleSystem before hole fills
+   * Runs on holeFilled, before the brick comes back
    */
-  public checkPlayerTrappedInHole(gridX: number, gridY: number): void {
+  private checkPlayerTrappedInHole(gridX: number, gridY: number): void {
     // Check if player is in the same grid position as the hole that's about to fill
     const playerX = Math.floor(this.player.sprite.x / GAME_CONFIG.tileSize);
     const playerY = Math.floor(this.player.sprite.y / GAME_CONFIG.tileSize);
@@ -977,15 +1959,15 @@ export class GameScene extends Scene {
     if (playerX === gridX && playerY === gridY) {
       // Player is trapped in the hole that's filling - kill player
       GameLogger.debug(`Player trapped in filling hole at (${gridX}, ${gridY}) - triggering death`);
-      this.handlePlayerDeath();
+      this.handlePlayerDeath('trapped');
     }
   }
   
   /**
    * Check if guards can escape before hole fills
-   * Used by HoleSystem before hole fills
+   * Runs on holeFilled, after the trapped player check
    */
-  public checkGuardEscapeBeforeHoleFills(holeKey: string): void {
+  private checkGuardEscapeBeforeHoleFills(holeKey: string): void {
     GameLogger.debug(`[ESCAPE DEBUG] Checking guards in hole ${holeKey} before it fills`);
     
     // Get the timeline data for this hole
@@ -0,0 +1,364 @@
+import { Scene } from 'phaser';
+import { SCENE_KEYS, GAME_CONFIG, TILE_TYPES, GAMEPAD_BUTTONS } from '@/config/GameConfig';
+import { AssetManager } from '@/managers/AssetManager';
+import { LevelPackManager } from '@/managers/LevelPackManager';
+import { InputManager } from '@/managers/InputManager';
+import { ProgressManager, LevelRecord, CampaignRun } from '@/managers/ProgressManager';
+import { LevelPackInfo } from '@/types/GameTypes';
+import { Logger, LogCategory } from '@/utils/Logger';
+
+const COLUMNS = 5;
+const VISIBLE_ROWS = 3;
+const MINI_TILE = 5;          // Miniature pixels per level tile
+const CELL_WIDTH = 172;
+const CELL_HEIGHT = 142;
+const GRID_TOP = 110;
+
+// Miniature colours per tile type; hidden exit ladders and empty cells are left dark
+const TILE_COLORS: Record<number, number> = {
+  [TILE_TYPES.BRICK]: 0xa0522d,
+  [TILE_TYPES.TRAP]: 0xa0522d,
+  [TILE_TYPES.SOLID]: 0x888888,
+  [TILE_TYPES.LADDER]: 0xdddddd,
+  [TILE_TYPES.ROPE]: 0xc8b560
+};
+const GOLD_COLOR = 0xffd700;
+const GUARD_COLOR = 0xff3333;
+const PLAYER_COLOR = 0x33ccff;
+
+type ParsedLevel = ReturnType<typeof AssetManager.parseLevelData>;
+
+/**
+ * LevelSelectScene - scrollable grid of the selected pack's levels
+ * Each entry shows a miniature of the level, its number and the best score
+ * and time. Levels past the furthest one reached stay locked unless practice
+ * mode is on; practice runs cost no lives and skip the campaign autosave.
+ */
+export class LevelSelectScene extends Scene {
+  private pack!: LevelPackInfo;
+  private levelCount = 0;
+  private highestLevel = 1;
+  private practiceMode = false;
+  private selectedLevel = 1;
+  private topRow = 0;
+  private confirmLevel: number | null = null;   // Level waiting on the replace-run prompt
+
+  private parsedLevels: Map<number, ParsedLevel> = new Map();
+  private gridObjects!: Phaser.GameObjects.Group;
+  private headerText!: Phaser.GameObjects.Text;
+  private promptObjects!: Phaser.GameObjects.Group;
+
+  private logger = Logger.createCategoryLogger(LogCategory.UI);
+
+  constructor() {
+    super({ key: SCENE_KEYS.LEVEL_SELECT });
+  }
+
+  create(): void {
+    this.cameras.main.setBackgroundColor('#001122');
+
+    this.pack = LevelPackManager.getSelectedPack(this);
+    this.levelCount = LevelPackManager.getLevelCount(this, this.pack);
+    this.highestLevel = Math.min(ProgressManager.getHighestLevel(this.pack.id), Math.max(1, this.levelCount));
+    this.practiceMode = !!this.registry.get('practiceMode');
+    this.selectedLevel = this.highestLevel;
+    this.topRow = 0;
+    this.confirmLevel = null;
+    this.parsedLevels.clear();
+
+    this.createUI();
+    this.setupInput();
+    this.scrollToSelection();
+    this.renderGrid();
+  }
+
+  private createUI(): void {
+    const centerX = this.cameras.main.width / 2;
+
+    this.add.text(centerX, 36, 'LEVEL SELECT', {
+      fontSize: '40px',
+      color: '#ffff00',
+      fontFamily: 'Arial, sans-serif',
+      stroke: '#000000',
+      strokeThickness: 4
+    }).setOrigin(0.5);
+
+    this.headerText = this.add.text(centerX, 80, '', {
+      fontSize: '20px',
+      color: '#ffffff',
+      fontFamily: 'Arial, sans-serif'
+    }).setOrigin(0.5);
+
+    this.add.text(centerX, GAME_CONFIG.height - 22, 'ARROWS - Choose   ENTER - Play   P - Practice mode   ESC - Menu', {
+      fontSize: '18px',
+      color: '#cccccc',
+      fontFamily: 'Arial, sans-serif'
+    }).setOrigin(0.5);
+
+    this.gridObjects = this.add.group();
+    this.promptObjects = this.add.group();
+  }
+
+  private setupInput(): void {
+    this.input.keyboard!.on('keydown-LEFT', () => this.moveSelection(-1));
+    this.input.keyboard!.on('keydown-RIGHT', () => this.moveSelection(1));
+    this.input.keyboard!.on('keydown-UP', () => this.moveSelection(-COLUMNS));
+    this.input.keyboard!.on('keydown-DOWN', () => this.moveSelection(COLUMNS));
+    this.input.keyboard!.on('keydown-ENTER', () => this.startLevel(this.selectedLevel));
+    this.input.keyboard!.on('keydown-SPACE', () => this.startLevel(this.selectedLevel));
+    this.input.keyboard!.on('keydown-P', () => this.togglePractice());
+    this.input.keyboard!.on('keydown-ESC', () => {
+      if (this.confirmLevel !== null) {
+        this.closePrompt();
+      } else {
+        this.scene.start(SCENE_KEYS.MENU);
+      }
+    });
+    
+    InputManager.bindMenuGamepad(this, {
+      [GAMEPAD_BUTTONS.A]: 'ENTER',
+      [GAMEPAD_BUTTONS.START]: 'ENTER',
+      [GAMEPAD_BUTTONS.Y]: 'P',
+      [GAMEPAD_BUTTONS.B]: 'ESC'
+    });
+
+    // Mouse wheel scrolls a row at a time without moving the selection
+    this.input.on('wheel', (_pointer: Phaser.Input.Pointer, _objects: unknown, _dx: number, dy: number) => {
+      this.scrollTo(this.topRow + Math.sign(dy));
+    });
+  }
+
+  private moveSelection(offset: number): void {
+    const next = this.selectedLevel + offset;
+    if (next < 1 || next > this.levelCount) {
+      return;
+    }
+    this.closePrompt();
+    this.selectedLevel = next;
+    this.scrollToSelection();
+    this.renderGrid();
+  }
+
+  // Keep the selected level's row on screen
+  private scrollToSelection(): void {
+    const row = Math.floor((this.selectedLevel - 1) / COLUMNS);
+    if (row < this.topRow) {
+      this.topRow = row;
+    } else if (row >= this.topRow + VISIBLE_ROWS) {
+      this.topRow = row - VISIBLE_ROWS + 1;
+    }
+  }
+
+  private scrollTo(topRow: number): void {
+    const lastTopRow = Math.max(0, Math.ceil(this.levelCount / COLUMNS) - VISIBLE_ROWS);
+    const clamped = Math.max(0, Math.min(lastTopRow, topRow));
+    if (clamped !== this.topRow) {
+      this.topRow = clamped;
+      this.renderGrid();
+    }
+  }
+
+  private togglePractice(): void {
+    this.closePrompt();
+    this.practiceMode = !this.practiceMode;
+    this.registry.set('practiceMode', this.practiceMode);
+    this.renderGrid();
+  }
+
+  private isUnlocked(level: number): boolean {
+    return this.practiceMode || level <= this.highestLevel;
+  }
+
+  /**
+   * Rebuild the visible rows; only on-screen entries are drawn
+   */
+  private renderGrid(): void {
+    this.gridObjects.clear(true, true);
+
+    const totalRows = Math.ceil(this.levelCount / COLUMNS);
+    const practice = this.practiceMode ? 'ON' : 'OFF';
+    this.headerText.setText(
+      `${this.pack.name.toUpperCase()}   REACHED: ${this.highestLevel}/${this.levelCount}   PRACTICE: ${practice}` +
+      (totalRows > VISIBLE_ROWS ? `   ROWS ${this.topRow + 1}-${Math.min(totalRows, this.topRow + VISIBLE_ROWS)} OF ${totalRows}` : '')
+    );
+
+    if (this.levelCount === 0) {
+      this.gridObjects.add(this.add.text(this.cameras.main.width / 2, 300, 'This pack has no levels', {
+        fontSize: '24px',
+        color: '#cccccc',
+        fontFamily: 'Arial, sans-serif'
+      }).setOrigin(0.5));
+      return;
+    }
+
+    const gridLeft = (this.cameras.main.width - COLUMNS * CELL_WIDTH) / 2;
+    for (let row = this.topRow; row < this.topRow + VISIBLE_ROWS; row++) {
+      for (let column = 0; column < COLUMNS; column++) {
+        const level = row * COLUMNS + column + 1;
+        if (level > this.levelCount) {
+          return;
+        }
+        this.renderEntry(level, gridLeft + column * CELL_WIDTH, GRID_TOP + (row - this.topRow) * CELL_HEIGHT);
+      }
+    }
+  }
+
+  private renderEntry(level: number, x: number, y: number): void {
+    const selected = level === this.selectedLevel;
+    const unlocked = this.isUnlocked(level);
+    const miniWidth = GAME_CONFIG.levelWidth * MINI_TILE;
+    const miniHeight = GAME_CONFIG.levelHeight * MINI_TILE;
+    const miniX = x + (CELL_WIDTH - miniWidth) / 2;
+    const miniY = y + 4;
+
+    const frame = this.add.rectangle(miniX - 3, miniY - 3, miniWidth + 6, miniHeight + 6, 0x000000)
+      .setOrigin(0, 0)
+      .setStrokeStyle(2, selected ? 0xffff00 : 0x335577)
+      .setInteractive({ useHandCursor: true })
+      .on('pointerdown', () => {
+        if (level === this.selectedLevel) {
+          this.startLevel(level);
+        } else {
+          this.closePrompt();
+          this.selectedLevel = level;
+          this.renderGrid();
+        }
+      });
+    this.gridObjects.add(frame);
+
+    const miniature = this.drawMiniature(level, miniX, miniY);
+    miniature.setAlpha(unlocked ? 1 : 0.25);
+    this.gridObjects.add(miniature);
+
+    if (!unlocked) {
+      this.gridObjects.add(this.add.text(miniX + miniWidth / 2, miniY + miniHeight / 2, 'LOCKED', {
+        fontSize: '18px',
+        color: '#ff6666',
+        fontFamily: 'Arial, sans-serif'
+      }).setOrigin(0.5));
+    }
+
+    this.gridObjects.add(this.add.text(x + CELL_WIDTH / 2, miniY + miniHeight + 6, `LEVEL ${level}`, {
+      fontSize: '16px',
+      color: selected ? '#ffff00' : '#ffffff',
+      fontFamily: 'Arial, sans-serif'
+    }).setOrigin(0.5, 0));
+
+    this.gridObjects.add(this.add.text(x + CELL_WIDTH / 2, miniY + miniHeight + 26, this.formatRecord(ProgressManager.getLevelRecord(this.pack.id, level)), {
+      fontSize: '13px',
+      color: '#aaaaaa',
+      fontFamily: 'monospace'
+    }).setOrigin(0.5, 0));
+  }
+
+  private drawMiniature(level: number, x: number, y: number): Phaser.GameObjects.Graphics {
+    const graphics = this.add.graphics({ x, y });
+    const parsed = this.getParsedLevel(level);
+    if (!parsed) {
+      return graphics;
+    }
+
+    parsed.tiles.forEach((row, gridY) => {
+      row.forEach((tileType, gridX) => {
+        const color = TILE_COLORS[tileType];
+        if (color !== undefined) {
+          graphics.fillStyle(color, 1);
+          graphics.fillRect(gridX * MINI_TILE, gridY * MINI_TILE, MINI_TILE, MINI_TILE);
+        }
+      });
+    });
+
+    // Level data positions are pixel centres
+    const mark = (position: { x: number; y: number }, color: number) => {
+      graphics.fillStyle(color, 1);
+      graphics.fillRect(
+        Math.floor(position.x / GAME_CONFIG.tileSize) * MINI_TILE + 1,
+        Math.floor(position.y / GAME_CONFIG.tileSize) * MINI_TILE + 1,
+        MINI_TILE - 2,
+        MINI_TILE - 2
+      );
+    };
+    parsed.gold.forEach(position => mark(position, GOLD_COLOR));
+    parsed.guards.forEach(position => mark(position, GUARD_COLOR));
+    mark(parsed.playerStart, PLAYER_COLOR);
+
+    return graphics;
+  }
+
+  private getParsedLevel(level: number): ParsedLevel | null {
+    let parsed = this.parsedLevels.get(level);
+    if (!parsed) {
+      const levelData = LevelPackManager.getLevelData(this, this.pack, level);
+      if (!levelData) {
+        return null;
+      }
+      parsed = AssetManager.parseLevelData(levelData);
+      this.parsedLevels.set(level, parsed);
+    }
+    return parsed;
+  }
+
+  private showPrompt(level: number, run: CampaignRun): void {
+    this.closePrompt();
+    this.confirmLevel = level;
+
+    const centerX = this.cameras.main.width / 2;
+    const centerY = this.cameras.main.height / 2;
+    this.promptObjects.add(this.add.rectangle(centerX, centerY, 620, 150, 0x000000, 0.9)
+      .setStrokeStyle(2, 0xffff00)
+      .setDepth(10)
+      .setInteractive({ useHandCursor: true })
+      .on('pointerdown', () => this.startLevel(level)));
+    this.promptObjects.add(this.add.text(centerX, centerY, [
+      `START LEVEL ${level}?`,
+      `This replaces your saved run (level ${run.level}, score ${run.score}).`,
+      'ENTER or tap - Start   ESC - Keep the run   P - Practice instead'
+    ].join('\n'), {
+      fontSize: '18px',
+      color: '#ffffff',
+      fontFamily: 'Arial, sans-serif',
+      align: 'center',
+      lineSpacing: 10
+    }).setOrigin(0.5).setDepth(10));
+  }
+
+  private closePrompt(): void {
+    this.confirmLevel = null;
+    this.promptObjects.clear(true, true);
+  }
+
+  private formatRecord(record: LevelRecord | null): string {
+    if (!record) {
+      return 'BEST  --';
+    }
+    const seconds = Math.floor(record.bestTime / 1000);
+    const time = `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+    return `BEST ${record.bestScore}  ${time}`;
+  }
+
+  private startLevel(level: number): void {
+    if (!this.isUnlocked(level)) {
+      return;
+    }
+
+    // Outside practice a new start replaces the run CONTINUE would resume, so ask first
+    const run = this.practiceMode ? null : ProgressManager.getRun(this.pack.id);
+    if (run && this.confirmLevel !== level) {
+      this.showPrompt(level, run);
+      return;
+    }
+
+    this.logger.info(`Starting ${this.pack.id} level ${level}${this.practiceMode ? ' in practice mode' : ''}`);
+    this.registry.remove('gameSeed'); // New session, new gameplay seed
+    this.registry.remove('playTestLevel');
+    this.registry.remove('bugReport');
+    this.registry.set('campaignStart', 'new');
+    this.registry.set('startLevel', level);
+    if (this.practiceMode) {
+      this.registry.set('practiceRun', true);
+    } else {
+      this.registry.remove('practiceRun');
+    }
+    this.scene.start(SCENE_KEYS.GAME);
+  }
+}
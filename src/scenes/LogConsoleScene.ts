@@ -0,0 +1,225 @@
+import { Scene } from 'phaser';
+import { SCENE_KEYS, GAMEPAD_BUTTONS, BUILD_VERSION } from '@/config/GameConfig';
+import { InputManager } from '@/managers/InputManager';
+import { Logger, LogCategory, LogLevel, LogEntry } from '@/utils/Logger';
+import { FileTransfer } from '@/utils/FileTransfer';
+
+export interface LogConsoleSceneData {
+  returnTo?: 'menu' | 'pause';   // Where ESC goes; 'pause' draws over the paused game
+}
+
+const CATEGORIES: (LogCategory | undefined)[] = [undefined, ...Object.values(LogCategory)];
+const LEVELS = [LogLevel.DEBUG, LogLevel.INFO, LogLevel.WARN, LogLevel.ERROR];
+const LEVEL_COLORS: Record<LogLevel, string> = {
+  [LogLevel.DEBUG]: '#888888',
+  [LogLevel.INFO]: '#ffffff',
+  [LogLevel.WARN]: '#ffcc00',
+  [LogLevel.ERROR]: '#ff6666'
+};
+
+const LIST_TOP = 112;
+const LINE_HEIGHT = 15;
+const VISIBLE_LINES = 28;
+const LINE_CHARS = 118;       // What fits across the screen in 12px monospace
+
+/**
+ * LogConsoleScene - browse and export the logger's ring buffer in game
+ * Every category is buffered even in production builds, so testers can read
+ * GUARD_AI or HOLE_MECHANICS traces and save them to a file without
+ * devtools. Opened from the pause menu (over the frozen game) or from the
+ * main menu with L. The list follows new entries until scrolled back.
+ */
+export class LogConsoleScene extends Scene {
+  private returnTo: 'menu' | 'pause' = 'menu';
+  private categoryIndex = 0;
+  private levelIndex = 0;
+  private scrollOffset = 0;     // Lines scrolled back from the newest entry
+  private shownTotal = -1;      // Logger total when the list was last drawn
+  private shownCount = 0;       // Entries passing the filter when the list was last drawn
+
+  private categoryText!: Phaser.GameObjects.Text;
+  private levelText!: Phaser.GameObjects.Text;
+  private countText!: Phaser.GameObjects.Text;
+  private statusText!: Phaser.GameObjects.Text;
+  private lineTexts: Phaser.GameObjects.Text[] = [];
+
+  constructor() {
+    super({ key: SCENE_KEYS.LOG_CONSOLE });
+  }
+
+  init(data: LogConsoleSceneData): void {
+    this.returnTo = data.returnTo ?? 'menu';
+  }
+
+  create(): void {
+    const { width, height } = this.cameras.main;
+    if (this.returnTo === 'pause') {
+      this.add.rectangle(0, 0, width, height, 0x000000, 0.85).setOrigin(0, 0);
+    } else {
+      this.cameras.main.setBackgroundColor('#001122');
+    }
+
+    this.scrollOffset = 0;
+    this.shownTotal = -1;
+    this.shownCount = 0;
+    this.lineTexts = [];
+
+    this.createUI();
+    this.setupInput();
+    this.refresh();
+  }
+
+  update(): void {
+    // New entries arrive while the console is open (the menu keeps logging)
+    if (Logger.getTotalEntryCount() !== this.shownTotal) {
+      this.refresh();
+    }
+  }
+
+  private createUI(): void {
+    const { width, height } = this.cameras.main;
+
+    this.add.text(width / 2, 26, 'LOG CONSOLE', {
+      fontSize: '32px',
+      color: '#ffff00',
+      fontFamily: 'Arial, sans-serif',
+      stroke: '#000000',
+      strokeThickness: 4
+    }).setOrigin(0.5);
+
+    const headerStyle = { fontSize: '18px', color: '#ffffff', fontFamily: 'Arial, sans-serif' };
+    this.categoryText = this.add.text(20, 62, '', headerStyle);
+    this.categoryText.setInteractive({ useHandCursor: true }).on('pointerdown', () => this.cycleCategory(1));
+    this.levelText = this.add.text(340, 62, '', headerStyle);
+    this.levelText.setInteractive({ useHandCursor: true }).on('pointerdown', () => this.cycleLevel());
+    this.countText = this.add.text(width - 20, 62, '', { ...headerStyle, color: '#cccccc' }).setOrigin(1, 0);
+
+    for (let index = 0; index < VISIBLE_LINES; index++) {
+      this.lineTexts.push(this.add.text(20, LIST_TOP + index * LINE_HEIGHT, '', {
+        fontSize: '12px',
+        color: '#ffffff',
+        fontFamily: 'monospace'
+      }));
+    }
+
+    // Tappable actions for touch screens
+    const actions: [string, () => void][] = [
+      ['EXPORT', () => this.exportLog()],
+      ['CLEAR', () => this.clearLog()],
+      ['BACK', () => this.goBack()]
+    ];
+    actions.forEach(([label, action], index) => {
+      this.add.text(20 + index * 110, 88, `[${label}]`, { ...headerStyle, fontSize: '16px', color: '#66ccff' })
+        .setInteractive({ useHandCursor: true })
+        .on('pointerdown', action);
+    });
+
+    this.statusText = this.add.text(width - 20, 88, '', { ...headerStyle, fontSize: '16px', color: '#cccccc' }).setOrigin(1, 0);
+
+    this.add.text(width / 2, height - 14,
+      'LEFT/RIGHT - Category   ENTER - Level   UP/DOWN - Scroll   E - Export   C - Clear   ESC - Back', {
+      fontSize: '15px',
+      color: '#cccccc',
+      fontFamily: 'Arial, sans-serif'
+    }).setOrigin(0.5);
+  }
+
+  private setupInput(): void {
+    this.input.keyboard!.on('keydown-LEFT', () => this.cycleCategory(-1));
+    this.input.keyboard!.on('keydown-RIGHT', () => this.cycleCategory(1));
+    this.input.keyboard!.on('keydown-ENTER', () => this.cycleLevel());
+    this.input.keyboard!.on('keydown-SPACE', () => this.cycleLevel());
+    this.input.keyboard!.on('keydown-UP', () => this.scroll(1));
+    this.input.keyboard!.on('keydown-DOWN', () => this.scroll(-1));
+    this.input.keyboard!.on('keydown-PAGE_UP', () => this.scroll(VISIBLE_LINES));
+    this.input.keyboard!.on('keydown-PAGE_DOWN', () => this.scroll(-VISIBLE_LINES));
+    this.input.keyboard!.on('keydown-E', () => this.exportLog());
+    this.input.keyboard!.on('keydown-C', () => this.clearLog());
+    this.input.keyboard!.on('keydown-ESC', () => this.goBack());
+
+    this.input.on('wheel', (_pointer: unknown, _objects: unknown, _dx: number, dy: number) => {
+      this.scroll(dy < 0 ? 3 : -3);
+    });
+
+    InputManager.bindMenuGamepad(this, {
+      [GAMEPAD_BUTTONS.A]: 'ENTER',
+      [GAMEPAD_BUTTONS.X]: 'E',
+      [GAMEPAD_BUTTONS.B]: 'ESC',
+      [GAMEPAD_BUTTONS.START]: 'ESC'
+    });
+  }
+
+  private getFilteredEntries(): LogEntry[] {
+    return Logger.getEntries({ category: CATEGORIES[this.categoryIndex], minLevel: LEVELS[this.levelIndex] });
+  }
+
+  private cycleCategory(direction: number): void {
+    this.categoryIndex = (this.categoryIndex + direction + CATEGORIES.length) % CATEGORIES.length;
+    this.scrollOffset = 0;
+    this.refresh();
+  }
+
+  private cycleLevel(): void {
+    this.levelIndex = (this.levelIndex + 1) % LEVELS.length;
+    this.scrollOffset = 0;
+    this.refresh();
+  }
+
+  private scroll(lines: number): void {
+    const maxOffset = Math.max(0, this.getFilteredEntries().length - VISIBLE_LINES);
+    this.scrollOffset = Math.max(0, Math.min(maxOffset, this.scrollOffset + lines));
+    this.refresh();
+  }
+
+  private refresh(): void {
+    const entries = this.getFilteredEntries();
+    const total = Logger.getTotalEntryCount();
+
+    // While scrolled back, keep the same lines on screen as new entries arrive
+    if (this.scrollOffset > 0 && entries.length > this.shownCount) {
+      this.scrollOffset = Math.min(this.scrollOffset + (entries.length - this.shownCount), Math.max(0, entries.length - VISIBLE_LINES));
+    }
+    this.shownTotal = total;
+    this.shownCount = entries.length;
+
+    this.categoryText.setText(`CATEGORY: < ${CATEGORIES[this.categoryIndex] ?? 'ALL'} >`);
+    this.levelText.setText(`LEVEL: ${LogLevel[LEVELS[this.levelIndex]]}${LEVELS[this.levelIndex] < LogLevel.ERROR ? ' and up' : ''}`);
+    this.countText.setText(`${entries.length} shown, ${total} logged`);
+
+    const end = entries.length - this.scrollOffset;
+    const visible = entries.slice(Math.max(0, end - VISIBLE_LINES), end);
+    this.lineTexts.forEach((text, index) => {
+      const entry = visible[index];
+      if (!entry) {
+        text.setText('');
+        return;
+      }
+      // The date is the same for every line; the export keeps it
+      const line = Logger.formatEntry(entry).slice(11);
+      text.setText(line.length > LINE_CHARS ? `${line.slice(0, LINE_CHARS - 1)}…` : line);
+      text.setColor(LEVEL_COLORS[entry.level]);
+    });
+  }
+
+  // The whole buffer, whatever the filter, as a plain text file
+  private exportLog(): void {
+    const entries = Logger.getEntries();
+    const header = `Lode Runner ${BUILD_VERSION} log, exported ${new Date().toISOString()} (${entries.length} of ${Logger.getTotalEntryCount()} entries)`;
+    const text = [header, ...entries.map(entry => Logger.formatEntry(entry))].join('\n');
+
+    FileTransfer.download(`loderunner-log-${new Date().toISOString().replace(/[:.]/g, '-')}.log`, text, 'text/plain');
+
+    this.statusText.setText(`Exported ${entries.length} entries`);
+  }
+
+  private clearLog(): void {
+    Logger.clearEntries();
+    this.scrollOffset = 0;
+    this.statusText.setText('Log cleared');
+    this.refresh();
+  }
+
+  private goBack(): void {
+    this.scene.start(this.returnTo === 'pause' ? SCENE_KEYS.PAUSE : SCENE_KEYS.MENU);
+  }
+}
@@ -1,11 +1,21 @@
 import { Scene } from 'phaser';
 import { SCENE_KEYS } from '@/config/GameConfig';
 import { Logger, LogCategory } from '@/utils/Logger';
+import { GameReplay, GameReplayManager } from '@/managers/GameReplayManager';
+import { LevelPackManager } from '@/managers/LevelPackManager';
+import { HighScoreManager } from '@/managers/HighScoreManager';
+import { ProgressManager } from '@/managers/ProgressManager';
+import { InputManager } from '@/managers/InputManager';
+import { KeyBindingManager } from '@/managers/KeyBindingManager';
+import { BugReportManager } from '@/managers/BugReportManager';
+import { LevelSaveManager } from '@/managers/LevelSaveManager';
+import { GAMEPAD_BUTTONS } from '@/config/GameConfig';
 
 export class MenuScene extends Scene {
   private selectedOption = 0;
   private menuOptions: Phaser.GameObjects.Text[] = [];
   private isInDialog = false;
+  private fileText!: Phaser.GameObjects.Text;
 
   constructor() {
     super({ key: SCENE_KEYS.MENU });
@@ -51,22 +61,38 @@ export class MenuScene extends Scene {
 
   private createMenu(): void {
     const centerX = this.cameras.main.width / 2;
-    const startY = 320;
-    const spacing = 60;
+    const startY = 242;
+    const spacing = 28;
 
-    const options = ['START GAME', 'INSTRUCTIONS', 'CREDITS'];
+    const options = ['START GAME', this.getContinueLabel(), 'LEVEL SELECT', this.getPackLabel(), 'SETTINGS', 'WATCH REPLAY', 'LEVEL EDITOR', 'CONTROLS', 'HIGH SCORES', 'INSTRUCTIONS', 'CREDITS'];
     
     options.forEach((option, index) => {
       const text = this.add.text(centerX, startY + (index * spacing), option, {
-        fontSize: '28px',
+        fontSize: '25px',
         color: '#ffffff',
         fontFamily: 'Arial, sans-serif'
       }).setOrigin(0.5);
       
+      // Tapping an option picks it, for touch screens
+      text.setInteractive({ useHandCursor: true }).on('pointerdown', () => {
+        if (!this.isInDialog) {
+          this.selectedOption = index;
+          this.updateMenuHighlight();
+          this.selectOption();
+        }
+      });
+      
       this.menuOptions.push(text);
     });
 
     this.updateMenuHighlight();
+
+    const { width, height } = this.cameras.main;
+    this.fileText = this.add.text(width - 10, height - 8, 'O - Open level save   R - Open replay   B - Load bug report   L - Log console', {
+      fontSize: '14px',
+      color: '#888888',
+      fontFamily: 'Arial, sans-serif'
+    }).setOrigin(1, 1);
   }
 
   private setupInput(): void {
@@ -81,6 +107,19 @@ export class MenuScene extends Scene {
       this.updateMenuHighlight();
     });
 
+    // LEFT/RIGHT cycle the level pack while it is highlighted
+    this.input.keyboard!.on('keydown-LEFT', () => {
+      if (!this.isInDialog) {
+        this.cycleHighlightedOption(-1);
+      }
+    });
+
+    this.input.keyboard!.on('keydown-RIGHT', () => {
+      if (!this.isInDialog) {
+        this.cycleHighlightedOption(1);
+      }
+    });
+
     this.input.keyboard!.on('keydown-ENTER', () => {
       if (!this.isInDialog) {
         this.selectOption();
@@ -92,6 +131,36 @@ export class MenuScene extends Scene {
         this.selectOption();
       }
     });
+    
+    this.input.keyboard!.on('keydown-O', () => {
+      if (!this.isInDialog) {
+        this.loadLevelSave();
+      }
+    });
+    
+    this.input.keyboard!.on('keydown-R', () => {
+      if (!this.isInDialog) {
+        this.openReplay();
+      }
+    });
+    
+    this.input.keyboard!.on('keydown-B', () => {
+      if (!this.isInDialog) {
+        this.loadBugReport();
+      }
+    });
+
+    this.input.keyboard!.on('keydown-L', () => {
+      if (!this.isInDialog) {
+        this.scene.start(SCENE_KEYS.LOG_CONSOLE, { returnTo: 'menu' });
+      }
+    });
+    
+    // A or START selects, and closes dialogs
+    InputManager.bindMenuGamepad(this, {
+      [GAMEPAD_BUTTONS.A]: 'SPACE',
+      [GAMEPAD_BUTTONS.START]: 'SPACE'
+    });
   }
 
   private updateMenuHighlight(): void {
@@ -106,11 +175,13 @@ export class MenuScene extends Scene {
         return;
       }
       
+      // CONTINUE is dimmed while the selected pack has no saved run
+      const disabled = index === 1 && !this.getSavedRun();
       if (index === this.selectedOption) {
-        option.setColor('#ffff00');
+        option.setColor(disabled ? '#999966' : '#ffff00');
         option.setScale(1.1);
       } else {
-        option.setColor('#ffffff');
+        option.setColor(disabled ? '#666666' : '#ffffff');
         option.setScale(1);
       }
     });
@@ -119,17 +190,253 @@ export class MenuScene extends Scene {
   private selectOption(): void {
     switch (this.selectedOption) {
       case 0: // START GAME
-        this.scene.start(SCENE_KEYS.GAME);
+        this.startCampaign('new');
+        break;
+      case 1: // CONTINUE
+        if (this.getSavedRun()) {
+          this.startCampaign('continue');
+        }
+        break;
+      case 2: // LEVEL SELECT
+        this.scene.start(SCENE_KEYS.LEVEL_SELECT);
+        break;
+      case 3: // LEVEL PACK
+        this.cyclePack(1);
         break;
-      case 1: // INSTRUCTIONS
+      case 4: // SETTINGS
+        this.scene.start(SCENE_KEYS.SETTINGS, { returnTo: 'menu' });
+        break;
+      case 5: // WATCH REPLAY
+        this.watchReplay(GameReplayManager.loadLastReplay());
+        break;
+      case 6: // LEVEL EDITOR
+        this.scene.start(SCENE_KEYS.EDITOR);
+        break;
+      case 7: // CONTROLS
+        this.scene.start(SCENE_KEYS.CONTROLS);
+        break;
+      case 8: // HIGH SCORES
+        this.showHighScores();
+        break;
+      case 9: // INSTRUCTIONS
         this.showInstructions();
         break;
-      case 2: // CREDITS
+      case 10: // CREDITS
         this.showCredits();
         break;
     }
   }
 
+  // Dialogs close on SPACE or a tap anywhere
+  private onDialogDismissed(close: () => void): void {
+    let open = true;
+    const dismiss = () => {
+      if (!open) {
+        return;
+      }
+      open = false;
+      this.input.keyboard!.off('keydown-SPACE', dismiss);
+      this.input.off('pointerdown', dismiss);
+      close();
+    };
+    
+    this.input.keyboard!.once('keydown-SPACE', dismiss);
+    // Wait a frame so the tap that opened the dialog doesn't close it
+    this.time.delayedCall(0, () => {
+      if (open) {
+        this.input.once('pointerdown', dismiss);
+      }
+    });
+  }
+
+  private startCampaign(campaignStart: 'new' | 'continue'): void {
+    this.registry.remove('gameSeed'); // New session, new gameplay seed
+    this.registry.remove('playTestLevel');
+    this.registry.remove('practiceRun');
+    this.registry.remove('bugReport');
+    this.registry.set('campaignStart', campaignStart);
+    this.scene.start(SCENE_KEYS.GAME);
+  }
+
+  // Play a bug report's level again from the moment the report was made
+  private loadBugReport(): void {
+    BugReportManager.pickFile()
+      .then(report => {
+        if (!report) {
+          return;
+        }
+        
+        // Same pack and seed, so guards pick the same brain and make the same choices
+        if (LevelPackManager.getPack(this, report.packId)) {
+          LevelPackManager.setSelectedPack(this, report.packId);
+        }
+        this.registry.set('gameSeed', report.seed);
+        this.registry.remove('playTestLevel');
+        this.registry.remove('practiceRun');
+        this.registry.set('bugReport', report);
+        Logger.info(LogCategory.UI, `Loading bug report for ${report.levelKey} (build ${report.buildVersion})`);
+        this.scene.start(SCENE_KEYS.GAME);
+      })
+      .catch((error: Error) => {
+        Logger.warn(LogCategory.UI, 'Could not load bug report', error);
+        this.fileText.setColor('#ff6666').setText(`Could not load bug report: ${error.message}`);
+      });
+  }
+
+  // Carry on a level from a saved state, as a practice run so the campaign autosave is left alone
+  private loadLevelSave(): void {
+    LevelSaveManager.pickFile()
+      .then(save => {
+        if (!save) {
+          return;
+        }
+        
+        const pack = LevelPackManager.getPack(this, save.packId);
+        if (!pack || !LevelPackManager.getLevelData(this, pack, save.levelNumber)) {
+          this.fileText.setColor('#ff6666').setText(`Level save needs ${save.packId}/${save.levelKey}, which is not installed`);
+          return;
+        }
+        
+        LevelPackManager.setSelectedPack(this, save.packId);
+        this.registry.set('gameSeed', save.seed);
+        this.registry.remove('playTestLevel');
+        this.registry.remove('bugReport');
+        this.registry.set('practiceRun', true);
+        this.registry.set('levelSave', save);
+        Logger.info(LogCategory.UI, `Loading level save for ${save.levelKey}`);
+        this.scene.start(SCENE_KEYS.GAME);
+      })
+      .catch((error: Error) => {
+        Logger.warn(LogCategory.UI, 'Could not load level save', error);
+        this.fileText.setColor('#ff6666').setText(`Could not load level save: ${error.message}`);
+      });
+  }
+
+  private openReplay(): void {
+    GameReplayManager.pickFile()
+      .then(replay => {
+        if (replay) {
+          this.watchReplay(replay);
+        }
+      })
+      .catch((error: Error) => {
+        Logger.warn(LogCategory.UI, 'Could not load replay', error);
+        this.fileText.setColor('#ff6666').setText(`Could not load replay: ${error.message}`);
+      });
+  }
+
+  // Play an attempt at a level back in the game, from the level it was recorded on
+  private watchReplay(replay: GameReplay | null): void {
+    if (!replay) {
+      this.fileText.setColor('#ff6666').setText('No replay yet - every attempt at a level is recorded');
+      return;
+    }
+    
+    const pack = LevelPackManager.getPack(this, replay.packId);
+    if (!pack || !LevelPackManager.getLevelData(this, pack, replay.levelNumber)) {
+      this.fileText.setColor('#ff6666').setText(`Replay needs ${replay.packId}/${replay.levelKey}, which is not installed`);
+      return;
+    }
+    
+    LevelPackManager.setSelectedPack(this, replay.packId);
+    this.registry.remove('playTestLevel');
+    this.registry.remove('bugReport');
+    this.registry.remove('levelSave');
+    this.registry.remove('practiceRun');
+    this.registry.set('gameReplay', replay);
+    Logger.info(LogCategory.UI, `Watching replay of ${replay.levelKey}`);
+    this.scene.start(SCENE_KEYS.GAME);
+  }
+
+  private getSavedRun() {
+    return ProgressManager.getRun(LevelPackManager.getSelectedPack(this).id);
+  }
+
+  private getContinueLabel(): string {
+    const run = this.getSavedRun();
+    return run ? `CONTINUE (LEVEL ${run.level}, ${run.lives} LIVES)` : 'CONTINUE';
+  }
+
+  private getPackLabel(): string {
+    const pack = LevelPackManager.getSelectedPack(this);
+    return `PACK: < ${pack.name.toUpperCase()} (${LevelPackManager.getLevelCount(this, pack)}) >`;
+  }
+
+  private cyclePack(direction: number): void {
+    const packs = LevelPackManager.getPacks(this);
+    if (packs.length < 2) {
+      return;
+    }
+
+    const current = packs.findIndex(pack => pack.id === LevelPackManager.getSelectedPack(this).id);
+    const next = packs[(current + direction + packs.length) % packs.length];
+    LevelPackManager.setSelectedPack(this, next.id);
+    this.menuOptions[3].setText(this.getPackLabel());
+    
+    // Saved runs are per pack
+    this.menuOptions[1].setText(this.getContinueLabel());
+    this.updateMenuHighlight();
+  }
+
+  private cycleHighlightedOption(direction: number): void {
+    if (this.selectedOption === 3) {
+      this.cyclePack(direction);
+    }
+  }
+
+  private showHighScores(): void {
+    this.isInDialog = true;
+    const centerX = this.cameras.main.width / 2;
+
+    const highScores = this.add.group();
+    
+    const bg = this.add.graphics();
+    bg.fillStyle(0x000000, 0.9);
+    bg.fillRect(100, 100, this.cameras.main.width - 200, this.cameras.main.height - 160);
+    highScores.add(bg);
+
+    const title = this.add.text(centerX, 140, 'HIGH SCORES', {
+      fontSize: '32px',
+      color: '#ffff00',
+      fontFamily: 'Arial, sans-serif'
+    }).setOrigin(0.5);
+    highScores.add(title);
+
+    const scores = HighScoreManager.getScores();
+    const lines = scores.length > 0
+      ? scores.map((entry, rank) => HighScoreManager.formatEntry(entry, rank))
+      : ['No scores yet'];
+
+    lines.forEach((line, index) => {
+      const lineText = this.add.text(centerX, 185 + (index * 28), line, {
+        fontSize: '20px',
+        color: '#ffffff',
+        fontFamily: 'monospace'
+      }).setOrigin(0.5, 0);
+      highScores.add(lineText);
+    });
+
+    const hint = this.add.text(centerX, 500, 'Press SPACE to return to menu', {
+      fontSize: '20px',
+      color: '#cccccc',
+      fontFamily: 'Arial, sans-serif'
+    }).setOrigin(0.5);
+    highScores.add(hint);
+
+    this.onDialogDismissed(() => {
+      highScores.destroy(true);
+      this.isInDialog = false;
+    });
+  }
+
+  // Primary movement keys, e.g. "← → ↑ ↓" or "J L I K"
+  private describeMoveKeys(): string {
+    const bindings = KeyBindingManager.getBindings();
+    return (['left', 'right', 'up', 'down'] as const)
+      .map(action => KeyBindingManager.formatKey(KeyBindingManager.getKeys(bindings, action)[0] ?? null))
+      .join(' ');
+  }
+
   private showInstructions(): void {
     this.isInDialog = true;
     const centerX = this.cameras.main.width / 2;
@@ -149,8 +456,10 @@ export class MenuScene extends Scene {
     instructions.add(title);
 
     const text = [
-      'ARROW KEYS - Move player',
-      'Z/X KEYS - Dig holes left/right',
+      `${this.describeMoveKeys()} - Move player`,
+      `${KeyBindingManager.describe('digLeft')} / ${KeyBindingManager.describe('digRight')} - Dig holes left/right`,
+      `${KeyBindingManager.describe('pause')} - Pause   (change keys under CONTROLS)`,
+      'GAMEPAD - Stick/D-pad move, X/LB dig left, B/RB dig right, START pause',
       'COLLECT ALL GOLD to complete level',
       'AVOID ENEMIES - they will chase you!',
       '',
@@ -166,7 +475,7 @@ export class MenuScene extends Scene {
       instructions.add(lineText);
     });
 
-    this.input.keyboard!.once('keydown-SPACE', () => {
+    this.onDialogDismissed(() => {
       instructions.destroy(true);
       this.isInDialog = false;
     });
@@ -207,7 +516,7 @@ export class MenuScene extends Scene {
       credits.add(lineText);
     });
 
-    this.input.keyboard!.once('keydown-SPACE', () => {
+    this.onDialogDismissed(() => {
       credits.destroy(true);
       this.isInDialog = false;
     });
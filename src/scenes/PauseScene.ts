@@ -0,0 +1,134 @@
+import { Scene } from 'phaser';
+import { SCENE_KEYS, GAMEPAD_BUTTONS } from '@/config/GameConfig';
+import { Logger, LogCategory } from '@/utils/Logger';
+import { GameScene } from '@/scenes/GameScene';
+import { InputManager } from '@/managers/InputManager';
+import { KeyBindingManager } from '@/managers/KeyBindingManager';
+
+/**
+ * PauseScene - overlay shown on top of a paused GameScene
+ * GameScene freezes itself (physics, timers, hole timeline) before launching
+ * this scene and thaws when told to resume. SETTINGS and LOG CONSOLE swap
+ * this scene for theirs, which come back here when closed.
+ */
+export class PauseScene extends Scene {
+  private selectedOption = 0;
+  private menuOptions: Phaser.GameObjects.Text[] = [];
+
+  private logger = Logger.createCategoryLogger(LogCategory.UI);
+
+  constructor() {
+    super({ key: SCENE_KEYS.PAUSE });
+  }
+
+  create(): void {
+    const { width, height } = this.cameras.main;
+
+    // Dim the frozen game underneath
+    this.add.rectangle(0, 0, width, height, 0x000000, 0.65).setOrigin(0, 0);
+
+    this.selectedOption = 0;
+    this.menuOptions = [];
+    this.createMenu();
+    this.setupInput();
+  }
+
+  private setupInput(): void {
+    this.input.keyboard!.on('keydown-UP', () => {
+      this.selectedOption = Math.max(0, this.selectedOption - 1);
+      this.updateMenuHighlight();
+    });
+
+    this.input.keyboard!.on('keydown-DOWN', () => {
+      this.selectedOption = Math.min(this.menuOptions.length - 1, this.selectedOption + 1);
+      this.updateMenuHighlight();
+    });
+
+    this.input.keyboard!.on('keydown-ENTER', () => this.selectOption());
+    this.input.keyboard!.on('keydown-SPACE', () => this.selectOption());
+
+    // The pause key resumes, whatever it is bound to (ESC if nothing is)
+    const pauseKeys = KeyBindingManager.getKeys(KeyBindingManager.getBindings(), 'pause');
+    const resumeKeys = pauseKeys.length > 0 ? pauseKeys : ['ESC'];
+    resumeKeys.forEach(key => this.input.keyboard!.on(`keydown-${key}`, () => this.getGameScene().resumeGame()));
+    
+    // START and B resume like the pause key
+    InputManager.bindMenuGamepad(this, {
+      [GAMEPAD_BUTTONS.A]: 'ENTER',
+      [GAMEPAD_BUTTONS.B]: resumeKeys[0],
+      [GAMEPAD_BUTTONS.START]: resumeKeys[0]
+    });
+  }
+
+  private createMenu(): void {
+    const centerX = this.cameras.main.width / 2;
+    this.add.text(centerX, 160, 'PAUSED', {
+      fontSize: '48px',
+      color: '#ffff00',
+      fontFamily: 'Arial, sans-serif',
+      stroke: '#000000',
+      strokeThickness: 4
+    }).setOrigin(0.5);
+
+    const gameScene = this.getGameScene();
+    const restartLabel = gameScene.isPlayTest() || gameScene.isPracticeRun() || gameScene.isBugReportRun() ? 'RESTART LEVEL' : 'RESTART LEVEL (-1 LIFE)';
+    const labels = ['RESUME', restartLabel, 'SETTINGS', 'LOG CONSOLE', 'QUIT TO MENU'];
+
+    labels.forEach((label, index) => {
+      const text = this.add.text(centerX, 250 + (index * 45), label, {
+        fontSize: '28px',
+        color: '#ffffff',
+        fontFamily: 'Arial, sans-serif'
+      }).setOrigin(0.5);
+      text.setInteractive({ useHandCursor: true }).on('pointerdown', () => {
+        this.selectedOption = index;
+        this.updateMenuHighlight();
+        this.selectOption();
+      });
+      this.menuOptions.push(text);
+    });
+
+    this.updateMenuHighlight();
+  }
+
+  private updateMenuHighlight(): void {
+    this.menuOptions.forEach((option, index) => {
+      if (index === this.selectedOption) {
+        option.setColor('#ffff00');
+        option.setScale(1.1);
+      } else {
+        option.setColor('#ffffff');
+        option.setScale(1);
+      }
+    });
+  }
+
+  private selectOption(): void {
+    const gameScene = this.getGameScene();
+
+    switch (this.selectedOption) {
+      case 0: // RESUME
+        gameScene.resumeGame();
+        break;
+      case 1: // RESTART LEVEL
+        this.logger.debug('Restart level chosen from pause menu');
+        this.scene.stop();
+        gameScene.restartLevel();
+        break;
+      case 2: // SETTINGS
+        this.scene.start(SCENE_KEYS.SETTINGS, { returnTo: 'pause' });
+        break;
+      case 3: // LOG CONSOLE
+        this.scene.start(SCENE_KEYS.LOG_CONSOLE, { returnTo: 'pause' });
+        break;
+      case 4: // QUIT TO MENU
+        this.scene.stop();
+        gameScene.quitToMenu();
+        break;
+    }
+  }
+
+  private getGameScene(): GameScene {
+    return this.scene.get(SCENE_KEYS.GAME) as GameScene;
+  }
+}
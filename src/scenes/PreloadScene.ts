@@ -1,6 +1,7 @@
 import { Scene } from 'phaser';
 import { SCENE_KEYS } from '@/config/GameConfig';
 import { AssetManager } from '@/managers/AssetManager';
+import { LevelPackManager } from '@/managers/LevelPackManager';
 
 export class PreloadScene extends Scene {
   private progressBar!: Phaser.GameObjects.Graphics;
@@ -57,8 +58,8 @@ export class PreloadScene extends Scene {
     // Load IBM-style assets using AssetManager
     AssetManager.loadIBMAssets(this);
     
-    // Load level data
-    this.load.json('classic-levels', '/assets/levels/classic.json');
+    // Load level pack manifest and every pack it lists
+    LevelPackManager.loadPacks(this);
   }
 
   private onLoadComplete(): void {
@@ -0,0 +1,212 @@
+import { Scene } from 'phaser';
+import { SCENE_KEYS, GAMEPAD_BUTTONS } from '@/config/GameConfig';
+import { InputManager } from '@/managers/InputManager';
+import { SettingsManager, GameSettings } from '@/managers/SettingsManager';
+import { SoundManager } from '@/managers/SoundManager';
+import { GuardBrainFactory } from '@/ai/GuardBrainFactory';
+import { Logger, LogCategory } from '@/utils/Logger';
+
+export interface SettingsSceneData {
+  returnTo?: 'menu' | 'pause';   // Where BACK goes; 'pause' draws over the paused game
+}
+
+const VOLUME_STEP = 0.1;
+const OPTION_COUNT = 8;
+
+/**
+ * SettingsScene - audio, game speed, guard AI, debug overlay and fullscreen
+ * Opened from the main menu, or from the pause menu in place of PauseScene
+ * while the game stays frozen underneath. Every change is saved at once.
+ */
+export class SettingsScene extends Scene {
+  private returnTo: 'menu' | 'pause' = 'menu';
+  private settings!: GameSettings;
+  private selectedOption = 0;
+  private menuOptions: Phaser.GameObjects.Text[] = [];
+
+  private logger = Logger.createCategoryLogger(LogCategory.UI);
+
+  constructor() {
+    super({ key: SCENE_KEYS.SETTINGS });
+  }
+
+  init(data: SettingsSceneData): void {
+    this.returnTo = data.returnTo ?? 'menu';
+  }
+
+  create(): void {
+    const { width, height } = this.cameras.main;
+    if (this.returnTo === 'pause') {
+      this.add.rectangle(0, 0, width, height, 0x000000, 0.65).setOrigin(0, 0);
+    } else {
+      this.cameras.main.setBackgroundColor('#001122');
+    }
+
+    this.settings = SettingsManager.getSettings();
+    this.selectedOption = 0;
+    this.menuOptions = [];
+
+    this.createUI();
+    this.setupInput();
+  }
+
+  private createUI(): void {
+    const centerX = this.cameras.main.width / 2;
+
+    this.add.text(centerX, 70, 'SETTINGS', {
+      fontSize: '48px',
+      color: '#ffff00',
+      fontFamily: 'Arial, sans-serif',
+      stroke: '#000000',
+      strokeThickness: 4
+    }).setOrigin(0.5);
+
+    for (let index = 0; index < OPTION_COUNT; index++) {
+      const text = this.add.text(centerX, 150 + (index * 45), this.getLabel(index), {
+        fontSize: '28px',
+        color: '#ffffff',
+        fontFamily: 'Arial, sans-serif'
+      }).setOrigin(0.5);
+      text.setInteractive({ useHandCursor: true }).on('pointerdown', () => {
+        this.selectedOption = index;
+        this.updateMenuHighlight();
+        this.selectOption();
+      });
+      this.menuOptions.push(text);
+    }
+
+    const hint = this.returnTo === 'pause'
+      ? 'LEFT/RIGHT - Change   ESC - Back   (guard AI applies from the next level)'
+      : 'LEFT/RIGHT - Change   ESC - Back';
+    this.add.text(centerX, this.cameras.main.height - 30, hint, {
+      fontSize: '18px',
+      color: '#cccccc',
+      fontFamily: 'Arial, sans-serif'
+    }).setOrigin(0.5);
+
+    this.updateMenuHighlight();
+  }
+
+  private setupInput(): void {
+    this.input.keyboard!.on('keydown-UP', () => {
+      this.selectedOption = Math.max(0, this.selectedOption - 1);
+      this.updateMenuHighlight();
+    });
+
+    this.input.keyboard!.on('keydown-DOWN', () => {
+      this.selectedOption = Math.min(this.menuOptions.length - 1, this.selectedOption + 1);
+      this.updateMenuHighlight();
+    });
+
+    this.input.keyboard!.on('keydown-LEFT', () => this.adjustSetting(-1));
+    this.input.keyboard!.on('keydown-RIGHT', () => this.adjustSetting(1));
+    this.input.keyboard!.on('keydown-ENTER', () => this.selectOption());
+    this.input.keyboard!.on('keydown-SPACE', () => this.selectOption());
+    this.input.keyboard!.on('keydown-ESC', () => this.goBack());
+
+    InputManager.bindMenuGamepad(this, {
+      [GAMEPAD_BUTTONS.A]: 'ENTER',
+      [GAMEPAD_BUTTONS.B]: 'ESC',
+      [GAMEPAD_BUTTONS.START]: 'ESC'
+    });
+  }
+
+  private updateMenuHighlight(): void {
+    this.menuOptions.forEach((option, index) => {
+      if (index === this.selectedOption) {
+        option.setColor('#ffff00');
+        option.setScale(1.1);
+      } else {
+        option.setColor('#ffffff');
+        option.setScale(1);
+      }
+    });
+  }
+
+  private getLabel(index: number): string {
+    const onOff = (value: boolean) => value ? 'ON' : 'OFF';
+    switch (index) {
+      case 0: return `SFX VOLUME: < ${Math.round(this.settings.sfxVolume * 100)}% >`;
+      case 1: return `MUSIC VOLUME: < ${Math.round(this.settings.musicVolume * 100)}% >`;
+      case 2: return `MUTE: < ${onOff(this.settings.muted)} >`;
+      case 3: return `GAME SPEED: < ${SettingsManager.getSpeedLabel(this.settings.gameSpeed)} >`;
+      case 4: {
+        const override = GuardBrainFactory.getOverride(this);
+        return `GUARD AI: < ${override ? GuardBrainFactory.getLabel(override) : 'PACK'} >`;
+      }
+      case 5: return `DEBUG OVERLAY: < ${onOff(this.settings.debugOverlay)} >`;
+      case 6: return `FULLSCREEN: < ${onOff(this.settings.fullscreen)} >`;
+      default: return 'BACK';
+    }
+  }
+
+  private selectOption(): void {
+    if (this.selectedOption === OPTION_COUNT - 1) { // BACK
+      this.goBack();
+    } else {
+      this.adjustSetting(1);
+    }
+  }
+
+  // LEFT/RIGHT step the highlighted setting; every setting wraps around
+  private adjustSetting(direction: number): void {
+    switch (this.selectedOption) {
+      case 0: // SFX VOLUME
+        this.settings.sfxVolume = this.stepVolume(this.settings.sfxVolume, direction);
+        break;
+      case 1: // MUSIC VOLUME
+        this.settings.musicVolume = this.stepVolume(this.settings.musicVolume, direction);
+        break;
+      case 2: // MUTE
+        this.settings.muted = !this.settings.muted;
+        break;
+      case 3: { // GAME SPEED
+        const speeds = SettingsManager.GAME_SPEEDS;
+        const current = speeds.indexOf(this.settings.gameSpeed);
+        this.settings.gameSpeed = speeds[(current + direction + speeds.length) % speeds.length];
+        break;
+      }
+      case 4: // GUARD AI
+        this.cycleGuardBrain(direction);
+        break;
+      case 5: // DEBUG OVERLAY
+        this.settings.debugOverlay = !this.settings.debugOverlay;
+        break;
+      case 6: // FULLSCREEN
+        this.settings.fullscreen = !this.settings.fullscreen;
+        SettingsManager.setFullscreen(this, this.settings.fullscreen);
+        break;
+      default:
+        return;
+    }
+
+    SettingsManager.saveSettings(this.settings);
+    SettingsManager.applyAudio(this, this.settings);
+    this.menuOptions[this.selectedOption].setText(this.getLabel(this.selectedOption));
+    this.logger.debug(`Setting changed: ${this.menuOptions[this.selectedOption].text}`);
+
+    if (this.selectedOption === 0) {
+      SoundManager.getInstance(this).playSFX('getGold'); // Preview the new level
+    }
+  }
+
+  private stepVolume(current: number, direction: number): number {
+    const next = Math.round((current + direction * VOLUME_STEP) * 10) / 10;
+    if (next > 1) {
+      return 0;
+    }
+    return next < 0 ? 1 : next;
+  }
+
+  // Cycles PACK (each pack's own brain) then every brain in turn
+  private cycleGuardBrain(direction: number): void {
+    const choices = [null, ...GuardBrainFactory.BRAIN_IDS];
+    const current = choices.indexOf(GuardBrainFactory.getOverride(this));
+    const next = choices[(current + direction + choices.length) % choices.length];
+    GuardBrainFactory.setOverride(this, next);
+  }
+
+  private goBack(): void {
+    this.scene.start(this.returnTo === 'pause' ? SCENE_KEYS.PAUSE : SCENE_KEYS.MENU);
+  }
+}
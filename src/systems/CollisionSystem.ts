@@ -6,7 +6,7 @@
 import { BaseSystem } from './BaseSystem';
 import { GameScene } from '@/scenes/GameScene';
 import { GAME_CONFIG, GAME_MECHANICS, TILE_TYPES } from '@/config/GameConfig';
-import { GuardState } from '@/entities/Guard';
+import { Guard, GuardState } from '@/entities/Guard';
 import { PhysicsLogger } from '@/utils/Logger';
 
 export class CollisionSystem extends BaseSystem {
@@ -188,6 +188,26 @@ export class CollisionSystem extends BaseSystem {
     PhysicsLogger.debug(`Set up ${guards.length * (guards.length - 1) / 2} guard-to-guard collision pairs`);
   }
   
+  /**
+   * Set up guard-to-gold overlap so guards pick up gold they touch
+   */
+  public setupGuardGoldCollisions(guards: Guard[]): void {
+    const levelSystem = (this.scene as GameScene).getLevelSystem();
+    
+    guards.forEach(guard => {
+      this.scene.physics.add.overlap(guard.sprite, levelSystem.getGoldSprites(), (_guard: any, gold: any) => {
+        const goldSprite = gold as Phaser.GameObjects.Sprite;
+        const gridX = Math.floor(goldSprite.x / GAME_CONFIG.tileSize);
+        const gridY = Math.floor(goldSprite.y / GAME_CONFIG.tileSize);
+        if (guard.pickUpGold(gridX, gridY)) {
+          levelSystem.removeGold(goldSprite);
+        }
+      });
+    });
+    
+    PhysicsLogger.debug(`Set up gold pickup for ${guards.length} guards`);
+  }
+  
   /**
    * Handle collision between two guards
    * Extracted from GameScene.handleGuardToGuardCollision()
@@ -272,7 +292,7 @@ export class CollisionSystem extends BaseSystem {
    */
   public checkGuardPlayerCollisions(guards: any[], player: any, gameScene: any): void {
     // Check for more robust invincibility system
-    const currentTime = this.scene.time.now;
+    const currentTime = (this.scene as GameScene).getGameTime();
     if (gameScene.playerInvincible && currentTime < gameScene.invincibilityEndTime) {
       return; // Player is invincible
     } else if (gameScene.playerInvincible && currentTime >= gameScene.invincibilityEndTime) {
@@ -282,7 +302,7 @@ export class CollisionSystem extends BaseSystem {
     
     for (const guard of guards) {
       if (guard.checkPlayerCollision(player.sprite)) {
-        gameScene.handlePlayerDeath();
+        gameScene.handlePlayerDeath('caught');
         break; // Only one collision needed
       }
     }
@@ -314,6 +334,11 @@ export class CollisionSystem extends BaseSystem {
         tile.setDepth(GAME_MECHANICS.DEPTHS.TILE_STANDARD);
         break;
         
+      case TILE_TYPES.TRAP: // Trap brick (X) - drawn like a brick but no collision body
+        // Deliberately kept out of solidTiles so player and guards fall straight through
+        tile.setDepth(GAME_MECHANICS.DEPTHS.TILE_STANDARD);
+        break;
+        
     }
   }
   
@@ -0,0 +1,213 @@
+/**
+ * DebugOverlay - hole timers and guard decisions drawn over the level
+ * Part of GameScene's debug mode. Every open hole shows its countdown from
+ * t1 to t2 as HoleTimeline has it, the guards it holds and its ClimbValidation
+ * exits. Every guard shows its state, stun end and death prediction, the way
+ * it faces, where it steers and the route its brain plans. The overlay only
+ * reads; nothing it draws feeds back into the game.
+ */
+import { Scene } from 'phaser';
+import { GAME_CONFIG, GAME_MECHANICS } from '@/config/GameConfig';
+import { Guard } from '@/entities/Guard';
+import { getCellCenter } from '@/ai/GuardBrain';
+import { ClimbValidation } from '@/utils/ClimbValidation';
+import { HoleSystem } from './HoleSystem';
+
+const COLORS = {
+  holeFrame: 0xffffff,
+  timeLeft: 0x00ff00,
+  timeShort: 0xff3333,
+  exitValid: 0x00ff00,
+  exitBlocked: 0xff3333,
+  path: 0xff00ff,
+  target: 0x00ffff,
+  facing: 0xffff00
+};
+
+const TIME_SHORT_MS = 1000;       // Countdown bars turn red in the last second
+const PREDICTION_DRIFT_MS = 50;   // Prediction and timeline disagree by more than this
+
+const LABEL_STYLE: Phaser.Types.GameObjects.Text.TextStyle = {
+  fontSize: '10px',
+  color: '#ffffff',
+  fontFamily: 'monospace',
+  backgroundColor: '#000000aa',
+  padding: { x: 2, y: 1 },
+  align: 'center'
+};
+
+const seconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+export class DebugOverlay {
+  private graphics: Phaser.GameObjects.Graphics;
+  private labels: Phaser.GameObjects.Text[] = [];   // Reused frame to frame
+  private labelsUsed = 0;
+
+  constructor(private scene: Scene, private holeSystem: HoleSystem, private climbValidation: ClimbValidation) {
+    this.graphics = scene.add.graphics();
+    this.graphics.setDepth(GAME_MECHANICS.DEPTHS.DEBUG_GRAPHICS);
+  }
+
+  /**
+   * Redraw for the current game time (GameScene.getGameTime, the clock hole timelines use)
+   */
+  draw(gameTime: number, guards: Guard[]): void {
+    this.graphics.clear();
+    this.labelsUsed = 0;
+
+    this.drawHoles(gameTime);
+    guards.forEach(guard => this.drawGuard(guard, gameTime));
+
+    for (let index = this.labelsUsed; index < this.labels.length; index++) {
+      this.labels[index].setVisible(false);
+    }
+  }
+
+  setVisible(visible: boolean): void {
+    this.graphics.setVisible(visible);
+    if (!visible) {
+      this.graphics.clear();
+      this.labels.forEach(label => label.setVisible(false));
+    }
+  }
+
+  private drawHoles(gameTime: number): void {
+    const tileSize = GAME_CONFIG.tileSize;
+    const timeline = this.holeSystem.getHoleTimeline();
+
+    this.holeSystem.getHoles().forEach((hole, holeKey) => {
+      const left = hole.gridX * tileSize;
+      const top = hole.gridY * tileSize;
+      const centerX = left + GAME_CONFIG.halfTileSize;
+
+      this.graphics.lineStyle(1, COLORS.holeFrame, 0.8);
+      this.graphics.strokeRect(left, top, tileSize, tileSize);
+      this.drawClimbExits(hole.gridX, hole.gridY);
+
+      const data = timeline.getHoleTimeline(holeKey);
+      if (!data) {
+        // An open hole without a timeline can't kill or free anyone on time
+        this.addLabel(centerX, top + tileSize, 'NO TIMELINE', '#ff6666', 0);
+        return;
+      }
+
+      // Countdown bar from t1 (full) to t2 (empty) along the bottom of the cell
+      const remaining = Math.max(0, data.t2 - gameTime);
+      const fraction = data.n > 0 ? Math.min(1, remaining / data.n) : 0;
+      this.graphics.fillStyle(0x000000, 0.6);
+      this.graphics.fillRect(left, top + tileSize - 5, tileSize, 5);
+      this.graphics.fillStyle(remaining <= TIME_SHORT_MS ? COLORS.timeShort : COLORS.timeLeft, 1);
+      this.graphics.fillRect(left, top + tileSize - 4, tileSize * fraction, 3);
+
+      // Rule 7 as the timeline sees it: a guard dies if tg1 + m >= t2
+      const lines = [`${seconds(remaining)}${hole.isDigging ? ' dig' : ''}`];
+      data.guardsInHole.forEach(entry => {
+        const verdict = entry.stunEndTime >= data.t2 ? 'dies' : 'can climb';
+        lines.push(`${entry.guardId} ${verdict}`);
+      });
+      this.addLabel(centerX, top + tileSize, lines.join('\n'), '#ffffff', 0);
+    });
+  }
+
+  // Where a guard may climb out of the hole: green if standable, red crossed if not
+  private drawClimbExits(holeGridX: number, holeGridY: number): void {
+    const tileSize = GAME_CONFIG.tileSize;
+    const inset = 8;
+
+    this.climbValidation.getValidClimbExits(holeGridX, holeGridY).forEach(exit => {
+      const left = exit.x * tileSize + inset;
+      const top = exit.y * tileSize + inset;
+      const size = tileSize - inset * 2;
+      const color = exit.isValid ? COLORS.exitValid : COLORS.exitBlocked;
+
+      this.graphics.lineStyle(2, color, 0.9);
+      this.graphics.strokeRect(left, top, size, size);
+      if (!exit.isValid) {
+        this.graphics.lineBetween(left, top, left + size, top + size);
+        this.graphics.lineBetween(left + size, top, left, top + size);
+      }
+    });
+  }
+
+  private drawGuard(guard: Guard, gameTime: number): void {
+    const { x, y } = guard.sprite;
+
+    // Planned route through cell centres
+    const path = guard.getBrain().getPlannedPath();
+    if (path.length > 0) {
+      this.graphics.lineStyle(2, COLORS.path, 0.8);
+      this.graphics.beginPath();
+      this.graphics.moveTo(x, y);
+      path.forEach(cell => {
+        const center = getCellCenter(cell);
+        this.graphics.lineTo(center.x, center.y);
+      });
+      this.graphics.strokePath();
+
+      this.graphics.fillStyle(COLORS.path, 0.8);
+      path.forEach(cell => {
+        const center = getCellCenter(cell);
+        this.graphics.fillCircle(center.x, center.y, 2);
+      });
+    }
+
+    // Steering target: the brain's waypoint, else the player
+    const target = guard.getSteeringTarget();
+    this.graphics.lineStyle(1, COLORS.target, 0.8);
+    this.graphics.lineBetween(x, y, target.x, target.y);
+    this.graphics.fillStyle(COLORS.target, 1);
+    this.graphics.fillCircle(target.x, target.y, 3);
+
+    // Facing
+    const direction = guard.getLastDirection() >= 0 ? 1 : -1;
+    const tipX = x + direction * (GAME_CONFIG.halfTileSize + 6);
+    const baseX = x + direction * GAME_CONFIG.halfTileSize;
+    this.graphics.fillStyle(COLORS.facing, 1);
+    this.graphics.fillTriangle(tipX, y, baseX, y - 5, baseX, y + 5);
+
+    this.addGuardLabel(guard, gameTime, x, y - GAME_CONFIG.halfTileSize);
+  }
+
+  private addGuardLabel(guard: Guard, gameTime: number, x: number, y: number): void {
+    const lines = [`${guard.getGuardId()} ${guard.getState()}`];
+    let color = '#ffffff';
+
+    const holeKey = guard.getCurrentHole();
+    if (holeKey) {
+      const stunLeft = guard.getStunEndTime() - gameTime;
+      lines.push(`hole ${holeKey} stun ${guard.isCurrentlyStunned() && stunLeft > 0 ? `ends in ${seconds(stunLeft)}` : 'over'}`);
+
+      // What the guard plans its escape on, next to what the hole timeline says
+      const prediction = guard.checkTimelineDeathPrediction(gameTime);
+      lines.push(Number.isFinite(prediction.timeRemaining)
+        ? `predict ${prediction.willDie ? 'DIES' : 'escapes'}, t2 in ${seconds(prediction.timeRemaining)}`
+        : 'predict: no fall time');
+      const data = this.holeSystem.getHoleTimeline().getHoleTimeline(holeKey);
+      if (data) {
+        const timelineRemaining = data.t2 - gameTime;
+        lines.push(`timeline t2 in ${seconds(timelineRemaining)}`);
+        if (Math.abs(timelineRemaining - prediction.timeRemaining) > PREDICTION_DRIFT_MS) {
+          color = '#ffaa00';
+        }
+      } else {
+        lines.push('timeline: none');
+        color = '#ff6666';
+      }
+    }
+
+    this.addLabel(x, y, lines.join('\n'), color, 1);
+  }
+
+  // originY 0 hangs the label below the point, 1 stands it above
+  private addLabel(x: number, y: number, text: string, color: string, originY: number): void {
+    let label = this.labels[this.labelsUsed];
+    if (!label) {
+      label = this.scene.add.text(0, 0, '', LABEL_STYLE);
+      label.setDepth(GAME_MECHANICS.DEPTHS.DEBUG_GRAPHICS + 1);
+      this.labels.push(label);
+    }
+    this.labelsUsed++;
+
+    label.setPosition(x, y).setOrigin(0.5, originY).setText(text).setColor(color).setVisible(true);
+  }
+}
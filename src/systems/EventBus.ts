@@ -0,0 +1,56 @@
+/**
+ * EventBus - typed gameplay events for one GameScene run
+ * Systems and entities announce what happened; sound, score, the HUD and
+ * level records subscribe instead of being called directly. GameScene
+ * creates a fresh bus for every level start and destroys it on shutdown,
+ * so listeners never outlive the level they were added for.
+ * Listeners run synchronously in the order they were added.
+ */
+import { Events } from 'phaser';
+
+export type PlayerDeathCause = 'caught' | 'trapped' | 'restart';
+
+export interface GameEventMap {
+  goldCollected: { gridX: number; gridY: number; collected: number; total: number };
+  holeDug: { gridX: number; gridY: number; direction: 'left' | 'right' };
+  // A hole's time is up; the brick comes back now, or once guards have left the cell
+  holeFilled: { gridX: number; gridY: number };
+  guardTrapped: { guardId: string; holeKey: string };
+  guardKilled: { guardId: string; holeKey: string | null };
+  playerDied: { cause: PlayerDeathCause; livesLeft: number };
+  exitRevealed: { ladderCount: number };
+  levelComplete: { level: number; bonus: number };
+}
+
+export type GameEventName = keyof GameEventMap;
+export type GameEventHandler<K extends GameEventName> = (payload: GameEventMap[K]) => void;
+
+export class EventBus {
+  private emitter = new Events.EventEmitter();
+
+  on<K extends GameEventName>(event: K, handler: GameEventHandler<K>, context?: unknown): this {
+    this.emitter.on(event, handler, context);
+    return this;
+  }
+
+  once<K extends GameEventName>(event: K, handler: GameEventHandler<K>, context?: unknown): this {
+    this.emitter.once(event, handler, context);
+    return this;
+  }
+
+  off<K extends GameEventName>(event: K, handler?: GameEventHandler<K>, context?: unknown): this {
+    this.emitter.off(event, handler, context);
+    return this;
+  }
+
+  emit<K extends GameEventName>(event: K, payload: GameEventMap[K]): void {
+    this.emitter.emit(event, payload);
+  }
+
+  /**
+   * Drop every listener; the bus can't be used afterwards
+   */
+  destroy(): void {
+    this.emitter.destroy();
+  }
+}
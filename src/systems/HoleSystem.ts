@@ -13,6 +13,15 @@ import { SpritePool, PooledSprite } from '@/utils/SpritePool';
 import { GAME_CONFIG, GAME_MECHANICS, TILE_TYPES } from '@/config/GameConfig';
 import { HoleData } from '@/types/GameTypes';
 
+// An open hole in a level save; its t1/t2 and trapped guards are in the HoleTimeline state
+export interface HoleSaveState {
+  gridX: number;
+  gridY: number;
+  direction: 'left' | 'right';
+  isDigging: boolean;
+  elapsedMs: number;       // How long the hole has been open
+}
+
 export class HoleSystem extends BaseSystem {
   private holes: Map<string, HoleData> = new Map();
   private holeTimeline: HoleTimeline;
@@ -144,7 +153,7 @@ export class HoleSystem extends BaseSystem {
     
     // Create the hole
     this.createHole(targetX, targetY, direction);
-    // Player entity handles its own dig animation and SFX
+    // Player entity handles its own dig animation; the dig sound follows from holeDug
   }
   
   /**
@@ -178,6 +187,11 @@ export class HoleSystem extends BaseSystem {
     
     const tileType = tile.getData('tileType');
     
+    // Trap bricks (X) look diggable but are not - there is nothing solid to remove
+    if (tileType === TILE_TYPES.TRAP) {
+      return false;
+    }
+    
     // Only brick tiles (type 1) can be dug
     // Solid blocks (type 2 and type 5) cannot be dug
     return tileType === TILE_TYPES.BRICK;
@@ -188,7 +202,43 @@ export class HoleSystem extends BaseSystem {
    * Extracted from GameScene.createHole()
    */
   public createHole(gridX: number, gridY: number, direction: 'left' | 'right'): void {
-    const currentTime = this.scene.time.now;
+    if (this.openHole(gridX, gridY, direction, 0)) {
+      this.gameScene.getEventBus().emit('holeDug', { gridX, gridY, direction });
+    }
+  }
+  
+  /**
+   * Open holes as a level save or bug report recorded them, part way through,
+   * quietly and without replaying the dig of holes that were already dug;
+   * restore the HoleTimeline state after
+   */
+  public restoreHole(saved: HoleSaveState): void {
+    const holeData = this.openHole(saved.gridX, saved.gridY, saved.direction, saved.elapsedMs);
+    if (holeData && !saved.isDigging) {
+      if (holeData.sprite.anims.currentAnim) {
+        holeData.sprite.anims.setProgress(1);
+        holeData.sprite.anims.stop();
+      }
+      holeData.isDigging = false;
+    }
+  }
+  
+  /**
+   * Open holes for a level save, with how long each has been open
+   */
+  public getSaveState(): HoleSaveState[] {
+    return [...this.holes.values()].map(hole => ({
+      gridX: hole.gridX,
+      gridY: hole.gridY,
+      direction: hole.direction,
+      isDigging: hole.isDigging,
+      // Past HOLE_DURATION while the fill waits for guards to leave
+      elapsedMs: Math.min(GAME_MECHANICS.HOLE_DURATION, Math.max(0, GAME_MECHANICS.HOLE_DURATION - hole.regenerationTimer.getRemaining()))
+    }));
+  }
+  
+  private openHole(gridX: number, gridY: number, direction: 'left' | 'right', elapsedMs: number): HoleData | null {
+    const creationTime = this.gameScene.getGameTime() - elapsedMs;
     const holeKey = `${gridX},${gridY}`;
     const pixelX = gridX * GAME_CONFIG.tileSize + GAME_CONFIG.halfTileSize;
     const pixelY = gridY * GAME_CONFIG.tileSize + GAME_CONFIG.halfTileSize;
@@ -198,7 +248,7 @@ export class HoleSystem extends BaseSystem {
     const originalTile = this.gameScene.getLevelTiles().get(tileKey);
     
     if (!originalTile) {
-      return;
+      return null;
     }
     
     // CRITICAL FIX: Save tile data BEFORE destroying the tile
@@ -212,7 +262,7 @@ export class HoleSystem extends BaseSystem {
     const holeSprite = this.holePool.getSprite('hole', pixelX, pixelY) as Phaser.GameObjects.Sprite;
     if (!holeSprite) {
       this.logger.error('Failed to get hole sprite from pool');
-      return;
+      return null;
     }
     
     holeSprite.setScale(1.6);
@@ -246,16 +296,16 @@ export class HoleSystem extends BaseSystem {
     originalTile.destroy();
     
     // Create hole timeline entry (Rule 1: t1 = creation time, t2 = t1 + n)
-    const timeline = this.holeTimeline.createHoleTimeline(holeKey, currentTime, GAME_MECHANICS.HOLE_DURATION);
+    const timeline = this.holeTimeline.createHoleTimeline(holeKey, creationTime, GAME_MECHANICS.HOLE_DURATION);
     
     // Log hole creation
     this.logger.debug(`[HOLE CREATE] Hole ${holeKey} created:
-        - Creation time (t1): ${currentTime}
+        - Creation time (t1): ${creationTime}
         - Duration (n): ${GAME_MECHANICS.HOLE_DURATION}
         - Close time (t2): ${timeline.t2}`);
     
     // Set up regeneration timer using timeline duration
-    const regenerationTimer = this.scene.time.delayedCall(GAME_MECHANICS.HOLE_DURATION, () => {
+    const regenerationTimer = this.scene.time.delayedCall(GAME_MECHANICS.HOLE_DURATION - elapsedMs, () => {
       // Verify hole still exists before filling
       if (this.holes.has(holeKey)) {
         this.fillHole(gridX, gridY);
@@ -268,18 +318,23 @@ export class HoleSystem extends BaseSystem {
       gridY,
       sprite: holeSprite,
       originalTileType: originalTileType, // Use saved value instead of accessing destroyed tile
+      direction,
       regenerationTimer,
       isDigging: true
     };
     
     this.holes.set(holeKey, holeData);
     
+    // Guard routes change with the open hole
+    this.gameScene.getNavigationGraph().invalidate();
+    
     // After digging animation completes, set isDigging to false
     holeSprite.once('animationcomplete', (animation: any) => {
       if (animation.key && animation.key.includes('hole-dig')) {
         holeData.isDigging = false;
       }
     });
+    return holeData;
   }
   
   /**
@@ -294,11 +349,8 @@ export class HoleSystem extends BaseSystem {
       return;
     }
     
-    // Check if player is trapped in the hole before it fills
-    this.gameScene.checkPlayerTrappedInHole(gridX, gridY);
-    
-    // Check if any guards can escape before hole fills
-    this.gameScene.checkGuardEscapeBeforeHoleFills(holeKey);
+    // GameScene checks for a trapped player and lets guards escape or die
+    this.gameScene.getEventBus().emit('holeFilled', { gridX, gridY });
     
     // CRITICAL FIX: Check if any guards are still physically in the hole position
     // If so, delay the tile restoration to prevent trapping guards in solid tiles
@@ -361,6 +413,7 @@ export class HoleSystem extends BaseSystem {
     
     // Remove hole data
     this.holes.delete(holeKey);
+    this.gameScene.getNavigationGraph().invalidate();
     
     this.logger.debug(`[HOLE FILL] Hole ${holeKey} filled and tile restored`);
   }
@@ -614,6 +667,9 @@ export class HoleSystem extends BaseSystem {
           // Use timeline-based hole falling system
           guard.fallIntoHole(holeKey, currentTime);
           
+          // A trapped guard can be walked across (Rule 8)
+          this.gameScene.getNavigationGraph().invalidate();
+          
           // Add guard to hole timeline tracking
           this.holeTimeline.addGuardToHole(
             holeKey,
@@ -6,6 +6,8 @@
 import { BaseSystem } from './BaseSystem';
 import { GameScene } from '@/scenes/GameScene';
 import { AssetManager } from '@/managers/AssetManager';
+import { LevelPackManager } from '@/managers/LevelPackManager';
+import { BugReport } from '@/managers/BugReportManager';
 // Removed unused import
 import { GAME_CONFIG, GAME_MECHANICS, TILE_TYPES } from '@/config/GameConfig';
 import { LevelLogger } from '@/utils/Logger';
@@ -135,16 +137,26 @@ export class LevelSystem extends BaseSystem {
     // Set camera background
     this.gameScene.cameras.main.setBackgroundColor('#000000');
     
-    // Load level data from classic levels
-    const levelsData = this.scene.cache.json.get('classic-levels');
-    const levelKey = `level-${levelNumber.toString().padStart(3, '0')}`;
-    LevelLogger.debug(`Loading level key: ${levelKey}`);
-    let currentLevelData = levelsData.levels[levelKey];
+    // Play test of an editor level takes precedence over the selected level pack,
+    // and a loaded bug report brings the level it was made on
+    const playTestLevel: string[] | undefined = this.scene.registry.get('playTestLevel');
+    const bugReport: BugReport | undefined = this.scene.registry.get('bugReport');
+    const levelOverride = playTestLevel ?? bugReport?.levelData;
+    
+    // Load level data from the selected level pack
+    const pack = LevelPackManager.getSelectedPack(this.scene);
+    const levelKey = LevelPackManager.getLevelKey(pack, levelNumber);
+    const source = playTestLevel ? 'editor play test' : bugReport ? `bug report (${bugReport.levelKey})` : `${levelKey} from pack ${pack.id}`;
+    LevelLogger.debug(`Loading level key: ${source}`);
+    let currentLevelData = levelOverride || LevelPackManager.getLevelData(this.scene, pack, levelNumber);
     
     // If level doesn't exist, fallback to level 1
     if (!currentLevelData) {
       gameState.currentLevel = 1;
-      currentLevelData = levelsData.levels['level-001'];
+      currentLevelData = LevelPackManager.getLevelData(this.scene, pack, 1);
+    }
+    if (!currentLevelData) {
+      throw new Error(`Level pack "${pack.id}" has no level 1`);
     }
     
     // Parse level data using AssetManager and cache it for reuse
@@ -188,6 +200,7 @@ export class LevelSystem extends BaseSystem {
     
     // Fallback: Map sprite frames to tile types
     const frame = tile.frame.name;
+    if (frame.includes('trap')) return TILE_TYPES.TRAP;
     if (frame.includes('brick')) return TILE_TYPES.BRICK;
     if (frame.includes('solid') || frame.includes('wall')) return TILE_TYPES.SOLID;
     if (frame.includes('ladder')) return TILE_TYPES.LADDER;
@@ -212,6 +225,12 @@ export class LevelSystem extends BaseSystem {
     }
     
     const tileType = this.getTileType(gridX, gridY);
+    
+    // Trap bricks (X) look like bricks but give no support - entities fall through
+    if (tileType === TILE_TYPES.TRAP) {
+      return false;
+    }
+    
     return tileType === TILE_TYPES.BRICK ||   // Can stand on diggable bricks
            tileType === TILE_TYPES.SOLID ||   // Can stand on solid blocks
            tileType === TILE_TYPES.LADDER ||  // Can climb ladders
@@ -286,9 +305,9 @@ export class LevelSystem extends BaseSystem {
     
     // Create exit marker at the highest accessible position
     this.createExitMarker();
+    this.gameScene.getNavigationGraph().invalidate();
 
-    // Delegate sound and UI to GameScene
-    this.gameScene.getSoundManager().playSFX('pass'); // Using existing 'pass' sound
+    this.gameScene.getEventBus().emit('exitRevealed', { ladderCount: this.exitLadderSprites.length });
     
     // Show message
     const message = this.scene.add.text(this.gameScene.cameras.main.centerX, this.gameScene.cameras.main.centerY - 100, 
@@ -322,9 +341,15 @@ export class LevelSystem extends BaseSystem {
       return false;
     }
     
-    // Only check if exit ladder sprites exist and are actually visible (alpha > 0)
-    // Exit ladders use alpha for visibility, not the visible property
-    if (this.exitLadderSprites.length === 0 || !this.exitLadderSprites[0] || this.exitLadderSprites[0].alpha <= 0) {
+    // Gold a guard is still holding has to be dropped and collected first
+    if (this.gameScene.isGoldCarriedByGuard()) {
+      return false;
+    }
+    
+    // The exit is open once its ladders exist. Their fade-in runs on the tween
+    // clock, which follows wall time rather than the frame clock, so a replay
+    // would see them turn visible on a different frame.
+    if (this.exitLadderSprites.length === 0) {
       return false;
     }
 
@@ -357,12 +382,9 @@ export class LevelSystem extends BaseSystem {
   
   /**
    * Handle gold collection
-   * Extracted from GameScene.collectGold()
+   * Extracted from GameScene.collectGold(); the score and sound follow from goldCollected
    */
   public collectGold(goldSprite: Phaser.GameObjects.Sprite): void {
-    // Delegate gold collection sound to Player
-    this.gameScene.getPlayer().collectGold();
-    
     // Update game state
     const gameState = this.scene.registry.get('gameState');
     if (!gameState) {
@@ -371,11 +393,17 @@ export class LevelSystem extends BaseSystem {
     }
     
     gameState.goldCollected++;
-    gameState.score += 100;
     
     // Remove gold from collision group first to prevent multiple collections
     this.goldSprites.remove(goldSprite);
     
+    this.gameScene.getEventBus().emit('goldCollected', {
+      gridX: Math.floor(goldSprite.x / GAME_CONFIG.tileSize),
+      gridY: Math.floor(goldSprite.y / GAME_CONFIG.tileSize),
+      collected: gameState.goldCollected,
+      total: gameState.totalGold
+    });
+    
     // Add collection animation - scale up and fade out
     this.scene.tweens.add({
       targets: goldSprite,
@@ -414,6 +442,57 @@ export class LevelSystem extends BaseSystem {
     }
   }
   
+  /**
+   * Take gold out of the level without scoring it (a guard picked it up)
+   */
+  public removeGold(goldSprite: Phaser.GameObjects.Sprite): void {
+    this.goldSprites.remove(goldSprite, true, true);
+  }
+  
+  /**
+   * Leave gold in exactly the given cells, for bug reports and level saves;
+   * cells off the level's own gold are where guards dropped it
+   */
+  public restoreGold(cells: { gridX: number; gridY: number }[]): void {
+    const cellKey = (gridX: number, gridY: number) => `${gridX},${gridY}`;
+    const savedGold = new Set(cells.map(cell => cellKey(cell.gridX, cell.gridY)));
+    [...this.goldSprites.getChildren()].forEach(child => {
+      const gold = child as Phaser.GameObjects.Sprite;
+      const key = cellKey(Math.floor(gold.x / GAME_CONFIG.tileSize), Math.floor(gold.y / GAME_CONFIG.tileSize));
+      if (!savedGold.delete(key)) {
+        this.removeGold(gold);
+      }
+    });
+    savedGold.forEach(key => {
+      const [gridX, gridY] = key.split(',').map(Number);
+      this.placeGold(gridX, gridY);
+    });
+  }
+  
+  /**
+   * Put gold a guard dropped back into the level
+   * @returns false when the cell is solid, a hole or already holds gold
+   */
+  public placeGold(gridX: number, gridY: number): boolean {
+    if (gridX < 0 || gridX >= GAME_CONFIG.levelWidth ||
+        gridY < 0 || gridY >= GAME_CONFIG.levelHeight ||
+        this.isTileSolid(gridX, gridY) ||
+        this.gameScene.getHoleSystem().getHole(gridX, gridY)) {
+      return false;
+    }
+    
+    const occupied = this.goldSprites.getChildren().some(child => {
+      const gold = child as Phaser.GameObjects.Sprite;
+      return Math.floor(gold.x / GAME_CONFIG.tileSize) === gridX && Math.floor(gold.y / GAME_CONFIG.tileSize) === gridY;
+    });
+    if (occupied) {
+      return false;
+    }
+    
+    this.createGoldSprite(gridX * GAME_CONFIG.tileSize, gridY * GAME_CONFIG.tileSize);
+    return true;
+  }
+  
   /**
    * Create tilemap from level data
    * Optimized with 2D array storage for O(1) lookups
@@ -424,7 +503,7 @@ export class LevelSystem extends BaseSystem {
     
     tiles.forEach((row, y) => {
       row.forEach((tileType, x) => {
-        if (tileType !== 0) { // Skip empty tiles
+        if (tileType !== TILE_TYPES.EMPTY) { // Skip empty tiles (trap bricks are rendered like bricks)
           const pixelX = x * GAME_CONFIG.tileSize;
           const pixelY = y * GAME_CONFIG.tileSize;
           
@@ -453,19 +532,22 @@ export class LevelSystem extends BaseSystem {
    */
   private createGoldSprites(gameState: any): void {
     this.levelInfo.gold.forEach((goldPos: { x: number; y: number }) => {
-      const gold = this.scene.add.sprite(goldPos.x + GAME_CONFIG.halfTileSize, goldPos.y + GAME_CONFIG.halfTileSize, 'tiles', 'gold');
-      gold.setScale(1.6); // Keep scaling for gold to match tile size
-      gold.setData('type', 'gold');
-      gold.setDepth(GAME_MECHANICS.DEPTHS.GOLD); // Ensure gold renders above background elements
-      
-      // Add physics body for collision detection
-      this.scene.physics.add.existing(gold, true); // true = static body
-      this.goldSprites.add(gold);
-      
+      this.createGoldSprite(goldPos.x, goldPos.y);
       gameState.totalGold++;
     });
   }
   
+  private createGoldSprite(pixelX: number, pixelY: number): void {
+    const gold = this.scene.add.sprite(pixelX + GAME_CONFIG.halfTileSize, pixelY + GAME_CONFIG.halfTileSize, 'tiles', 'gold');
+    gold.setScale(1.6); // Keep scaling for gold to match tile size
+    gold.setData('type', 'gold');
+    gold.setDepth(GAME_MECHANICS.DEPTHS.GOLD); // Ensure gold renders above background elements
+    
+    // Add physics body for collision detection
+    this.scene.physics.add.existing(gold, true); // true = static body
+    this.goldSprites.add(gold);
+  }
+  
   /**
    * Create exit marker UI
    * Extracted from GameScene.createExitMarker()
@@ -0,0 +1,210 @@
+/**
+ * SystemRegistry - owns the update loop of a scene's BaseSystems
+ * Systems are updated in dependency order: each one lists the systems that
+ * must update before it, and ties keep registration order. Every update is
+ * timed, so the debug overlay can show which system a frame drop comes from.
+ * A system that throws is logged once per distinct error and passed to the
+ * owner's error handler, if any; the frame carries on with the next system.
+ */
+import { BaseSystem } from './BaseSystem';
+import { GameLogger } from '@/utils/Logger';
+
+export interface SystemOptions {
+  after?: string[];           // Systems that must update first
+  enabled?: boolean;          // Defaults to true
+}
+
+// Per-frame cost of one system (or measured section) in milliseconds
+export interface SystemTiming {
+  name: string;
+  enabled: boolean;
+  lastMs: number;
+  averageMs: number;          // Exponential moving average
+  peakMs: number;             // Slowest frame of the last one or two PEAK_WINDOW_FRAMES windows
+  errors: number;
+}
+
+interface RegisteredSystem {
+  name: string;
+  system: BaseSystem | null;  // null for sections timed through measure()
+  after: string[];
+  enabled: boolean;
+  timing: SystemTiming;
+  windowPeakMs: number;
+  seenErrors: Set<string>;
+}
+
+const AVERAGE_WEIGHT = 0.1;   // Share of the newest frame in the moving average
+const PEAK_WINDOW_FRAMES = 60;
+
+export class SystemRegistry {
+  private systems: Map<string, RegisteredSystem> = new Map();
+  private sections: Map<string, RegisteredSystem> = new Map();
+  private updateOrder: RegisteredSystem[] | null = null;
+  private frameCount = 0;
+
+  constructor(private onError?: (name: string, error: unknown) => void) {}
+
+  /**
+   * Add a system under a unique name
+   * @throws Error if the name is already taken
+   */
+  register<T extends BaseSystem>(name: string, system: T, options: SystemOptions = {}): T {
+    if (this.systems.has(name)) {
+      throw new Error(`System "${name}" is already registered`);
+    }
+    this.systems.set(name, this.createEntry(name, system, options.after ?? [], options.enabled ?? true));
+    this.updateOrder = null;
+    return system;
+  }
+
+  /**
+   * @throws Error if no system has that name
+   */
+  get<T extends BaseSystem>(name: string): T {
+    const entry = this.systems.get(name);
+    if (!entry) {
+      throw new Error(`System "${name}" is not registered`);
+    }
+    return entry.system as T;
+  }
+
+  has(name: string): boolean {
+    return this.systems.has(name);
+  }
+
+  /**
+   * Skip a system's update (and its timing) until it is enabled again
+   */
+  setEnabled(name: string, enabled: boolean): void {
+    const entry = this.systems.get(name);
+    if (!entry) {
+      throw new Error(`System "${name}" is not registered`);
+    }
+    entry.enabled = enabled;
+    entry.timing.enabled = enabled;
+    GameLogger.debug(`System ${name} ${enabled ? 'enabled' : 'disabled'}`);
+  }
+
+  isEnabled(name: string): boolean {
+    return this.systems.get(name)?.enabled ?? false;
+  }
+
+  /**
+   * Names in update order
+   */
+  getUpdateOrder(): string[] {
+    return this.resolveOrder().map(entry => entry.name);
+  }
+
+  /**
+   * Update every enabled system in dependency order
+   * @throws Error if a dependency is missing or the dependencies form a cycle
+   */
+  updateAll(time: number, delta: number): void {
+    this.frameCount++;
+    for (const entry of this.resolveOrder()) {
+      if (entry.enabled) {
+        this.run(entry, () => entry.system!.update(time, delta));
+      }
+    }
+  }
+
+  /**
+   * Time scene work that isn't a BaseSystem (guards, the player) alongside the systems
+   */
+  measure(name: string, work: () => void): void {
+    let entry = this.sections.get(name);
+    if (!entry) {
+      entry = this.createEntry(name, null, [], true);
+      this.sections.set(name, entry);
+    }
+    this.run(entry, work);
+  }
+
+  /**
+   * Timings of the systems in update order, then the measured sections
+   */
+  getTimings(): SystemTiming[] {
+    return [...this.resolveOrder(), ...this.sections.values()].map(entry => ({ ...entry.timing }));
+  }
+
+  cleanupAll(): void {
+    this.resolveOrder().forEach(entry => entry.system!.cleanup());
+  }
+
+  private createEntry(name: string, system: BaseSystem | null, after: string[], enabled: boolean): RegisteredSystem {
+    return {
+      name,
+      system,
+      after,
+      enabled,
+      timing: { name, enabled, lastMs: 0, averageMs: 0, peakMs: 0, errors: 0 },
+      windowPeakMs: 0,
+      seenErrors: new Set()
+    };
+  }
+
+  private run(entry: RegisteredSystem, work: () => void): void {
+    const start = performance.now();
+    try {
+      work();
+    } catch (error) {
+      entry.timing.errors++;
+      const message = error instanceof Error ? error.message : String(error);
+      if (!entry.seenErrors.has(message)) {
+        entry.seenErrors.add(message);
+        GameLogger.error(`System ${entry.name} failed to update`, error);
+      }
+      this.onError?.(entry.name, error);
+    }
+    this.recordTiming(entry, performance.now() - start);
+  }
+
+  private recordTiming(entry: RegisteredSystem, elapsedMs: number): void {
+    const timing = entry.timing;
+    timing.lastMs = elapsedMs;
+    timing.averageMs = timing.averageMs === 0 ? elapsedMs : timing.averageMs + (elapsedMs - timing.averageMs) * AVERAGE_WEIGHT;
+
+    // Peaks are reported per window, so one old spike doesn't stay on screen forever
+    entry.windowPeakMs = Math.max(entry.windowPeakMs, elapsedMs);
+    if (this.frameCount % PEAK_WINDOW_FRAMES === 0) {
+      timing.peakMs = entry.windowPeakMs;
+      entry.windowPeakMs = 0;
+    } else {
+      timing.peakMs = Math.max(timing.peakMs, elapsedMs);
+    }
+  }
+
+  // Depth-first topological sort that keeps registration order among independent systems
+  private resolveOrder(): RegisteredSystem[] {
+    if (this.updateOrder) {
+      return this.updateOrder;
+    }
+
+    const order: RegisteredSystem[] = [];
+    const state: Map<string, 'visiting' | 'done'> = new Map();
+    const visit = (entry: RegisteredSystem, path: string[]) => {
+      if (state.get(entry.name) === 'done') {
+        return;
+      }
+      if (state.get(entry.name) === 'visiting') {
+        throw new Error(`System dependency cycle: ${[...path, entry.name].join(' -> ')}`);
+      }
+      state.set(entry.name, 'visiting');
+      entry.after.forEach(dependency => {
+        const required = this.systems.get(dependency);
+        if (!required) {
+          throw new Error(`System "${entry.name}" updates after unknown system "${dependency}"`);
+        }
+        visit(required, [...path, entry.name]);
+      });
+      state.set(entry.name, 'done');
+      order.push(entry);
+    };
+
+    this.systems.forEach(entry => visit(entry, []));
+    this.updateOrder = order;
+    return order;
+  }
+}
@@ -15,6 +15,18 @@ export interface GameState {
   totalGold: number;
 }
 
+export interface LevelPackInfo {
+  id: string;
+  name: string;
+  file: string;             // Pack JSON file under /assets/levels/
+  levelCount: number;
+  levelKeyPattern: string;  // e.g. "level-{nnn}" -> level-001
+  guardBrain?: string;      // Guard AI for the pack: heuristic, astar or classic (heuristic when absent)
+}
+
+// Where guards reappear after dying in a hole (see GuardRespawn)
+export type GuardRespawnPolicy = 'spawn' | 'top-row';
+
 export interface Position {
   x: number;
   y: number;
@@ -52,11 +64,27 @@ export enum PlayerState {
   INVINCIBLE = 'invincible'
 }
 
+export enum GuardState {
+  IDLE = 'idle',
+  RUNNING_LEFT = 'running_left', 
+  RUNNING_RIGHT = 'running_right',
+  CLIMBING = 'climbing',
+  BAR_LEFT = 'bar_left',
+  BAR_RIGHT = 'bar_right',
+  FALLING = 'falling',
+  IN_HOLE = 'in_hole',
+  STUNNED_IN_HOLE = 'stunned_in_hole', // New state for mandatory stun period
+  ESCAPING_HOLE = 'escaping_hole',
+  REBORN = 'reborn',
+  SHAKING = 'shaking'
+}
+
 export interface HoleData {
   gridX: number;
   gridY: number;
   sprite: Phaser.GameObjects.Sprite;
   originalTileType: number;
+  direction: 'left' | 'right';   // Side the player dug from; picks the dig animation
   regenerationTimer: Phaser.Time.TimerEvent;
   isDigging: boolean;
 }
\ No newline at end of file
@@ -0,0 +1,43 @@
+/**
+ * FileTransfer - moves text files in and out of the browser
+ * Used for replays, level saves, bug reports and log exports.
+ */
+export class FileTransfer {
+  // click() only starts the download; revoking the URL straight away can cancel it in some browsers
+  private static readonly REVOKE_DELAY_MS = 1000;
+
+  /**
+   * Save text as a file through the browser's download prompt
+   */
+  static download(fileName: string, text: string, mimeType: string = 'application/json'): void {
+    const blob = new Blob([text], { type: mimeType });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), this.REVOKE_DELAY_MS);
+  }
+
+  /**
+   * Let the user pick a text file; resolves with its contents, or null if nothing was chosen
+   */
+  static pickText(accept: string = '.json,application/json'): Promise<string | null> {
+    return new Promise((resolve, reject) => {
+      const input = document.createElement('input');
+      input.type = 'file';
+      input.accept = accept;
+      input.onchange = () => {
+        const file = input.files?.[0];
+        if (!file) {
+          resolve(null);
+          return;
+        }
+        file.text().then(resolve, reject);
+      };
+      // Closing the dialog without a file fires no change event
+      input.addEventListener('cancel', () => resolve(null));
+      input.click();
+    });
+  }
+}
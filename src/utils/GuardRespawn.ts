@@ -0,0 +1,50 @@
+/**
+ * GuardRespawn - picks the cell a guard reappears in after dying in a hole
+ * Policies:
+ * - 'spawn':   back at the guard's level start position
+ * - 'top-row': classic rule - a random empty cell in the top row, or the
+ *              nearest row below it with a free cell
+ * Either way the guard never appears inside a tile, in a hole or on top of
+ * the player or another guard. A blocked start position falls back to the
+ * top-row search.
+ */
+
+import { GAME_CONFIG, TILE_TYPES } from '@/config/GameConfig';
+import { GuardRespawnPolicy } from '@/types/GameTypes';
+import { NavNode } from './NavigationGraph';
+import { SeededRandom } from './SeededRandom';
+
+export interface RespawnContext {
+  getTileType(gridX: number, gridY: number): number;
+  isOccupied(gridX: number, gridY: number): boolean; // Player, other guards or an open hole
+}
+
+export class GuardRespawn {
+  /**
+   * Cell the guard should reappear in
+   * @param spawn Guard's start cell from the level data
+   */
+  static findCell(policy: GuardRespawnPolicy, spawn: NavNode, context: RespawnContext, rng: SeededRandom): NavNode {
+    if (policy === 'spawn' && this.isFree(spawn.x, spawn.y, context)) {
+      return spawn;
+    }
+
+    for (let y = 0; y < GAME_CONFIG.levelHeight; y++) {
+      const freeColumns: number[] = [];
+      for (let x = 0; x < GAME_CONFIG.levelWidth; x++) {
+        if (this.isFree(x, y, context)) {
+          freeColumns.push(x);
+        }
+      }
+      if (freeColumns.length > 0) {
+        return { x: rng.pick(freeColumns), y };
+      }
+    }
+
+    return spawn; // Level is full - nowhere better to go
+  }
+
+  private static isFree(gridX: number, gridY: number, context: RespawnContext): boolean {
+    return context.getTileType(gridX, gridY) === TILE_TYPES.EMPTY && !context.isOccupied(gridX, gridY);
+  }
+}
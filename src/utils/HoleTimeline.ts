@@ -23,6 +23,12 @@ export interface GuardTimelineEntry {
   canClimb: boolean;   // Whether guard can attempt to climb out
 }
 
+// Everything needed to rebuild a HoleTimeline exactly
+export interface HoleTimelineState {
+  currentTime: number;
+  timelines: HoleTimelineData[];
+}
+
 export class HoleTimeline {
   private timelines: Map<string, HoleTimelineData> = new Map();
   private currentTime: number = 0;
@@ -243,6 +249,30 @@ export class HoleTimeline {
     return new Map(this.timelines);
   }
 
+  /**
+   * Deep copy of every timeline, including guard entries, for save states
+   */
+  getState(): HoleTimelineState {
+    return {
+      currentTime: this.currentTime,
+      timelines: [...this.timelines.values()].map(timeline => ({
+        ...timeline,
+        guardsInHole: timeline.guardsInHole.map(guard => ({ ...guard }))
+      }))
+    };
+  }
+
+  /**
+   * Replace all timelines with a copy of a saved state
+   */
+  restoreState(state: HoleTimelineState): void {
+    this.currentTime = state.currentTime;
+    this.timelines = new Map(state.timelines.map(timeline => [timeline.holeKey, {
+      ...timeline,
+      guardsInHole: timeline.guardsInHole.map(guard => ({ ...guard }))
+    }]));
+  }
+
   /**
    * Get debug information for all active timelines
    */
@@ -0,0 +1,12 @@
+/**
+ * Compact per-frame input encoding used by InputManager and game replays.
+ * One bit per control; a frame's input fits in a single small integer.
+ */
+export const INPUT_BITS = {
+  LEFT: 1 << 0,
+  RIGHT: 1 << 1,
+  UP: 1 << 2,
+  DOWN: 1 << 3,
+  DIG_LEFT: 1 << 4,
+  DIG_RIGHT: 1 << 5
+} as const;
@@ -0,0 +1,22 @@
+/**
+ * JsonGuards - narrowing for JSON read back from storage or files
+ * Parsed data is typed unknown until a validator has checked it; these
+ * helpers let the checks read fields without casting.
+ */
+export type JsonObject = Record<string, unknown>;
+
+export class JsonGuards {
+  /**
+   * A JSON object (not null or an array) whose fields can be read
+   */
+  static isObject(value: unknown): value is JsonObject {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
+  /**
+   * Every item is a JSON object
+   */
+  static isObjectArray(value: unknown): value is JsonObject[] {
+    return Array.isArray(value) && value.every(item => this.isObject(item));
+  }
+}
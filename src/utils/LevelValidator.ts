@@ -0,0 +1,235 @@
+/**
+ * LevelValidator - static checks for level data before it ships
+ * Runs on the same parse as the game (AssetManager.parseLevelData), so it
+ * works in Node as well as in the editor. Reachability is a flood fill over
+ * the NavigationGraph, with dig edges and steered falls for the player and
+ * without either for guards. The exit follows LevelSystem.checkExitCompletion.
+ */
+
+import { GAME_CONFIG, LEVEL_LIMITS, TILE_TYPES } from '@/config/GameConfig';
+import { AssetManager } from '@/managers/AssetManager';
+import { TileChecker } from './ClimbValidation';
+import { NavigationGraph, NavNode } from './NavigationGraph';
+
+export type LevelIssueSeverity = 'error' | 'warning';
+
+export interface LevelIssue {
+  severity: LevelIssueSeverity;
+  code: string;
+  message: string;
+  x?: number;   // Grid position the issue refers to, when there is one
+  y?: number;
+}
+
+export interface LevelStats {
+  width: number;
+  height: number;
+  gold: number;
+  guards: number;
+  exitColumn: number | null;
+}
+
+export interface LevelValidationResult {
+  valid: boolean;   // No errors (warnings are allowed)
+  issues: LevelIssue[];
+  stats: LevelStats;
+}
+
+// Every glyph AssetManager.parseLevelData understands
+const KNOWN_GLYPHS = new Set([' ', '#', '@', 'H', '-', 'X', 'S', '$', '0', '&']);
+
+export class LevelValidator {
+  /**
+   * Validate one level
+   * @param levelData Level rows as stored in a pack file
+   */
+  static validate(levelData: string[]): LevelValidationResult {
+    const issues: LevelIssue[] = [];
+    const error = (code: string, message: string, cell?: NavNode) =>
+      issues.push({ severity: 'error', code, message, ...cell });
+
+    const rows = Array.isArray(levelData) ? levelData : [];
+    const stats: LevelStats = {
+      width: rows.reduce((max, row) => Math.max(max, row.length), 0),
+      height: rows.length,
+      gold: 0,
+      guards: 0,
+      exitColumn: null
+    };
+
+    if (rows.length === 0) {
+      error('empty', 'Level has no rows');
+      return { valid: false, issues, stats };
+    }
+
+    // Grid size
+    let sizeOk = rows.length === GAME_CONFIG.levelHeight;
+    if (!sizeOk) {
+      error('size', `Level has ${rows.length} rows, expected ${GAME_CONFIG.levelHeight}`);
+    }
+    rows.forEach((row, y) => {
+      if (row.length !== GAME_CONFIG.levelWidth) {
+        sizeOk = false;
+        error('size', `Row ${y} is ${row.length} wide, expected ${GAME_CONFIG.levelWidth}`, { x: 0, y });
+      }
+    });
+
+    // Glyphs and the player start
+    const playerStarts: NavNode[] = [];
+    rows.forEach((row, y) => {
+      for (let x = 0; x < row.length; x++) {
+        const glyph = row[x];
+        if (!KNOWN_GLYPHS.has(glyph)) {
+          error('glyph', `Unknown glyph "${glyph}" at (${x},${y})`, { x, y });
+        } else if (glyph === '&') {
+          playerStarts.push({ x, y });
+        }
+      }
+    });
+
+    if (playerStarts.length !== 1) {
+      error('player', `Level needs exactly one player start (&), found ${playerStarts.length}`);
+    }
+
+    const levelInfo = AssetManager.parseLevelData(rows);
+    const toGrid = (position: { x: number, y: number }): NavNode => ({
+      x: Math.floor(position.x / GAME_CONFIG.tileSize),
+      y: Math.floor(position.y / GAME_CONFIG.tileSize)
+    });
+
+    // Gold and guard counts
+    stats.gold = levelInfo.gold.length;
+    stats.guards = levelInfo.guards.length;
+    if (stats.gold < LEVEL_LIMITS.MIN_GOLD || stats.gold > LEVEL_LIMITS.MAX_GOLD) {
+      error('gold', `Level has ${stats.gold} gold, expected ${LEVEL_LIMITS.MIN_GOLD}-${LEVEL_LIMITS.MAX_GOLD}`);
+    }
+    if (stats.guards > LEVEL_LIMITS.MAX_GUARDS) {
+      error('guards', `Level has ${stats.guards} guards, at most ${LEVEL_LIMITS.MAX_GUARDS} allowed`);
+    }
+
+    const exitLadder = levelInfo.exitLadder ? toGrid(levelInfo.exitLadder) : null;
+    stats.exitColumn = exitLadder ? exitLadder.x : null;
+    if (!exitLadder) {
+      issues.push({ severity: 'warning', code: 'exit', message: 'Level has no exit ladder (S), so the exit check is skipped' });
+    }
+
+    // Reachability only makes sense on a well-formed grid with one start
+    if (sizeOk && playerStarts.length === 1) {
+      const start = playerStarts[0];
+
+      // Gold has to be collected before the exit ladder appears. Gold the player
+      // cannot reach may still be carried out by a guard, which is only a warning.
+      const tileChecker = this.createTileChecker(levelInfo.tiles);
+      const reachable = this.getPlayerReachable(tileChecker, start);
+      const guardGraph = new NavigationGraph(tileChecker);
+      const guardReachable = new Set<string>();
+      levelInfo.guards.map(toGrid).forEach(guard => {
+        guardGraph.getReachable(guard).forEach(key => guardReachable.add(key));
+      });
+
+      levelInfo.gold.map(toGrid).forEach(cell => {
+        const key = NavigationGraph.nodeKey(cell.x, cell.y);
+        if (reachable.has(key)) {
+          return;
+        }
+        if (guardReachable.has(key)) {
+          issues.push({ severity: 'warning', code: 'guard-gold', message: `Gold at (${cell.x},${cell.y}) can only be fetched by a guard`, ...cell });
+        } else {
+          error('unreachable-gold', `Gold at (${cell.x},${cell.y}) cannot be reached from the start`, cell);
+        }
+      });
+
+      if (exitLadder) {
+        const revealed = levelInfo.tiles.map(row => [...row]);
+        levelInfo.allSPositions.map(toGrid).forEach(cell => {
+          revealed[cell.y][cell.x] = TILE_TYPES.LADDER;
+        });
+
+        const revealedChecker = this.createTileChecker(revealed);
+        const exitTop = this.findExitTop(revealedChecker, exitLadder);
+        if (!this.getPlayerReachable(revealedChecker, start).has(NavigationGraph.nodeKey(exitTop.x, exitTop.y))) {
+          error('unreachable-exit', `Exit at (${exitTop.x},${exitTop.y}) cannot be reached from the start`, exitTop);
+        }
+      }
+    }
+
+    return { valid: issues.every(issue => issue.severity !== 'error'), issues, stats };
+  }
+
+  /**
+   * Cells the player can reach from the start. On top of the graph's moves the
+   * runner keeps horizontal control in the air (Player.handleMovement), which
+   * is enough to shift one column during a fall - onto a ledge, a ladder or a rope.
+   */
+  private static getPlayerReachable(tileChecker: TileChecker, start: NavNode): Set<string> {
+    const graph = new NavigationGraph(tileChecker, { canDig: true });
+    const reachable = new Set<string>();
+    const visited = new Set<string>();
+    const queue: { x: number, y: number, drifted: boolean }[] = [];
+    const visit = (x: number, y: number, drifted: boolean) => {
+      const key = `${NavigationGraph.nodeKey(x, y)},${drifted}`;
+      if (!visited.has(key)) {
+        visited.add(key);
+        reachable.add(NavigationGraph.nodeKey(x, y));
+        queue.push({ x, y, drifted });
+      }
+    };
+
+    visit(start.x, start.y, false);
+    while (queue.length > 0) {
+      const { x, y, drifted } = queue.shift()!;
+      if (graph.isSupported(x, y)) {
+        graph.getNeighbors(x, y).forEach(next => visit(next.x, next.y, false));
+        continue;
+      }
+
+      graph.getNeighbors(x, y).forEach(next => visit(next.x, next.y, drifted));
+      if (!drifted) {
+        [x - 1, x + 1].forEach(sideX => {
+          if (graph.isInBounds(sideX, y) && !tileChecker.isTileSolid(sideX, y)) {
+            visit(sideX, y, true);
+          }
+        });
+      }
+    }
+
+    return reachable;
+  }
+
+  /**
+   * Top of the exit column - the cell LevelSystem.checkExitCompletion waits
+   * for, found the way LevelSystem.findHighestAccessiblePosition does
+   */
+  private static findExitTop(tileChecker: TileChecker, exitLadder: NavNode): NavNode {
+    let topY = exitLadder.y;
+    for (let y = exitLadder.y - 1; y >= 0; y--) {
+      if (tileChecker.isTileSolid(exitLadder.x, y)) {
+        break;
+      }
+      topY = y;
+    }
+    return { x: exitLadder.x, y: topY };
+  }
+
+  /**
+   * TileChecker over a parsed tile grid, matching LevelSystem's rules
+   */
+  private static createTileChecker(tiles: number[][]): TileChecker {
+    const getTileType = (gridX: number, gridY: number): number => tiles[gridY]?.[gridX] ?? TILE_TYPES.SOLID;
+    return {
+      getTileType,
+      isTileSolid: (gridX: number, gridY: number): boolean => {
+        const tileType = getTileType(gridX, gridY);
+        return tileType === TILE_TYPES.BRICK || tileType === TILE_TYPES.SOLID;
+      },
+      isTileStandable: (gridX: number, gridY: number): boolean => {
+        const tileType = getTileType(gridX, gridY);
+        return tileType === TILE_TYPES.BRICK ||
+               tileType === TILE_TYPES.SOLID ||
+               tileType === TILE_TYPES.LADDER ||
+               tileType === TILE_TYPES.ROPE;
+      }
+    };
+  }
+
+}
@@ -1,6 +1,10 @@
 /**
  * Environment-aware logging system for Lode Runner Clone
  * Follows 2024 Phaser 3 best practices for clean production code
+ * Console output follows the environment; every message also goes to an
+ * in-memory ring buffer per category that the in-game log console reads and
+ * exports. Buffering keeps the raw message and a timestamp; the time and the
+ * extra arguments are only turned into text when the entry is read.
  */
 
 export enum LogLevel {
@@ -23,6 +27,39 @@ export enum LogCategory {
   UI = 'UI'
 }
 
+// One logged message, as kept in the log buffer
+export interface LogEntry {
+  time: string;        // ISO timestamp
+  level: LogLevel;
+  category: LogCategory;
+  message: string;
+  details?: string;    // Extra arguments, flattened to text
+}
+
+export interface LogFilter {
+  category?: LogCategory;   // Every category when absent
+  minLevel?: LogLevel;
+}
+
+const CATEGORY_BUFFER_SIZE = 500;  // Per category, so chatty GUARD_AI traces can't push the rest out
+const DETAILS_LIMIT = 500;         // Characters kept of an entry's extra arguments
+
+// A message as buffered; read() turns it into a LogEntry once
+interface BufferedEntry {
+  sequence: number;    // Logging order across categories
+  timestamp: number;   // Date.now()
+  level: LogLevel;
+  category: LogCategory;
+  message: string;
+  args?: any[];        // Dropped once formatted
+  formatted?: LogEntry;
+}
+
+interface CategoryBuffer {
+  entries: BufferedEntry[];
+  next: number;
+}
+
 interface LogConfig {
   enabled: boolean;
   minLevel: LogLevel;
@@ -32,6 +69,11 @@ interface LogConfig {
 class LoggerService {
   private config: LogConfig;
 
+  // Ring buffers of every message in every level, whatever the console
+  // settings, so deployed builds keep a trace for testers
+  private buffers: Map<LogCategory, CategoryBuffer> = new Map();
+  private totalEntries = 0;
+
   constructor() {
     // Environment-aware configuration
     const isDevelopment = process.env.NODE_ENV === 'development' || 
@@ -59,7 +101,7 @@ class LoggerService {
   }
 
   /**
-   * Log debug information (development only)
+   * Log debug information (console in development only; always buffered)
    */
   debug(category: LogCategory, message: string, ...args: any[]): void {
     this.log(LogLevel.DEBUG, category, message, ...args);
@@ -86,10 +128,47 @@ class LoggerService {
     this.log(LogLevel.ERROR, category, message, ...args);
   }
 
+  /**
+   * Buffered messages, oldest first
+   */
+  getEntries(filter: LogFilter = {}): LogEntry[] {
+    const buffers = filter.category === undefined
+      ? [...this.buffers.values()]
+      : [this.buffers.get(filter.category)].filter((buffer): buffer is CategoryBuffer => buffer !== undefined);
+    const minLevel = filter.minLevel ?? LogLevel.DEBUG;
+
+    return buffers
+      .flatMap(buffer => buffer.entries.filter(entry => entry.level >= minLevel))
+      .sort((first, second) => first.sequence - second.sequence)
+      .map(entry => this.read(entry));
+  }
+
+  /**
+   * Messages logged since startup (or the last clear), including ones the buffer has dropped
+   */
+  getTotalEntryCount(): number {
+    return this.totalEntries;
+  }
+
+  clearEntries(): void {
+    this.buffers.clear();
+    this.totalEntries = 0;
+  }
+
+  /**
+   * One line of text per entry, for the log console and exported files
+   */
+  formatEntry(entry: LogEntry): string {
+    const line = `${entry.time} ${LogLevel[entry.level].padEnd(5)} [${entry.category}] ${entry.message}`;
+    return entry.details ? `${line} ${entry.details}` : line;
+  }
+
   /**
    * Internal logging method with filtering
    */
   private log(level: LogLevel, category: LogCategory, message: string, ...args: any[]): void {
+    this.record(level, category, message, args);
+
     // Always log errors, regardless of configuration
     if (level === LogLevel.ERROR) {
       console.error(`[${category}] ${message}`, ...args);
@@ -119,6 +198,51 @@ class LoggerService {
     }
   }
 
+  private record(level: LogLevel, category: LogCategory, message: string, args: any[]): void {
+    const entry: BufferedEntry = { sequence: this.totalEntries, timestamp: Date.now(), level, category, message };
+    if (args.length > 0) {
+      entry.args = args;
+    }
+
+    let buffer = this.buffers.get(category);
+    if (!buffer) {
+      buffer = { entries: [], next: 0 };
+      this.buffers.set(category, buffer);
+    }
+
+    // Overwrite the category's oldest entry once its buffer is full
+    buffer.entries[buffer.next] = entry;
+    buffer.next = (buffer.next + 1) % CATEGORY_BUFFER_SIZE;
+    this.totalEntries++;
+  }
+
+  // Arguments are described as they are when first read, not when logged
+  private read(entry: BufferedEntry): LogEntry {
+    if (!entry.formatted) {
+      const { level, category, message, args } = entry;
+      entry.formatted = { time: new Date(entry.timestamp).toISOString(), level, category, message };
+      if (args) {
+        entry.formatted.details = args.map(arg => this.describeArg(arg)).join(' ').slice(0, DETAILS_LIMIT);
+        entry.args = undefined;
+      }
+    }
+    return entry.formatted;
+  }
+
+  private describeArg(arg: unknown): string {
+    if (arg instanceof Error) {
+      return `${arg.name}: ${arg.message}`;
+    }
+    if (typeof arg !== 'object' || arg === null) {
+      return String(arg);
+    }
+    try {
+      return JSON.stringify(arg);
+    } catch {
+      return Object.prototype.toString.call(arg); // Circular, or a Phaser object
+    }
+  }
+
   /**
    * Create a scoped logger for a specific category
    */
@@ -0,0 +1,243 @@
+/**
+ * NavigationGraph - tile-to-tile movement graph for pathfinding
+ * Nodes are grid cells; edges follow the movement rules shared by the runner
+ * and guards: walk on standable tiles, climb ladders, traverse ropes, drop
+ * down and fall. Players can optionally dig their way down through bricks.
+ * Edges are built lazily from a TileChecker and cached until invalidate()
+ * is called (holes opening or closing, the exit ladder appearing).
+ */
+
+import { GAME_CONFIG, TILE_TYPES } from '@/config/GameConfig';
+import { TileChecker } from './ClimbValidation';
+
+export interface NavNode {
+  x: number;  // Grid X coordinate
+  y: number;  // Grid Y coordinate
+}
+
+export interface NavigationOptions {
+  canDig?: boolean;   // Add dig-down edges (players only - guards cannot dig)
+  width?: number;     // Grid size, defaults to the level size in GAME_CONFIG
+  height?: number;
+}
+
+export class NavigationGraph {
+  private tileChecker: TileChecker;
+  private readonly canDig: boolean;
+  private readonly width: number;
+  private readonly height: number;
+  private edges: Map<string, NavNode[]> = new Map();
+  private version: number = 0;
+
+  constructor(tileChecker: TileChecker, options: NavigationOptions = {}) {
+    this.tileChecker = tileChecker;
+    this.canDig = options.canDig ?? false;
+    this.width = options.width ?? GAME_CONFIG.levelWidth;
+    this.height = options.height ?? GAME_CONFIG.levelHeight;
+  }
+
+  static nodeKey(x: number, y: number): string {
+    return `${x},${y}`;
+  }
+
+  /**
+   * Drop cached edges after the tiles changed
+   */
+  invalidate(): void {
+    this.edges.clear();
+    this.version++;
+  }
+
+  /**
+   * Drop cached edges and carry on from a saved version, so paths stored
+   * against that version (a restored save state) still count as fresh
+   */
+  restoreVersion(version: number): void {
+    this.edges.clear();
+    this.version = version;
+  }
+
+  /**
+   * Bumped on every invalidate(), so callers can tell a stored path is stale
+   */
+  getVersion(): number {
+    return this.version;
+  }
+
+  isInBounds(x: number, y: number): boolean {
+    return x >= 0 && x < this.width && y >= 0 && y < this.height;
+  }
+
+  /**
+   * Tile type at a cell; outside the grid counts as solid
+   */
+  getTileType(x: number, y: number): number {
+    return this.isInBounds(x, y) ? this.tileChecker.getTileType(x, y) : TILE_TYPES.SOLID;
+  }
+
+  /**
+   * Cells one move away from the given cell
+   */
+  getNeighbors(x: number, y: number): NavNode[] {
+    const key = NavigationGraph.nodeKey(x, y);
+    let neighbors = this.edges.get(key);
+    if (!neighbors) {
+      neighbors = this.buildEdges(x, y);
+      this.edges.set(key, neighbors);
+    }
+    return neighbors;
+  }
+
+  /**
+   * Every cell reachable from the start, as node keys
+   */
+  getReachable(start: NavNode): Set<string> {
+    const visited = new Set<string>([NavigationGraph.nodeKey(start.x, start.y)]);
+    const queue: NavNode[] = [start];
+
+    while (queue.length > 0) {
+      const node = queue.shift()!;
+      this.getNeighbors(node.x, node.y).forEach(next => {
+        const key = NavigationGraph.nodeKey(next.x, next.y);
+        if (!visited.has(key)) {
+          visited.add(key);
+          queue.push(next);
+        }
+      });
+    }
+
+    return visited;
+  }
+
+  /**
+   * A* search between two cells
+   * @returns Cells to visit after the start, ending with the goal; empty when
+   * already there, null when the goal cannot be reached
+   */
+  findPath(start: NavNode, goal: NavNode): NavNode[] | null {
+    if (!this.isInBounds(start.x, start.y) || !this.isInBounds(goal.x, goal.y)) {
+      return null;
+    }
+
+    const startKey = NavigationGraph.nodeKey(start.x, start.y);
+    const goalKey = NavigationGraph.nodeKey(goal.x, goal.y);
+    const heuristic = (node: NavNode) => Math.abs(node.x - goal.x) + Math.abs(node.y - goal.y);
+
+    const open: { node: NavNode, key: string, f: number }[] = [{ node: start, key: startKey, f: heuristic(start) }];
+    const cameFrom = new Map<string, NavNode & { parent: string }>();
+    const costs = new Map<string, number>([[startKey, 0]]);
+    const closed = new Set<string>();
+
+    while (open.length > 0) {
+      // Lowest f first; the grid is small enough that a linear scan beats a heap
+      let bestIndex = 0;
+      for (let i = 1; i < open.length; i++) {
+        if (open[i].f < open[bestIndex].f) {
+          bestIndex = i;
+        }
+      }
+      const { node, key } = open.splice(bestIndex, 1)[0];
+
+      if (key === goalKey) {
+        return this.buildPath(cameFrom, goalKey, startKey);
+      }
+      if (closed.has(key)) {
+        continue;
+      }
+      closed.add(key);
+
+      const cost = costs.get(key)! + 1;
+      this.getNeighbors(node.x, node.y).forEach(next => {
+        const nextKey = NavigationGraph.nodeKey(next.x, next.y);
+        if (closed.has(nextKey) || cost >= (costs.get(nextKey) ?? Infinity)) {
+          return;
+        }
+        costs.set(nextKey, cost);
+        cameFrom.set(nextKey, { ...next, parent: key });
+        open.push({ node: next, key: nextKey, f: cost + heuristic(next) });
+      });
+    }
+
+    return null;
+  }
+
+  private buildPath(cameFrom: Map<string, NavNode & { parent: string }>, goalKey: string, startKey: string): NavNode[] {
+    const path: NavNode[] = [];
+    let key = goalKey;
+    while (key !== startKey) {
+      const step = cameFrom.get(key)!;
+      path.unshift({ x: step.x, y: step.y });
+      key = step.parent;
+    }
+    return path;
+  }
+
+  private buildEdges(x: number, y: number): NavNode[] {
+    if (!this.isInBounds(x, y)) {
+      return [];
+    }
+
+    // Falling leaves no choice
+    if (!this.isSupported(x, y)) {
+      return this.isPassable(x, y + 1) ? [{ x, y: y + 1 }] : [];
+    }
+
+    const edges: NavNode[] = [];
+    const tileType = this.getTileType(x, y);
+    const below = this.getTileType(x, y + 1);
+
+    if (tileType === TILE_TYPES.LADDER && this.isPassable(x, y - 1)) {
+      edges.push({ x, y: y - 1 });
+    }
+    // Ropes have no collision body, so they can also be dropped onto from above
+    if (this.isPassable(x, y + 1) &&
+        (tileType === TILE_TYPES.LADDER || tileType === TILE_TYPES.ROPE || below === TILE_TYPES.LADDER || below === TILE_TYPES.ROPE)) {
+      edges.push({ x, y: y + 1 });
+    }
+
+    let canDigDown = false;
+    [-1, 1].forEach(direction => {
+      const sideX = x + direction;
+      if (this.isPassable(sideX, y)) {
+        edges.push({ x: sideX, y });
+      }
+      if (!this.canDig) {
+        return;
+      }
+
+      // Dig the diagonal brick and drop into the hole
+      const sideTile = this.getTileType(sideX, y);
+      if (sideTile === TILE_TYPES.EMPTY && this.getTileType(sideX, y + 1) === TILE_TYPES.BRICK) {
+        edges.push({ x: sideX, y: y + 1 });
+      }
+      // Digging two holes side by side from above lets the player work straight down
+      canDigDown = canDigDown || sideTile === TILE_TYPES.EMPTY || sideTile === TILE_TYPES.BRICK;
+    });
+
+    if (canDigDown && below === TILE_TYPES.BRICK) {
+      edges.push({ x, y: y + 1 });
+    }
+
+    return edges;
+  }
+
+  private isPassable(x: number, y: number): boolean {
+    return this.isInBounds(x, y) && !this.tileChecker.isTileSolid(x, y);
+  }
+
+  /**
+   * Whether a cell holds an entity up; unsupported cells fall straight down
+   */
+  isSupported(x: number, y: number): boolean {
+    if (y >= this.height - 1) {
+      return true; // Bottom edge of the level
+    }
+
+    const tileType = this.getTileType(x, y);
+    if (tileType === TILE_TYPES.LADDER || tileType === TILE_TYPES.ROPE) {
+      return true;
+    }
+
+    return this.tileChecker.isTileStandable(x, y + 1);
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * SeededRandom - small deterministic PRNG (mulberry32)
+ * Gameplay code draws from one instance owned by the scene instead of
+ * Math.random(), so the same seed, level and inputs replay identically.
+ */
+export class SeededRandom {
+  private readonly seed: number;
+  private state: number;
+
+  constructor(seed: number) {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+
+  /**
+   * Fresh seed for a new session (the only non-deterministic step)
+   */
+  static createSeed(): number {
+    return (Date.now() ^ Math.floor(Math.random() * 0x100000000)) >>> 0;
+  }
+
+  getSeed(): number {
+    return this.seed;
+  }
+
+  /**
+   * Position in the sequence, for save states
+   */
+  getState(): number {
+    return this.state;
+  }
+
+  /**
+   * Resume the sequence from a value returned by getState()
+   */
+  setState(state: number): void {
+    this.state = state >>> 0;
+  }
+
+  /**
+   * Next float in [0, 1)
+   */
+  next(): number {
+    this.state = (this.state + 0x6D2B79F5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * Next integer in [0, max)
+   */
+  nextInt(max: number): number {
+    return Math.floor(this.next() * max);
+  }
+
+  /**
+   * True with the given probability
+   */
+  chance(probability: number): boolean {
+    return this.next() < probability;
+  }
+
+  pick<T>(items: readonly T[]): T {
+    return items[this.nextInt(items.length)];
+  }
+}
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { GAME_CONFIG, TILE_TYPES } from '@/config/GameConfig';
+import { AssetManager } from '@/managers/AssetManager';
+
+describe('AssetManager.parseLevelData', () => {
+  const level = AssetManager.parseLevelData([
+    '  S   S',
+    '$ S & S',
+    '#X#H#-#'
+  ]);
+
+  it('keeps trap bricks as their own tile type', () => {
+    expect(level.tiles[2]).toEqual([
+      TILE_TYPES.BRICK, TILE_TYPES.TRAP, TILE_TYPES.BRICK, TILE_TYPES.LADDER,
+      TILE_TYPES.BRICK, TILE_TYPES.ROPE, TILE_TYPES.BRICK
+    ]);
+  });
+
+  it('hides exit ladders and takes the top of the rightmost column as the exit', () => {
+    expect(level.tiles[0][6]).toBe(TILE_TYPES.EMPTY);
+    expect(level.exitLadder).toEqual({ x: 6 * GAME_CONFIG.tileSize, y: 0 });
+    expect(level.allSPositions).toHaveLength(4);
+  });
+
+  it('reads the player start and gold as pixel positions', () => {
+    expect(level.playerStart).toEqual({ x: 4 * GAME_CONFIG.tileSize, y: GAME_CONFIG.tileSize });
+    expect(level.gold).toEqual([{ x: 0, y: GAME_CONFIG.tileSize }]);
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import {
+  GameReplayHeader,
+  GameReplayManager,
+  GameReplayPlayer,
+  GameReplayRecorder
+} from '@/managers/GameReplayManager';
+
+const header: GameReplayHeader = {
+  buildVersion: 'test',
+  packId: 'classic',
+  levelNumber: 1,
+  levelKey: 'level-001',
+  seed: 99,
+  guardBrain: 'heuristic',
+  score: 0,
+  lives: 5
+};
+
+// [bits, deltaMs, gameSpeed] per frame
+const FRAMES: [number, number, number][] = [
+  [0, 16.6, 1], [0, 16.6, 1], [0, 16.6, 1],
+  [1, 16.6, 1], [1, 16.7, 1],
+  [5, 16.7, 1.5], [5, 16.7, 1.5],
+  [0, 33.3, 1.5]
+];
+
+function record(): GameReplayRecorder {
+  const recorder = new GameReplayRecorder(header);
+  FRAMES.forEach(([bits, deltaMs, gameSpeed]) => recorder.record(bits, deltaMs, gameSpeed));
+  return recorder;
+}
+
+describe('GameReplayRecorder', () => {
+  it('stores runs of identical frames once with a count', () => {
+    const replay = record().toReplay({ outcome: 'died', frame: FRAMES.length, score: 0 });
+
+    expect(replay.totalFrames).toBe(FRAMES.length);
+    expect(replay.frames).toEqual([
+      [0, 16.6, 1, 3],
+      [1, 16.6, 1, 1],
+      [1, 16.7, 1, 1],
+      [5, 16.7, 1.5, 2],
+      [0, 33.3, 1.5, 1]
+    ]);
+  });
+
+  it('hands back a copy, so later frames don\'t change an earlier replay', () => {
+    const recorder = record();
+    const replay = recorder.toReplay({ outcome: 'stopped', frame: FRAMES.length, score: 0 });
+    recorder.record(0, 33.3, 1.5);
+
+    expect(replay.frames[replay.frames.length - 1]).toEqual([0, 33.3, 1.5, 1]);
+  });
+});
+
+describe('GameReplayPlayer', () => {
+  it('plays the recorded frames back in order, through a file round trip', () => {
+    const replay = GameReplayManager.parse(GameReplayManager.serialize(
+      record().toReplay({ outcome: 'complete', frame: FRAMES.length, score: 250 })));
+    const player = new GameReplayPlayer(replay);
+
+    const played = [];
+    for (let frame = player.next(); frame; frame = player.next()) {
+      played.push([frame.bits, frame.deltaMs, frame.gameSpeed]);
+    }
+    expect(played).toEqual(FRAMES);
+    expect(player.next()).toBeNull();
+  });
+});
+
+describe('GameReplayManager.parse', () => {
+  const replay = record().toReplay({ outcome: 'died', frame: FRAMES.length, score: 0 });
+
+  it('reads the replay out of a bug report', () => {
+    expect(GameReplayManager.parse(JSON.stringify({ error: { message: 'boom' }, replay }))).toEqual(replay);
+  });
+
+  it.each([
+    ['a frame with a zero count', { frames: [[0, 16.6, 1, 0]] }, 'frames are malformed'],
+    ['a negative frame time', { frames: [[0, -1, 1, 1]] }, 'frames are malformed'],
+    ['an unknown outcome', { result: { outcome: 'won', frame: 1, score: 0 } }, 'has no result'],
+    ['another version', { version: 0 }, 'Unsupported replay version']
+  ])('rejects %s', (_case, change, message) => {
+    expect(() => GameReplayManager.parse(JSON.stringify({ ...replay, ...change }))).toThrow(message);
+  });
+});
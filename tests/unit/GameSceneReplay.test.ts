@@ -0,0 +1,179 @@
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { GAME_CONFIG, SCENE_KEYS } from '@/config/GameConfig';
+import { AssetManager } from '@/managers/AssetManager';
+import { GameReplayManager } from '@/managers/GameReplayManager';
+import { InputManager } from '@/managers/InputManager';
+import { LevelPackManager } from '@/managers/LevelPackManager';
+import { GameScene } from '@/scenes/GameScene';
+import { GuardState } from '@/types/GameTypes';
+import { INPUT_BITS } from '@/utils/InputBits';
+
+const ASSETS = resolve(__dirname, '../../public/assets');
+
+function readJson(path: string): any {
+  return JSON.parse(readFileSync(resolve(ASSETS, path), 'utf8'));
+}
+
+// jsdom never loads images, so Phaser's built-in textures would never finish booting
+beforeAll(() => {
+  Object.defineProperty(HTMLImageElement.prototype, 'src', {
+    configurable: true,
+    set(this: HTMLImageElement, value: string) {
+      this.setAttribute('src', value);
+      setTimeout(() => this.onload?.(new Event('load')));
+    },
+    get(this: HTMLImageElement) {
+      return this.getAttribute('src') ?? '';
+    }
+  });
+});
+
+// The runner takes the gold and digs in the guard's path, waits on the exit
+// ladder while the guard is stunned in the hole, dies as it fills and is
+// reborn on the top row, then climbs out
+const LEVEL = [
+  '        S                   ',
+  '        S                   ',
+  '        S                   ',
+  '        S                   ',
+  '        S                   ',
+  '        S                   ',
+  '        S                   ',
+  '        S                   ',
+  '        S                   ',
+  '        S                   ',
+  '        S                   ',
+  '        S                   ',
+  '        S                   ',
+  '       &S$        0         ',
+  '############################',
+  '@@@@@@@@@@@@@@@@@@@@@@@@@@@@'
+];
+
+// Stands in for PreloadScene: the atlases get blank canvases of the right size
+class HarnessScene extends Phaser.Scene {
+  constructor() {
+    super('Harness');
+  }
+
+  create(): void {
+    ['runner', 'guard', 'tiles', 'hole'].forEach(key => {
+      const atlas = readJson(`sprites/${key}.json`);
+      const frames = Object.values(atlas.frames) as { frame: { x: number, y: number, w: number, h: number } }[];
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.max(...frames.map(({ frame }) => frame.x + frame.w));
+      canvas.height = Math.max(...frames.map(({ frame }) => frame.y + frame.h));
+      this.textures.addAtlas(key, canvas as unknown as HTMLImageElement, atlas);
+    });
+    this.cache.json.add('runner-anims', readJson('anims/runner.json'));
+    this.cache.json.add('guard-anims', readJson('anims/guard.json'));
+    this.cache.json.add('hole-anims', readJson('anims/hole.json'));
+    AssetManager.createPlayerAnimations(this);
+    AssetManager.createGuardAnimations(this);
+    AssetManager.createHoleAnimations(this);
+
+    this.cache.json.add(LevelPackManager.MANIFEST_KEY, {
+      packs: [{ id: 'replay', name: 'Replay', file: 'replay.json', levelCount: 1, levelKeyPattern: 'level-{nnn}' }]
+    });
+    this.cache.json.add(LevelPackManager.getCacheKey('replay'), { levels: { name: 'Replay', total: 1, 'level-001': LEVEL } });
+    LevelPackManager.setSelectedPack(this, 'replay');
+    this.registry.set('gameSeed', 1);
+  }
+}
+
+function bootGame(): Promise<Phaser.Game> {
+  return new Promise(resolveGame => {
+    const game = new Phaser.Game({
+      type: Phaser.HEADLESS,
+      width: GAME_CONFIG.width,
+      height: GAME_CONFIG.height,
+      autoFocus: false,
+      audio: { noAudio: true },
+      physics: { default: 'arcade', arcade: { gravity: { x: 0, y: 800 } } },
+      scene: [HarnessScene, GameScene],
+      callbacks: { postBoot: () => resolveGame(game) }
+    });
+    game.loop.raf.start = () => {}; // Frames are stepped by hand below
+  });
+}
+
+// Where the runner, guards and holes are after a frame, and the score
+function snapshot(scene: GameScene): string {
+  const player = scene['player'].sprite;
+  const state = scene['player'].getState();
+  const guards = scene['guards'].map(guard => `${guard.sprite.x},${guard.sprite.y},${guard.getState()}`);
+  const holes = [...scene['holeSystem'].getHoles().keys()];
+  return `${player.x},${player.y},${state} | ${guards.join(' ')} | ${holes.join(' ')} | ${scene['gameState'].score}`;
+}
+
+// Steps the scene until its attempt ends, with the given frame times; returns
+// a snapshot of every frame up to and including the last
+function runAttempt(game: Phaser.Game, scene: GameScene, nextDelta: () => number): string[] {
+  const snapshots: string[] = [];
+  const capture = () => snapshots.push(snapshot(scene));
+  scene.events.on(Phaser.Scenes.Events.POST_UPDATE, capture);
+
+  let time = 0;
+  for (let i = 0; i < MAX_FRAMES && !scene['replayResult']; i++) {
+    const delta = nextDelta();
+    time += delta;
+    game.headlessStep(time, delta);
+  }
+  scene.events.off(Phaser.Scenes.Events.POST_UPDATE, capture);
+  return snapshots;
+}
+
+// Park-Miller, so the frame times are the same every run
+function createRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 16807) % 2147483647;
+    return state / 2147483647;
+  };
+}
+
+// Input held for [bits, frames] at a time
+const SCRIPT: [number, number][] = [
+  [INPUT_BITS.RIGHT, 18], [0, 5], [INPUT_BITS.DIG_RIGHT, 1], [0, 30],
+  [INPUT_BITS.LEFT, 9], [INPUT_BITS.UP, 40], [0, 400], [INPUT_BITS.UP, 400]
+];
+const MAX_FRAMES = 3600;
+
+describe('GameScene replay', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('plays a recorded attempt back to the same frames and outcome', () => bootGame().then(game => {
+    const scene = game.scene.getScene(SCENE_KEYS.GAME) as GameScene;
+    game.headlessStep(0, 16);
+
+    // Record the scripted attempt on uneven frame times; stopping the scene saves it
+    const script = SCRIPT.flatMap(([bits, frames]) => Array<number>(frames).fill(bits));
+    let frame = 0;
+    vi.spyOn(InputManager.prototype, 'getInputBits').mockImplementation(() => script[frame++] ?? 0);
+    const random = createRandom(7);
+    game.scene.start(SCENE_KEYS.GAME);
+    const recorded = runAttempt(game, scene, () => 12 + random() * 10);
+    game.scene.stop(SCENE_KEYS.GAME);
+    game.headlessStep(0, 16);
+
+    const replay = GameReplayManager.loadLastReplay()!;
+    expect(replay.result).toMatchObject({ outcome: 'complete', score: 1100 });
+    // The dig, the stun, the hole filling in, the respawn and the reborn
+    // guard waking up are all timers
+    expect(recorded.some(line => line.includes(GuardState.STUNNED_IN_HOLE))).toBe(true);
+    expect(recorded.some(line => line.includes(GuardState.REBORN))).toBe(true);
+
+    // Play it back with the game loop on a different frame time altogether
+    game.registry.set('gameReplay', replay);
+    game.scene.start(SCENE_KEYS.GAME);
+    const played = runAttempt(game, scene, () => 50);
+
+    expect(scene['replayResult']).toEqual(replay.result);
+    expect(played).toEqual(recorded);
+    game.destroy(false);
+  }));
+});
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { HighScoreManager } from '@/managers/HighScoreManager';
+
+describe('HighScoreManager.addScore', () => {
+  it('keeps the table sorted by score, highest first', () => {
+    expect(HighScoreManager.addScore('AAA', 500, 3)).toBe(0);
+    expect(HighScoreManager.addScore('BBB', 900, 5)).toBe(0);
+    expect(HighScoreManager.addScore('CCC', 700, 4)).toBe(1);
+
+    expect(HighScoreManager.getScores().map(entry => entry.initials)).toEqual(['BBB', 'CCC', 'AAA']);
+  });
+
+  it('puts a tied score after the older entry', () => {
+    HighScoreManager.addScore('OLD', 500, 3);
+
+    expect(HighScoreManager.addScore('NEW', 500, 3)).toBe(1);
+    expect(HighScoreManager.getScores().map(entry => entry.initials)).toEqual(['OLD', 'NEW']);
+  });
+
+  it('drops the lowest entry once the table is full', () => {
+    for (let i = 1; i <= HighScoreManager.MAX_ENTRIES; i++) {
+      HighScoreManager.addScore('AAA', i * 100, 1);
+    }
+
+    expect(HighScoreManager.qualifies(100)).toBe(false);
+    expect(HighScoreManager.addScore('LOW', 50, 1)).toBe(-1);
+    expect(HighScoreManager.addScore('TOP', 5000, 1)).toBe(0);
+
+    const scores = HighScoreManager.getScores();
+    expect(scores).toHaveLength(HighScoreManager.MAX_ENTRIES);
+    expect(scores[scores.length - 1].score).toBe(200);
+  });
+
+  it('stores initials as three upper-case letters', () => {
+    HighScoreManager.addScore('ab', 100, 1);
+    HighScoreManager.addScore('wxyz', 50, 1);
+
+    expect(HighScoreManager.getScores().map(entry => entry.initials)).toEqual(['AB ', 'WXY']);
+  });
+
+  it('never lets a zero score qualify', () => {
+    expect(HighScoreManager.qualifies(0)).toBe(false);
+    expect(HighScoreManager.qualifies(10)).toBe(true);
+  });
+
+  it('skips stored entries that are malformed', () => {
+    localStorage.setItem('loderunner-highscores', JSON.stringify([
+      { initials: 'AAA', score: 300, level: 2, date: '2025-01-31' },
+      { initials: 'BBB', score: '200' },
+      null
+    ]));
+
+    expect(HighScoreManager.getScores().map(entry => entry.initials)).toEqual(['AAA']);
+  });
+});
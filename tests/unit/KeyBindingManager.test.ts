@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { KeyBindingManager } from '@/managers/KeyBindingManager';
+
+const STORAGE_KEY = 'loderunner-keybindings';
+
+describe('KeyBindingManager.assign', () => {
+  it('binds a free key and reports nothing taken', () => {
+    const bindings = KeyBindingManager.getDefaults();
+
+    expect(KeyBindingManager.assign(bindings, 'digLeft', 1, 'Q')).toBeNull();
+    expect(bindings.digLeft).toEqual(['Z', 'Q']);
+  });
+
+  it('swaps a key taken from another action for the key it replaces', () => {
+    const bindings = KeyBindingManager.getDefaults();
+
+    expect(KeyBindingManager.assign(bindings, 'left', 1, 'D')).toBe('right');
+    expect(bindings.left).toEqual(['LEFT', 'D']);
+    expect(bindings.right).toEqual(['RIGHT', 'A']);
+    expect(KeyBindingManager.findConflicts(bindings)).toEqual([]);
+  });
+
+  it('swaps slots when the key is already in the action\'s other slot', () => {
+    const bindings = KeyBindingManager.getDefaults();
+
+    expect(KeyBindingManager.assign(bindings, 'confirm', 0, 'SPACE')).toBeNull();
+    expect(bindings.confirm).toEqual(['SPACE', 'ENTER']);
+  });
+
+  it('unbinds a slot with null', () => {
+    const bindings = KeyBindingManager.getDefaults();
+
+    expect(KeyBindingManager.assign(bindings, 'up', 1, null)).toBeNull();
+    expect(bindings.up).toEqual(['UP', null]);
+    expect(KeyBindingManager.describe('up', bindings)).toBe('↑');
+  });
+});
+
+describe('KeyBindingManager stored bindings', () => {
+  it('fills actions missing from an older save with their defaults', () => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ left: ['J', null], right: ['L', null] }));
+
+    const bindings = KeyBindingManager.getBindings();
+    expect(bindings.left).toEqual(['J', null]);
+    expect(bindings.right).toEqual(['L', null]);
+    expect(bindings.up).toEqual(KeyBindingManager.getDefaults().up);
+  });
+
+  it.each([
+    ['an unknown key name', { left: ['NOT_A_KEY', null] }],
+    ['the wrong number of slots', { left: ['LEFT'] }],
+    ['a binding that is not a list', { left: 'LEFT' }],
+    ['a save that is not an object', ['LEFT', 'A']]
+  ])('discards a save with %s', (_case, stored) => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+
+    expect(KeyBindingManager.getBindings()).toEqual(KeyBindingManager.getDefaults());
+    expect(localStorage.getItem(STORAGE_KEY)).toBeNull();
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { LevelSaveManager, LevelState, LEVEL_SAVE_VERSION } from '@/managers/LevelSaveManager';
+
+function createState(): LevelState {
+  return {
+    gameTime: 12000,
+    rngState: 42,
+    score: 1500,
+    lives: 3,
+    goldCollected: 2,
+    totalGold: 5,
+    gold: [{ gridX: 4, gridY: 10 }],
+    player: { x: 112, y: 336, velocityX: 0, velocityY: 0 },
+    invincibleMs: 0,
+    guards: [],
+    holes: [{ gridX: 6, gridY: 11, direction: 'left', isDigging: false, elapsedMs: 1800 }],
+    holeTimeline: { currentTime: 12000, timelines: [] },
+    navigationVersion: 3,
+    levelStartScore: 1200,
+    levelStartTime: 0
+  };
+}
+
+describe('LevelSaveManager.validateState', () => {
+  it('accepts a state GameScene captured', () => {
+    expect(() => LevelSaveManager.validateState(createState(), 'Level save')).not.toThrow();
+  });
+
+  it.each([
+    ['no state at all', () => null, 'has no game time'],
+    ['a missing score', (state: Record<string, unknown>) => ({ ...state, score: undefined }), 'has no game time'],
+    ['a player without a position', (state: Record<string, unknown>) => ({ ...state, player: { x: 1 } }), 'has no player position'],
+    ['a guard without a state', (state: Record<string, unknown>) => ({ ...state, guards: [{ x: 1, y: 2 }] }), 'guards must all have'],
+    ['gold off the grid', (state: Record<string, unknown>) => ({ ...state, gold: [{ gridX: 1.5, gridY: 2 }] }), 'gold must be a list of cells'],
+    ['a hole without its age', (state: Record<string, unknown>) => ({ ...state, holes: [{ gridX: 1, gridY: 2 }] }), 'holes must be cells'],
+    ['no hole timeline', (state: Record<string, unknown>) => ({ ...state, holeTimeline: null }), 'has no hole timeline']
+  ])('rejects %s', (_case, change, message) => {
+    const state = change({ ...createState() });
+
+    expect(() => LevelSaveManager.validateState(state, 'Bug report')).toThrow(`Bug report ${message}`);
+  });
+});
+
+describe('LevelSaveManager.parse', () => {
+  const save = {
+    version: LEVEL_SAVE_VERSION,
+    savedAt: '2025-01-31T00:00:00.000Z',
+    packId: 'classic',
+    levelNumber: 3,
+    levelKey: 'level-003',
+    seed: 1234,
+    guardBrain: 'heuristic' as const,
+    state: createState()
+  };
+
+  it('reads back a serialized save', () => {
+    expect(LevelSaveManager.parse(LevelSaveManager.serialize(save))).toEqual(save);
+  });
+
+  it('rejects other versions and unknown brains', () => {
+    expect(() => LevelSaveManager.parse(JSON.stringify({ ...save, version: LEVEL_SAVE_VERSION + 1 }))).toThrow('Unsupported level save version');
+    expect(() => LevelSaveManager.parse(JSON.stringify({ ...save, guardBrain: 'psychic' }))).toThrow('Unknown guard brain');
+    expect(() => LevelSaveManager.parse('{')).toThrow('not valid JSON');
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { TILE_TYPES } from '@/config/GameConfig';
+import { TileChecker } from '@/utils/ClimbValidation';
+import { NavigationGraph, NavNode } from '@/utils/NavigationGraph';
+
+const GLYPHS: Record<string, number> = {
+  ' ': TILE_TYPES.EMPTY,
+  '#': TILE_TYPES.BRICK,
+  '@': TILE_TYPES.SOLID,
+  'H': TILE_TYPES.LADDER,
+  '-': TILE_TYPES.ROPE,
+  'X': TILE_TYPES.TRAP
+};
+
+// Small grid from level-style rows, with LevelSystem's solid and standable rules
+function createGraph(rows: string[], canDig: boolean = false): NavigationGraph {
+  const getTileType = (x: number, y: number) => GLYPHS[rows[y]?.[x]] ?? TILE_TYPES.SOLID;
+  const tileChecker: TileChecker = {
+    getTileType,
+    isTileSolid: (x, y) => [TILE_TYPES.BRICK, TILE_TYPES.SOLID].includes(getTileType(x, y) as 1 | 5),
+    isTileStandable: (x, y) => [TILE_TYPES.BRICK, TILE_TYPES.SOLID, TILE_TYPES.LADDER, TILE_TYPES.ROPE].includes(getTileType(x, y) as 1 | 5 | 3 | 4)
+  };
+  return new NavigationGraph(tileChecker, { canDig, width: rows[0].length, height: rows.length });
+}
+
+const key = (node: NavNode) => NavigationGraph.nodeKey(node.x, node.y);
+
+describe('NavigationGraph.findPath', () => {
+  const rows = [
+    '        ',
+    '####H###',
+    '    H   ',
+    '    H   ',
+    '########'
+  ];
+
+  it('climbs the ladder to reach the floor above', () => {
+    const path = createGraph(rows).findPath({ x: 0, y: 3 }, { x: 7, y: 0 });
+
+    expect(path).not.toBeNull();
+    expect(path!.map(key)).toEqual(['1,3', '2,3', '3,3', '4,3', '4,2', '4,1', '4,0', '5,0', '6,0', '7,0']);
+  });
+
+  it('returns an empty path when already at the goal', () => {
+    expect(createGraph(rows).findPath({ x: 2, y: 3 }, { x: 2, y: 3 })).toEqual([]);
+  });
+
+  it('returns null when a wall cuts the goal off', () => {
+    const walled = ['        ', '####H###', '    H@  ', '    H@  ', '########'];
+
+    expect(createGraph(walled).findPath({ x: 0, y: 0 }, { x: 7, y: 3 })).toBeNull();
+  });
+
+  it('falls through a trap brick', () => {
+    const trapped = ['    ', '#X##', '    ', '####'];
+
+    expect(createGraph(trapped).getNeighbors(1, 0)).toEqual([{ x: 1, y: 1 }]);
+    expect(createGraph(trapped).findPath({ x: 0, y: 0 }, { x: 3, y: 2 })!.map(key)).toEqual(['1,0', '1,1', '1,2', '2,2', '3,2']);
+  });
+
+  it('goes hand over hand along a rope and drops off it', () => {
+    const roped = ['@----@', '@ @@ @', '@@@@@@'];
+
+    expect(createGraph(roped).findPath({ x: 1, y: 0 }, { x: 4, y: 1 })!.map(key)).toEqual(['2,0', '3,0', '4,0', '4,1']);
+  });
+
+  it('digs through bricks only when digging is allowed', () => {
+    const floored = ['    ', '####', '    ', '@@@@'];
+
+    expect(createGraph(floored).findPath({ x: 0, y: 0 }, { x: 3, y: 2 })).toBeNull();
+    expect(createGraph(floored, true).findPath({ x: 0, y: 0 }, { x: 3, y: 2 })).not.toBeNull();
+  });
+
+  it('finds a new path after invalidate() once the tiles change', () => {
+    const level = ['      ', '  @   ', '######'];
+    const graph = createGraph(level);
+    expect(graph.findPath({ x: 0, y: 1 }, { x: 5, y: 1 })).toBeNull();
+
+    level[1] = '      ';
+    graph.invalidate();
+    expect(graph.findPath({ x: 0, y: 1 }, { x: 5, y: 1 })).toHaveLength(5);
+    expect(graph.getVersion()).toBe(1);
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { ProgressManager } from '@/managers/ProgressManager';
+
+const STORAGE_KEY = 'loderunner-progress';
+
+const storeSave = (save: unknown) => localStorage.setItem(STORAGE_KEY, JSON.stringify(save));
+const readSave = () => JSON.parse(localStorage.getItem(STORAGE_KEY)!);
+
+describe('ProgressManager save migration', () => {
+  it('upgrades a version 1 save and keeps its run', () => {
+    storeSave({
+      version: 1,
+      packs: { classic: { highestLevel: 7, run: { level: 7, score: 4200, lives: 2 }, savedAt: '2025-01-31T00:00:00.000Z' } }
+    });
+
+    expect(ProgressManager.getRun('classic')).toEqual({ level: 7, score: 4200, lives: 2 });
+    expect(ProgressManager.getHighestLevel('classic')).toBe(7);
+    expect(ProgressManager.getLevelRecord('classic', 1)).toBeNull();
+
+    ProgressManager.recordLevelResult('classic', 7, 900, 61000);
+    expect(readSave().version).toBe(ProgressManager.SAVE_VERSION);
+    expect(ProgressManager.getLevelRecord('classic', 7)).toEqual({ bestScore: 900, bestTime: 61000 });
+  });
+
+  it('leaves a save from a newer build alone', () => {
+    const newer = { version: ProgressManager.SAVE_VERSION + 1, packs: {} };
+    storeSave(newer);
+
+    expect(ProgressManager.getProgress('classic')).toBeNull();
+    ProgressManager.saveRun('classic', { level: 1, score: 0, lives: 5 });
+    expect(readSave()).toEqual(newer);
+  });
+
+  it.each([
+    ['text that is not JSON', 'not json'],
+    ['a save without a version', JSON.stringify({ packs: {} })],
+    ['a pack with a malformed run', JSON.stringify({ version: 2, packs: { classic: { highestLevel: 3, run: { level: 'three' }, levels: {}, savedAt: '' } } })]
+  ])('discards %s', (_case, stored) => {
+    localStorage.setItem(STORAGE_KEY, stored);
+
+    expect(ProgressManager.getProgress('classic')).toBeNull();
+    expect(localStorage.getItem(STORAGE_KEY)).toBeNull();
+  });
+});
+
+describe('ProgressManager level records', () => {
+  it('keeps the best score and the best time separately', () => {
+    ProgressManager.recordLevelResult('classic', 3, 800, 50000);
+    ProgressManager.recordLevelResult('classic', 3, 600, 40000);
+
+    expect(ProgressManager.getLevelRecord('classic', 3)).toEqual({ bestScore: 800, bestTime: 40000 });
+  });
+
+  it('clears the run on game over but keeps the highest level', () => {
+    ProgressManager.saveRun('classic', { level: 4, score: 1000, lives: 1 });
+    ProgressManager.clearRun('classic');
+
+    expect(ProgressManager.getRun('classic')).toBeNull();
+    expect(ProgressManager.getHighestLevel('classic')).toBe(4);
+  });
+});
@@ -0,0 +1,11 @@
+import { beforeEach } from 'vitest';
+
+// jsdom has no canvas; Phaser probes one on import
+import 'vitest-canvas-mock';
+
+// Phaser sets itself up as a global on import, the way the game sees it in the browser
+import 'phaser';
+
+beforeEach(() => {
+  localStorage.clear();
+});
@@ -0,0 +1,18 @@
+import { defineConfig, mergeConfig } from 'vitest/config';
+import { resolve } from 'path';
+import viteConfig from './vite.config';
+
+// Unit tests for the game's logic, run against jsdom for localStorage
+export default mergeConfig(viteConfig, defineConfig({
+  resolve: {
+    alias: {
+      // Phaser's package main is its webpack source; the bundled build runs as is in Node
+      phaser: resolve(__dirname, 'node_modules/phaser/dist/phaser.js')
+    }
+  },
+  test: {
+    include: ['tests/unit/**/*.test.ts'],
+    environment: 'jsdom',
+    setupFiles: ['tests/unit/setup.ts']
+  }
+}));